@@ -1,7 +1,53 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { getPregeneratedGameSetup, getCharacterResponses, getVoteAndConfession, editImageToRemoveCharacter } from './services/geminiService';
-import type { Character, Message, GameState } from './types';
+import React, { useState, useRef, useEffect, useCallback, useReducer } from 'react';
+import { getPregeneratedGameSetup } from './services/geminiService';
+import type { Character, Message, Vote } from './types';
+import { pregeneratedGameSets, GameSet } from './pregeneratedContent';
+import { getAvailableGameSets } from './services/packLibrary';
+import { connectToRoomServer, getRejoinToken, rememberRejoinToken, RoomConnection } from './services/roomClient';
+import type { ClientMessage, RoomView } from './services/roomProtocol';
+import { createScenarioPack, downloadScenarioPack, ScenarioPack } from './services/scenarioPack';
+import ScenarioPackPanel from './components/ScenarioPackPanel';
+import ScenarioEditor from './components/ScenarioEditor';
+import { saveGame, loadGame, deleteSave, listSaves, pickSlotForNewGame, SaveSlotSummary } from './services/saveService';
+import { createRandom, newSeed } from './services/random';
+import { recordDailyResult, getDailyResult, formatDailyShare } from './services/dailyCase';
+import { gameReducer, initialEngineState, ballotContextOf, getPlayer, getVillain } from './game/engine';
+import {
+    NIGHT_MS, runInvestigatorCheck, hearReplies, clockForRound, secondsLeftOn, checkDiscussionLimits, endNight, runBallot as playBallot,
+    BallotShell, DiscussionClock as RoundClock, Typing,
+} from './game/round';
+import { getInitialEvidenceFor, countQuestionedClues } from './game/evidence';
+import { resolveAddressees, selectResponders } from './game/addressing';
+import { createMemoryBank, rememberExchange, rememberTip, MemoryBank } from './game/memory';
+import { readTheRoom } from './game/suspicion';
+import { createCaseFile, CaseFile, SceneEdit } from './game/caseFile';
+import { createGameRecord, Achievement } from './game/profile';
+import { recordGame } from './services/profileService';
+import {
+    ROLES, DEFAULT_ROLE_OPTIONS, initialRoleState, investigate, hasInvestigatedThisRound, isVillainSide, RoleOptions, RoleState,
+} from './game/roles';
+import { DEFAULT_CAST_OPTIONS, CastOptions, scenarioIdOf } from './game/cast';
+import { DEFAULT_VOTE_RULES, VoteRules } from './game/voteRules';
+import { DEFAULT_DIFFICULTY, describeDifficulty, getDifficulty, Difficulty } from './game/difficulty';
+import { DEFAULT_DISCUSSION_LIMITS, questionsLeftOf, DiscussionLimits } from './game/discussion';
+import { getSilenced, withNightClues } from './game/night';
+import { hasPlantedDoubtThisRound, plantDoubt, scoreDeception } from './game/villainMode';
+import { encodeCaseCode, CaseSetup } from './game/caseCode';
+import { dealCase, getBriefingLines } from './game/deal';
+import { getHumans, isHotSeat, nextSpeaker, pendingHumanVoters, getPlayerResults } from './game/hotSeat';
 import CharacterCard from './components/CharacterCard';
+import EvidencePanel from './components/EvidencePanel';
+import DeceptionReport from './components/DeceptionReport';
+import GameOptionsPanel from './components/GameOptionsPanel';
+import DiscussionClock from './components/DiscussionClock';
+import RetryNotice from './components/RetryNotice';
+import DailyCasePanel from './components/DailyCasePanel';
+import CaseFileViewer from './components/CaseFileViewer';
+import StatsScreen from './components/StatsScreen';
+import OnlineRoomPanel from './components/OnlineRoomPanel';
+import OnlineGame from './components/OnlineGame';
+import HotSeatHandoff, { HandoffPurpose } from './components/HotSeatHandoff';
+import PlayerResults from './components/PlayerResults';
 import ChatBubble from './components/ChatBubble';
 import GameOverAnimations from './components/GameOverAnimations';
 
@@ -20,25 +66,159 @@ const loadingTexts = [
     '보고서용 폰트 고르는 중...',
 ];
 
+/**
+ * A private line for one person. Alone, it shows in the chat as before; in a hot-seat game it
+ * is addressed to them and only shown once they have the device.
+ */
+const privateNote = (characters: Character[], to: string, text: string): Message =>
+    ({ sender: 'system', text, isPrivate: true, ...(isHotSeat(characters) ? { privateTo: to } : {}) });
+
 const App: React.FC = () => {
-    const [gameState, setGameState] = useState<GameState>('welcome');
-    const [characters, setCharacters] = useState<Character[]>([]);
-    const [playerCharacter, setPlayerCharacter] = useState<Character | null>(null);
+    const [engine, dispatch] = useReducer(gameReducer, initialEngineState);
     const [messages, setMessages] = useState<Message[]>([]);
     const [sabotage, setSabotage] = useState<string>('');
-    const [villain, setVillain] = useState<Character | null>(null);
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    /** The colleagues are answering; the player may interrupt them by sending again or voting. */
+    const [replying, setReplying] = useState(false);
+    /** The colleague whose reply is coming in, with what has arrived so far. */
+    const [typing, setTyping] = useState<Typing | null>(null);
+    /** Colleagues the last question never reached, even after retrying. */
+    const [unanswered, setUnanswered] = useState<{ question: Message; names: string[] } | null>(null);
+    /** The votes of a ballot that couldn't be counted, kept so it can be run again. */
+    const [failedBallot, setFailedBallot] = useState<Vote[] | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [loadingMessage, setLoadingMessage] = useState<string>(loadingTexts[0]);
     const [revealedCharactersCount, setRevealedCharactersCount] = useState(0);
-    const [lineCoords, setLineCoords] = useState<{ start: { x: number, y: number }, end: { x: number, y: number } } | null>(null);
+    const [lineCoords, setLineCoords] = useState<{ start: { x: number, y: number }, end: { x: number, y: number }, reason?: string } | null>(null);
     const [sceneImageUrl, setSceneImageUrl] = useState<string | null>(null);
+    const [gameSet, setGameSet] = useState<GameSet | null>(null);
+    const [saveSlot, setSaveSlot] = useState<number | null>(null);
+    const [savedGames, setSavedGames] = useState<SaveSlotSummary[]>([]);
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [sceneEdits, setSceneEdits] = useState<SceneEdit[]>([]);
+    // The last finished game's case file outlives "play again" so it can still be shared.
+    const [caseFile, setCaseFile] = useState<CaseFile | null>(null);
+    const [isCaseFileOpen, setIsCaseFileOpen] = useState(false);
+    const [isStatsOpen, setIsStatsOpen] = useState(false);
+    const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+    const [revealedEvidence, setRevealedEvidence] = useState<string[]>([]);
+    const [memories, setMemories] = useState<MemoryBank>({});
+    const [roleOptions, setRoleOptions] = useState<RoleOptions>(DEFAULT_ROLE_OPTIONS);
+    const [roleState, setRoleState] = useState<RoleState>(initialRoleState);
+    const [castOptions, setCastOptions] = useState<CastOptions>(DEFAULT_CAST_OPTIONS);
+    const [voteRules, setVoteRules] = useState<VoteRules>(DEFAULT_VOTE_RULES);
+    const [players, setPlayers] = useState(1);
+    const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+    /** The difficulty of the game in play, which a case code or saved game may have set. */
+    const [gameDifficulty, setGameDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+    const [discussionLimits, setDiscussionLimits] = useState<DiscussionLimits>(DEFAULT_DISCUSSION_LIMITS);
+    /** When this round's discussion runs out of time. Not saved: a reloaded round gets the full time again. */
+    const [discussionClock, setDiscussionClock] = useState<RoundClock | null>(null);
+    const [now, setNow] = useState(Date.now);
+    /** The round in which a colleague last warned that the discussion is nearly over. */
+    const [hurriedRound, setHurriedRound] = useState<number | null>(null);
+    /** Human runoff finalists who may still say a word in their defense, in seat order. */
+    const [defenders, setDefenders] = useState<string[]>([]);
+    /** In a hot-seat game: whose turn it is to type. */
+    const [speaker, setSpeaker] = useState<string | null>(null);
+    /** People who still have to look at their role before the discussion can start. */
+    const [revealQueue, setRevealQueue] = useState<string[]>([]);
+    /** Whose private notes are open. */
+    const [notesFor, setNotesFor] = useState<string | null>(null);
+    /** Secret votes collected from the people so far; the AI votes once everyone has voted. */
+    const [humanVotes, setHumanVotes] = useState<Vote[] | null>(null);
+    /** Seeds the deal and every night, so a case code replays the same game. */
+    const [seed, setSeed] = useState<number>(0);
+    const [caseCode, setCaseCode] = useState<string | null>(null);
+    /** The day whose daily case is being played, if any. */
+    const [dailyKey, setDailyKey] = useState<string | null>(null);
+    /** Colleagues picked on the board; the player's messages go only to them until cleared. */
+    const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
+    /** The online room this browser is in; the room server runs its game. */
+    const [room, setRoom] = useState<RoomView | null>(null);
+    const [roomError, setRoomError] = useState<string | null>(null);
 
     const chatEndRef = useRef<HTMLDivElement>(null);
+    const roomConnectionRef = useRef<RoomConnection | null>(null);
     const characterPanelRef = useRef<HTMLDivElement>(null);
     const characterCardRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
+    const replyAbortRef = useRef<AbortController | null>(null);
+    /** Cancels the game's outstanding AI calls (ballot, confession, scene edits) when it is reset. */
+    const gameAbortRef = useRef(new AbortController());
+    /** Set once the finished game is on the player's record, so a late update to the end screen doesn't record it again. */
+    const recordedRef = useRef(false);
+
+    const { phase: gameState, characters } = engine;
+    const playerCharacter = getPlayer(characters);
+    const villain = getVillain(characters);
+    const hotSeat = isHotSeat(characters);
+    // Hot-seat narration can't address "you", so villain-player lines are for single play only.
+    const isPlayerVillain = !hotSeat && playerCharacter?.role === 'villain';
+    /** Who the chat input speaks as. */
+    const speakerCharacter = hotSeat
+        ? characters.find(c => c.name === speaker && c.isPlayer && c.status === 'active') ?? getHumans(characters).find(c => c.status === 'active') ?? null
+        : playerCharacter;
+    const sharedMessages = messages.filter(m => !m.privateTo);
+    const pendingVoters = humanVotes ? pendingHumanVoters(characters, humanVotes) : [];
+    const handoffTo = (name: string, purpose: HandoffPurpose) => {
+        const player = characters.find(c => c.name === name);
+        return player ? { player, purpose } : null;
+    };
+    const handoff: { player: Character; purpose: HandoffPurpose } | null = !hotSeat ? null
+        : revealQueue.length > 0 ? handoffTo(revealQueue[0], 'reveal')
+        : gameState === 'voting' && pendingVoters.length > 0 ? { player: pendingVoters[0], purpose: 'vote' }
+        : notesFor ? handoffTo(notesFor, 'notes')
+        : null;
+    const script = gameSet?.script;
+    const evidence = withNightClues(gameSet?.evidence, engine.incidents);
+    const incidents = engine.incidents;
+    const caseDetails = { script, evidence, revealedEvidence, memories, roleState, incidents, difficulty: gameDifficulty };
+    const { clueReveals } = getDifficulty(gameDifficulty);
+    const cluesLeft = clueReveals === null ? null : Math.max(0, clueReveals - countQuestionedClues(evidence, revealedEvidence, characters));
+    const roomReading = readTheRoom(memories, characters);
+    /** Colleagues sitting out this round's discussion after the night before. */
+    const silenced = getSilenced(incidents, engine.round);
+    const secondsLeft = secondsLeftOn(discussionClock, engine.round, now);
+    const questionsLeft = questionsLeftOf(engine.limits, engine.questionsAsked);
+
+    /** The arrow from a voter's card to the card they voted for, while the vote is read out. */
+    const voteArrow = (vote: Vote) => {
+        const characterPanel = characterPanelRef.current;
+        const voterCardEl = characterCardRefs.current[vote.voter];
+        const votedForCardEl = vote.votedFor ? characterCardRefs.current[vote.votedFor] : null;
+        if (!characterPanel || !voterCardEl || !votedForCardEl) return null;
 
+        const panelRect = characterPanel.getBoundingClientRect();
+        const voterRect = voterCardEl.getBoundingClientRect();
+        const votedForRect = votedForCardEl.getBoundingClientRect();
+        const start = {
+            x: voterRect.left + voterRect.width / 2 - panelRect.left + characterPanel.scrollLeft,
+            y: voterRect.top + voterRect.height / 2 - panelRect.top + characterPanel.scrollTop,
+        };
+        const end = {
+            x: votedForRect.left + votedForRect.width / 2 - panelRect.left + characterPanel.scrollLeft,
+            y: votedForRect.top + votedForRect.height / 2 - panelRect.top + characterPanel.scrollTop,
+        };
+        return { start, end, reason: vote.reason };
+    };
+
+    /** How the shared round steps (replies, ballots, limits, nights) reach this screen's state. */
+    const shell: BallotShell = {
+        dispatch,
+        post: (...added) => setMessages(prev => [...prev, ...added]),
+        note: (to, text) => privateNote(characters, to, text),
+        updateMemories: setMemories,
+        revealEvidence: ids => setRevealedEvidence(prev => [...prev, ...ids.filter(id => !prev.includes(id))]),
+        setTyping,
+        pointAt: vote => setLineCoords(vote && voteArrow(vote)),
+        sceneEdited: (fired, imageUrl) => {
+            setSceneImageUrl(imageUrl);
+            setSceneEdits(prev => [...prev, { fired, imageUrl }]);
+            setMessages(prev => prev.map(msg => (msg.isSpecial ? { ...msg, imageUrl } : msg)));
+        },
+        setDefenders,
+    };
 
     const scrollToBottom = () => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -46,7 +226,103 @@ const App: React.FC = () => {
 
     useEffect(() => {
         scrollToBottom();
-    }, [messages]);
+    }, [messages, typing]);
+
+    useEffect(() => {
+        if (gameState === 'welcome') {
+            setSavedGames(listSaves());
+        }
+    }, [gameState]);
+
+    // Auto-save after every message and vote. Mid-ballot states are skipped because the
+    // reveal animation cannot be resumed; finished games free their slot.
+    useEffect(() => {
+        if (saveSlot === null) return;
+        if (gameState === 'game_over_win' || gameState === 'game_over_loss') {
+            deleteSave(saveSlot);
+        } else if (gameState === 'briefing' || gameState === 'discussion' || gameState === 'voting' || gameState === 'night') {
+            saveGame(saveSlot, { engine, messages, sabotage, sceneImageUrl, gameSet, revealedEvidence, memories, roleState, seed, caseCode, dailyKey, difficulty: gameDifficulty });
+        }
+    }, [saveSlot, engine, messages, sabotage, sceneImageUrl, gameSet, revealedEvidence, memories, roleState, seed, caseCode, dailyKey, gameDifficulty, gameState]);
+
+    // An AI investigator quietly runs their check at the start of each round's discussion.
+    useEffect(() => {
+        if (gameState !== 'discussion') return;
+        const next = runInvestigatorCheck(characters, engine.round, roleState, memories);
+        if (next !== roleState) setRoleState(next);
+    }, [gameState, engine.round, characters, roleState, memories]);
+
+    // Each round's clock starts with its discussion and ticks once a second while it runs.
+    useEffect(() => {
+        if (gameState !== 'discussion' || engine.limits.seconds === 0) return;
+        const clock = clockForRound(discussionClock, engine);
+        if (clock !== discussionClock) setDiscussionClock(clock);
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [gameState, engine, discussionClock]);
+
+    // The limits are looked at again whenever they tick down, once the colleagues have finished answering.
+    useEffect(() => {
+        if (gameState !== 'discussion' || isLoading || replying) return;
+        const pressed = checkDiscussionLimits(engine, secondsLeft, hurriedRound, memories, shell);
+        if (pressed !== hurriedRound) setHurriedRound(pressed);
+    }, [gameState, isLoading, replying, engine, secondsLeft, hurriedRound, memories]);
+
+    // A question nobody could answer is only worth retrying in the discussion it was asked in.
+    useEffect(() => {
+        if (gameState !== 'discussion') setUnanswered(null);
+    }, [gameState]);
+
+    useEffect(() => {
+        if (gameState !== 'night') return;
+        const timer = setTimeout(() => endNight(engine, seed, memories, shell), NIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [gameState, engine, memories, seed]);
+
+    // The first finish of a daily case is kept so the team can compare.
+    useEffect(() => {
+        if (!dailyKey || (gameState !== 'game_over_win' && gameState !== 'game_over_loss')) return;
+        recordDailyResult({
+            dailyKey,
+            won: gameState === 'game_over_win',
+            ballots: engine.ballots.length,
+            innocentsFired: engine.ballots.filter(b => characters.some(c => c.name === b.votedOut && !isVillainSide(c))).length,
+        });
+    }, [dailyKey, gameState, engine.ballots, characters]);
+
+    // Solo games go on the player's record; a shared device has no one person to credit.
+    useEffect(() => {
+        if ((gameState !== 'game_over_win' && gameState !== 'game_over_loss') || hotSeat || !playerCharacter || !engine.result?.winner) return;
+        if (recordedRef.current) return;
+        recordedRef.current = true;
+        setNewAchievements(recordGame(createGameRecord(playerCharacter, characters, engine.ballots, engine.result.winner, engine.round, gameSet ? scenarioIdOf(gameSet) : sabotage, sabotage, !!dailyKey, gameDifficulty)));
+    }, [gameState, hotSeat, playerCharacter, characters, engine.ballots, engine.result, engine.round, gameSet, sabotage, dailyKey, gameDifficulty]);
+
+    // The case file is rebuilt until the end screen settles, since a scene edit can still arrive late.
+    useEffect(() => {
+        if ((gameState !== 'game_over_win' && gameState !== 'game_over_loss') || !engine.result?.winner) return;
+        setCaseFile(createCaseFile({
+            sabotage,
+            sceneImageUrl: gameSet?.sceneImageUrl ?? null,
+            characters,
+            messages,
+            ballots: engine.ballots,
+            sceneEdits,
+            caseCode,
+            difficulty: gameDifficulty,
+            winner: engine.result.winner,
+        }));
+    }, [gameState, engine.result, engine.ballots, sabotage, gameSet, characters, messages, sceneEdits, caseCode, gameDifficulty]);
+
+    // Targets only make sense while talking, and a fired colleague can no longer be questioned.
+    useEffect(() => {
+        if (gameState !== 'discussion') {
+            setSelectedTargets([]);
+        } else {
+            setSelectedTargets(prev => prev.filter(name => characters.some(c => c.name === name && c.status === 'active')));
+        }
+    }, [gameState, characters]);
 
     useEffect(() => {
         if (gameState === 'setting_up') {
@@ -77,10 +353,16 @@ const App: React.FC = () => {
     }, [gameState, characters.length]);
 
 
-    const handleStartGame = useCallback(async () => {
+    /**
+     * A playtest passes `dealCast = false` to play the scenario exactly as authored. A `setup`
+     * from a case code or the daily case deals from the built-in scenarios, which every copy of
+     * the game has; otherwise the welcome screen's options apply with a fresh seed.
+     */
+    const handleStartGame = useCallback(async (gameSets?: GameSet[], dealCast: boolean = true, setup?: CaseSetup, daily: string | null = null) => {
         setIsLoading(true);
         setError(null);
-        setGameState('setting_up');
+        recordedRef.current = false;
+        dispatch({ type: 'setup_started' });
         setMessages([{ sender: 'system', text: '새로운 오피스 빌런 사건을 접수하는 중입니다...' }]);
         
         // Artificial delay for smooth transition and for user to see the loading message.
@@ -88,268 +370,359 @@ const App: React.FC = () => {
 
         try {
             // Step 1: Get pre-generated game data instantly. No API calls here.
-            const { characters: pregenCharacters, sabotage: newSabotage, sceneImageUrl: newSceneImage } = getPregeneratedGameSetup();
+            const caseSetup: CaseSetup = setup ?? { seed: newSeed(), cast: castOptions, roles: roleOptions, rules: voteRules, players, difficulty };
+            const random = createRandom(caseSetup.seed);
+            const pool = gameSets ?? (setup ? pregeneratedGameSets : getAvailableGameSets());
+            // Imported scenarios aren't in everyone's copy, so only a built-in deal gets a code.
+            const shareable = dealCast && !gameSets && pool.length === pregeneratedGameSets.length;
+            const baseGameSet = getPregeneratedGameSetup(pool, random);
+            const dealt = dealCase(baseGameSet, pool, caseSetup, random, dealCast);
+            const { gameSet: newGameSet, characters: newCharacters, roleState: newRoleState } = dealt;
+            const { sabotage: newSabotage, sceneImageUrl: newSceneImage } = newGameSet;
 
             // Step 2: Immediately set up game state
-            const playerIndex = Math.floor(Math.random() * pregenCharacters.length);
-            
-            const newCharacters: Character[] = pregenCharacters.map((c, index) => ({
-                ...c,
-                status: 'active',
-                isPlayer: index === playerIndex,
-                votes: 0,
-            }));
-
-            const player = newCharacters.find(c => c.isPlayer)!;
-            const gameVillain = newCharacters.find(c => c.isVillain) || null;
-
-            setPlayerCharacter(player);
-            setCharacters(newCharacters);
+            const player = getPlayer(newCharacters)!;
+            const humans = getHumans(newCharacters);
+            const isShared = humans.length > 1;
+            const newCaseCode = shareable ? encodeCaseCode(caseSetup) : null;
+            const briefingFor = (human: Character): Message[] =>
+                getBriefingLines(human, dealt).map(text => privateNote(newCharacters, human.name, text));
+
             setSabotage(newSabotage);
-            setVillain(gameVillain);
             setSceneImageUrl(newSceneImage);
+            setSceneEdits([]);
+            setGameSet(newGameSet);
+            setRevealedEvidence(isShared ? [] : getInitialEvidenceFor(newGameSet.evidence, player));
+            setMemories(createMemoryBank(newCharacters));
+            setRoleState(newRoleState);
+            setSeed(caseSetup.seed);
+            setCaseCode(newCaseCode);
+            setDailyKey(daily);
+            setGameDifficulty(caseSetup.difficulty);
+            setSpeaker(humans[0].name);
+            setRevealQueue(isShared ? humans.map(h => h.name) : []);
+            setSaveSlot(pickSlotForNewGame());
 
             const initialMessages: Message[] = [
-                { sender: 'system', text: `당신은 이 게임의 주인공, ${player.name}입니다.`, isPrivate: true },
+                ...humans.flatMap(briefingFor),
+                ...(isShared ? [{
+                    sender: 'system',
+                    text: `👥 오늘은 ${humans.length}명이 함께합니다: ${humans.map((h, i) => `플레이어 ${i + 1} ${h.name}`).join(', ')}. 비밀 내용은 기기를 넘겨받은 사람에게만 보입니다.`,
+                }] : []),
                 { 
                     sender: 'system', 
                     text: `🚨긴급🚨\n\n"${newSabotage}"\n\n사건이 발생했습니다! 범인은 이 안에 있습니다.`, 
                     isSpecial: true,
                     imageUrl: newSceneImage, 
                 },
-                { sender: 'system', text: '동료들과 대화하여 오피스 빌런을 찾아내세요.' }
+                { sender: 'system', text: '동료들과 대화하여 오피스 빌런을 찾아내세요.' },
+                { sender: 'system', text: describeDifficulty(caseSetup.difficulty) },
+                ...(daily ? [{ sender: 'system', text: `📅 오늘의 사건(${daily})입니다. 팀원 모두가 같은 사건을 받았습니다.` }] : []),
+                ...(newCaseCode ? [{ sender: 'system', text: `🔖 사건 코드: ${newCaseCode} — 이 코드로 시작하면 같은 사건, 같은 배역이 다시 배정됩니다.` }] : []),
+                ...(newGameSet.evidence ? [{ sender: 'system', text: '동료들의 알리바이와 목격담은 수사 노트에 기록됩니다. 그 시간에 어디 있었는지, 본 것이 있는지 물어보세요.' }] : []),
             ];
             setMessages(initialMessages);
             
-            setGameState('briefing');
+            setDiscussionClock(null);
+            setHurriedRound(null);
+            setUnanswered(null);
+            setFailedBallot(null);
+            dispatch({ type: 'game_started', characters: newCharacters, rules: caseSetup.rules, limits: discussionLimits });
             setIsLoading(false); 
 
         } catch (e) {
             const errorMessage = "게임 데이터를 불러오는 중 오류가 발생했습니다. 잠시 후 다시 시도해 주세요.";
             setError(errorMessage);
-            setGameState('welcome');
+            dispatch({ type: 'setup_failed' });
             setIsLoading(false);
         }
-    }, []);
+    }, [roleOptions, castOptions, voteRules, players, difficulty, discussionLimits]);
+
+    /**
+     * Stops whatever the last game still has in flight and clears the table state that isn't
+     * saved, so nothing carries over into the next game, whether it is loaded or left for the
+     * welcome screen.
+     */
+    const clearTable = () => {
+        interruptReplies();
+        // A scene edit still in flight must not land on the next game's picture.
+        gameAbortRef.current.abort();
+        gameAbortRef.current = new AbortController();
+        recordedRef.current = false;
+        setError(null);
+        setSceneEdits([]);
+        setLineCoords(null);
+        setSpeaker(null);
+        setSelectedTargets([]);
+        setRevealQueue([]);
+        setNotesFor(null);
+        setHumanVotes(null);
+        setDefenders([]);
+        setDiscussionClock(null);
+        setHurriedRound(null);
+        setUnanswered(null);
+        setFailedBallot(null);
+        setNewAchievements([]);
+    };
+
+    const handleContinueGame = (slot: number) => {
+        const save = loadGame(slot);
+        if (!save) {
+            setError("저장된 게임을 불러오지 못했습니다.");
+            setSavedGames(listSaves());
+            return;
+        }
+        clearTable();
+        setMessages(save.messages);
+        setSabotage(save.sabotage);
+        setSceneImageUrl(save.sceneImageUrl);
+        setGameSet(save.gameSet);
+        setRevealedEvidence(save.revealedEvidence);
+        setMemories(save.memories);
+        setRoleState(save.roleState);
+        setSeed(save.seed);
+        setCaseCode(save.caseCode);
+        setDailyKey(save.dailyKey);
+        setGameDifficulty(save.difficulty);
+        setSaveSlot(slot);
+        dispatch({ type: 'game_restored', state: save.engine });
+    };
+
+    const handleDeleteSave = (slot: number) => {
+        deleteSave(slot);
+        setSavedGames(listSaves());
+    };
+
+    const handleExportScenario = () => {
+        if (!gameSet) return;
+        const title = gameSet.sabotage.length > 30 ? `${gameSet.sabotage.slice(0, 30)}...` : gameSet.sabotage;
+        downloadScenarioPack(createScenarioPack(title, [gameSet]));
+    };
+
+    /** Stops the colleagues mid-answer: finished replies stay, the one being typed is dropped. */
+    const interruptReplies = () => {
+        replyAbortRef.current?.abort();
+        replyAbortRef.current = null;
+        setReplying(false);
+        setTyping(null);
+    };
+
+    /**
+     * Puts `question` to `responders` and shows their replies as they come in, each clue noted
+     * once its source has spoken. Resolves to the replies given before it finished or was cut
+     * off; colleagues who couldn't be reached are kept for a retry.
+     */
+    const askColleagues = async (question: Message, responders: Character[], history: Message[]): Promise<Message[]> => {
+        const controller = new AbortController();
+        replyAbortRef.current = controller;
+        setReplying(true);
+        const { replies, unreached } = await hearReplies(question, responders, { characters, sabotage, history, details: caseDetails }, clueReveals, shell, controller.signal);
+        if (unreached.length > 0) setUnanswered({ question, names: unreached });
+        if (replyAbortRef.current === controller) {
+            replyAbortRef.current = null;
+            setReplying(false);
+            setTyping(null);
+        }
+        return replies;
+    };
 
     const handleSendMessage = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!userInput.trim() || isLoading || gameState !== 'discussion' || !playerCharacter) return;
+        if (!userInput.trim() || isLoading || gameState !== 'discussion' || !speakerCharacter || questionsLeft === 0) return;
+        interruptReplies();
+        setUnanswered(null);
 
-        const newPlayerMessage: Message = { sender: playerCharacter.name, text: userInput };
+        const addressees = resolveAddressees(userInput, characters, selectedTargets);
+        const newPlayerMessage: Message = { sender: speakerCharacter.name, text: userInput, ...(addressees.length > 0 ? { addressees } : {}) };
         const messagesForApi = [...messages, newPlayerMessage];
         setMessages(messagesForApi);
         setUserInput('');
-        setIsLoading(true);
+        dispatch({ type: 'question_asked' });
+        if (hotSeat) setSpeaker(nextSpeaker(characters, speakerCharacter.name));
 
-        try {
-            const responseStream = getCharacterResponses(userInput, characters, sabotage, messagesForApi, playerCharacter.name);
+        const responders = selectResponders(userInput, characters.filter(c => !silenced.includes(c.name)), addressees);
+        const absent = addressees.filter(name => silenced.includes(name));
+        if (absent.length > 0) {
+            setMessages(prev => [...prev, { sender: 'system', text: `${absent.join(', ')}님은 경위서를 쓰느라 자리에 없습니다.` }]);
+        }
 
-            for await (const response of responseStream) {
-                const newMessage: Message = { sender: response.name, text: response.response };
-                // Add a small delay for a more natural "typing" feel.
-                await new Promise(res => setTimeout(res, 250 + Math.random() * 300));
-                setMessages(prev => [...prev, newMessage]);
-            }
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
-            setMessages(prev => [...prev, { sender: 'system', text: `Error: ${errorMessage}` }]);
-        } finally {
-            setIsLoading(false);
+        const replies = await askColleagues(newPlayerMessage, responders, messagesForApi);
+        // Whatever was said before an interruption is still remembered.
+        setMemories(prev => rememberExchange(prev, characters, [newPlayerMessage, ...replies]));
+    };
+
+    /** Asks the last question again of the colleagues who couldn't be reached; it doesn't count as a new question. */
+    const handleRetryReplies = async () => {
+        if (!unanswered || isLoading || gameState !== 'discussion') return;
+        interruptReplies();
+        const { question, names } = unanswered;
+        setUnanswered(null);
+        const responders = characters.filter(c => names.includes(c.name) && c.status === 'active' && !silenced.includes(c.name));
+        const replies = await askColleagues(question, responders, messages);
+        setMemories(prev => rememberExchange(prev, characters, replies));
+    };
+
+    const handlePlayerVote = (votedName: string | null) => {
+        if (!playerCharacter) return;
+        runBallot([{ voter: playerCharacter.name, votedFor: votedName }]);
+    };
+
+    /** Hot-seat voting: each person votes in secret on the handoff screen, then the ballot runs. */
+    const handleHumanVote = (votedName: string | null) => {
+        const voter = pendingVoters[0];
+        if (!voter || !humanVotes) return;
+        const votes = [...humanVotes, { voter: voter.name, votedFor: votedName }];
+        if (pendingHumanVoters(characters, votes).length > 0) {
+            setHumanVotes(votes);
+            return;
         }
+        setHumanVotes(null);
+        runBallot(votes);
     };
 
-    const handlePlayerVote = async (votedName: string) => {
-        if (gameState !== 'voting' || !playerCharacter || isLoading) return;
+    /** Runs a ballot once the people at the screen have voted: the AI votes, then the reveal. */
+    const runBallot = async (playerVotes: Vote[]) => {
+        if (gameState !== 'voting' || playerVotes.length === 0 || !villain || isLoading) return;
+        if (playerVotes.some(v => v.votedFor === null) && !engine.rules.allowAbstain) return;
 
-        setGameState('reveal');
         setIsLoading(true);
-        setMessages(prev => [...prev, { sender: 'system', text: '투표가 집계 중입니다...' }]);
+        setFailedBallot(null);
+        const ballot = {
+            characters,
+            sabotage,
+            history: messages,
+            details: caseDetails,
+            context: ballotContextOf(engine),
+            scene: { imageUrl: sceneImageUrl, cast: gameSet?.sceneCast },
+        };
+        const run = await playBallot(playerVotes, ballot, shell, gameAbortRef.current.signal);
+        if (run === 'failed') setFailedBallot(playerVotes);
+        setIsLoading(false);
+    };
 
-        try {
-            const playerVote = { voter: playerCharacter.name, votedFor: votedName };
-            const { votes: aiVotes, confession } = await getVoteAndConfession(characters, sabotage, messages, playerVote);
-            
-            // Validate AI votes to prevent duplicates or votes from inactive/player characters.
-            const activeAiVoters = new Set(characters.filter(c => c.status === 'active' && !c.isPlayer).map(c => c.name));
-            const seenVoters = new Set<string>();
-
-            const validatedAiVotes = aiVotes.filter((vote: { voter: string; votedFor: string }) => {
-                if (activeAiVoters.has(vote.voter) && !seenVoters.has(vote.voter)) {
-                    seenVoters.add(vote.voter);
-                    return true;
-                }
-                return false;
-            });
+    /** A runoff finalist's last word before the second ballot; nobody answers it. */
+    const handleSendDefense = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!userInput.trim() || defenders.length === 0) return;
+        const defense: Message = { sender: defenders[0], text: userInput };
+        setMessages(prev => [...prev, defense]);
+        setMemories(prev => rememberExchange(prev, characters, [defense]));
+        setUserInput('');
+        setDefenders(prev => prev.slice(1));
+    };
 
-            const allVotes = [playerVote, ...validatedAiVotes];
+    /** Who may use a role ability: the player, or in a hot-seat game whoever has their notes open. */
+    const abilityUser = hotSeat ? (handoff?.purpose === 'notes' ? handoff.player : null) : playerCharacter;
 
-            const currentTally: { [key: string]: number } = {};
-            characters.forEach(c => { currentTally[c.name] = 0; });
+    const canPlantDoubt = gameState === 'discussion' && abilityUser?.role === 'villain'
+        && !isLoading && !hasPlantedDoubtThisRound(roleState, engine.round);
 
-            const characterPanel = characterPanelRef.current;
-            if (!characterPanel) return;
-            const panelRect = characterPanel.getBoundingClientRect();
-            
-            for (const vote of allVotes) {
-                const voterCardEl = characterCardRefs.current[vote.voter];
-                const votedForCardEl = characterCardRefs.current[vote.votedFor];
-
-                 if (voterCardEl && votedForCardEl) {
-                    const voterRect = voterCardEl.getBoundingClientRect();
-                    const votedForRect = votedForCardEl.getBoundingClientRect();
-
-                    const start = {
-                        x: voterRect.left + voterRect.width / 2 - panelRect.left + characterPanel.scrollLeft,
-                        y: voterRect.top + voterRect.height / 2 - panelRect.top + characterPanel.scrollTop,
-                    };
-                    const end = {
-                        x: votedForRect.left + votedForRect.width / 2 - panelRect.left + characterPanel.scrollLeft,
-                        y: votedForRect.top + votedForRect.height / 2 - panelRect.top + characterPanel.scrollTop,
-                    };
-                    setLineCoords({ start, end });
-                }
+    /** The villain's one anonymous tip per round: the room sees it, and everyone but the target grows suspicious. */
+    const handlePlantDoubt = (name: string) => {
+        if (!canPlantDoubt) return;
+        const { roleState: next, tip } = plantDoubt(roleState, characters, name, engine.round);
+        if (!tip) return;
+        setRoleState(next);
+        setMemories(prev => rememberTip(prev, name, tip));
+        setMessages(prev => [...prev, { sender: 'system', text: `📮 ${tip}` }]);
+    };
 
-                await new Promise(res => setTimeout(res, 800));
+    const canInvestigate = gameState === 'discussion' && abilityUser?.role === 'investigator'
+        && !isLoading && !hasInvestigatedThisRound(roleState, engine.round);
 
-                currentTally[vote.votedFor] = (currentTally[vote.votedFor] || 0) + 1;
-                setCharacters(prev => prev.map(c => ({...c, votes: currentTally[c.name] || 0 })));
-                setMessages(prev => [...prev, { sender: 'system', text: `${vote.voter}님이 ${vote.votedFor}님을 지목했습니다.` }]);
-                
-                setLineCoords(null);
-                await new Promise(res => setTimeout(res, 200));
-            }
-            
-            await new Promise(res => setTimeout(res, 1500));
+    const handleInvestigate = (name: string) => {
+        if (!canInvestigate) return;
+        const target = characters.find(c => c.name === name);
+        if (!target || target.status !== 'active' || target.name === abilityUser.name) return;
+        const next = investigate(roleState, characters, abilityUser.name, name, engine.round);
+        const result = next.investigations[next.investigations.length - 1];
+        setRoleState(next);
+        setMessages(prev => [...prev, privateNote(characters, abilityUser.name,
+            `🔍 인사 기록 조회 결과: ${name}님은 ${result.isVillainSide ? '빌런 편입니다!' : '빌런 편이 아닙니다.'}`)]);
+    };
 
-            // Determine result
-            const voteCounts = Object.values(currentTally);
-            const maxVotes = Math.max(0, ...voteCounts);
-            const candidatesForElimination = Object.keys(currentTally).filter(name => currentTally[name] === maxVotes && maxVotes > 0);
-            const isPlayerTheVillain = playerCharacter.isVillain;
+    const abilityTargets = characters.filter(c => c.status === 'active' && c.name !== abilityUser?.name).map(c => c.name);
+    const handoffAbility = canInvestigate ? { label: '🔍 인사 기록 조회', targets: abilityTargets, onUse: handleInvestigate }
+        : canPlantDoubt ? { label: '🗯️ 의심 심기 (익명 제보)', targets: abilityTargets, onUse: handlePlantDoubt }
+        : null;
 
-            if (candidatesForElimination.length > 1) {
-                // TIE -> Villain wins
-                setMessages(prev => [...prev, { 
-                    sender: 'system', 
-                    text: `투표가 동점으로 끝났습니다! 빌런을 특정하지 못했으므로, 시민들의 패배입니다...`,
-                    isSpecial: true 
-                }]);
-                await new Promise(res => setTimeout(res, 2000));
-                
-                setMessages(prev => [
-                    ...prev,
-                    { sender: 'system', text: `진짜 빌런은 ${villain?.name}이었습니다!`, isSpecial: true },
-                    { sender: villain!.name, text: `[자백] ${confession}` }
-                ]);
-                setGameState(isPlayerTheVillain ? 'game_over_win' : 'game_over_loss');
-
-            } else if (candidatesForElimination.length === 1) {
-                // ONE person voted out
-                const votedOutName = candidatesForElimination[0];
-                const votedOutCharacter = characters.find(c => c.name === votedOutName)!;
-                
-                setCharacters(prev => prev.map(c => c.name === votedOutName ? { ...c, status: 'voted_out' } : c));
-                setMessages(prev => [...prev, { sender: 'system', text: `투표 결과, ${votedOutName}님이 가장 많은 표를 받아 해고되었습니다...` }]);
-                
-                if (sceneImageUrl && votedOutCharacter.visualDescription) {
-                    editImageToRemoveCharacter(sceneImageUrl, votedOutCharacter.visualDescription)
-                        .then(newImageUrl => {
-                            if (newImageUrl) {
-                                setSceneImageUrl(newImageUrl);
-                                setMessages(prev => prev.map(msg => 
-                                    msg.isSpecial ? { ...msg, imageUrl: newImageUrl } : msg
-                                ));
-                            }
-                        });
-                }
+    /**
+     * What the player may see of a colleague's role: their own, the fired, and everyone's once the
+     * game is over. The shared screen of a hot-seat game shows only the last two.
+     */
+    const visibleRoleLabel = (name: string): string | null => {
+        const character = characters.find(c => c.name === name);
+        if (!character) return null;
+        const isGameOver = gameState === 'game_over_win' || gameState === 'game_over_loss';
+        if (hotSeat) return character.status === 'voted_out' || isGameOver ? ROLES[character.role].label : null;
+        const isKnownAccomplice = playerCharacter?.role === 'villain' && character.role === 'accomplice';
+        const cleared = roleState.investigations.find(i => i.investigator === playerCharacter?.name && i.target === name);
+        if (character.isPlayer || character.status === 'voted_out' || isGameOver || isKnownAccomplice) {
+            return ROLES[character.role].label;
+        }
+        return cleared ? (cleared.isVillainSide ? '빌런 편' : '무고함') : null;
+    };
 
-                await new Promise(res => setTimeout(res, 2000));
-                
-                const wasVillainCaught = votedOutCharacter.isVillain;
-
-                if (wasVillainCaught) {
-                    // --- WIN CONDITION: VILLAIN CAUGHT ---
-                    const finalMessage = votedOutCharacter.isPlayer 
-                        ? `...그리고 밝혀진 진실은, 당신이 바로 오피스 빌런이었습니다! 덜미를 잡혔네요.`
-                        : `축하합니다! ${votedOutName}은(는) 진짜 오피스 빌런이었습니다!`;
-                    
-                    setMessages(prev => [
-                        ...prev,
-                        { sender: 'system', text: finalMessage, isSpecial: true },
-                        { sender: votedOutName, text: `[자백] ${confession}` }
-                    ]);
-                    setGameState(isPlayerTheVillain ? 'game_over_loss' : 'game_over_win');
-                } else {
-                    // --- INNOCENT VOTED OUT ---
-                    if (votedOutCharacter.isPlayer) {
-                        // Player is innocent but got voted out -> Game over for player (Loss)
-                        const finalMessage = `안타깝네요... 당신은 빌런이 아니었지만, 동료들에게 지목당했습니다. 진짜 빌런은 ${villain?.name}이었습니다!`;
-                        setMessages(prev => [
-                            ...prev,
-                            { sender: 'system', text: finalMessage, isSpecial: true },
-                            { sender: villain!.name, text: `[자백] ${confession}` }
-                        ]);
-                        setGameState('game_over_loss');
-                        return;
-                    }
+    const handleToggleTarget = (name: string) => {
+        setSelectedTargets(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+    };
 
-                    const remainingCount = characters.filter(c => c.status === 'active').length - 1;
-
-                    if (remainingCount <= 2) {
-                        // --- LOSS CONDITION: 1v1 REACHED ---
-                        const finalMessage = `안타깝네요... ${votedOutName}은(는) 빌런이 아니었습니다. 이제 ${remainingCount}명만 남아 빌런의 승리로 끝났습니다. 진짜 빌런은 ${villain?.name}이었습니다!`;
-                        setMessages(prev => [
-                            ...prev,
-                            { sender: 'system', text: finalMessage, isSpecial: true },
-                            { sender: villain!.name, text: `[자백] ${confession}` }
-                        ]);
-                        setGameState(isPlayerTheVillain ? 'game_over_win' : 'game_over_loss');
-                    } else {
-                        // --- GAME CONTINUES ---
-                        setMessages(prev => [...prev, {
-                            sender: 'system',
-                            text: `...하지만 ${votedOutName}은(는) 빌런이 아니었습니다! 아직 빌런이 남아있습니다. 토론을 계속하세요...`,
-                            isSpecial: true
-                        }]);
-                        setCharacters(prev => prev.map(c => ({...c, votes: 0}))); // Reset votes for next round
-                        setGameState('discussion');
-                    }
+    /** Connects to the room server with `first` (creating or joining a room) as the opening message. */
+    const handleEnterRoom = (first: ClientMessage) => {
+        roomConnectionRef.current?.close();
+        setRoomError(null);
+        const connection = connectToRoomServer({
+            onMessage: message => {
+                if (message.type === 'room') {
+                    rememberRejoinToken(message.room);
+                    setRoom(message.room);
+                } else if (message.type === 'error') {
+                    setRoomError(message.message);
+                } else if (message.type === 'left') {
+                    connection.close();
+                    roomConnectionRef.current = null;
+                    setRoom(null);
                 }
-            } else { // 0 votes or no one voted out -> Villain wins
-                 setMessages(prev => [...prev, { 
-                    sender: 'system', 
-                    text: '아무도 지목되지 않았습니다. 빌런을 잡지 못했으므로, 시민들의 패배입니다...' ,
-                    isSpecial: true
-                }]);
-                await new Promise(res => setTimeout(res, 2000));
-                 setMessages(prev => [
-                    ...prev,
-                    { sender: 'system', text: `진짜 빌런은 ${villain?.name}이었습니다!`, isSpecial: true },
-                    { sender: villain!.name, text: `[자백] ${confession}` }
-                ]);
-                setGameState(isPlayerTheVillain ? 'game_over_win' : 'game_over_loss');
-            }
+            },
+            onClose: () => {
+                roomConnectionRef.current = null;
+                setRoom(null);
+                setRoomError('방 서버에 연결할 수 없습니다. 서버가 켜져 있는지 확인해 주세요.');
+            },
+        });
+        roomConnectionRef.current = connection;
+        connection.send(first);
+    };
 
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
-            setMessages(prev => [...prev, { sender: 'system', text: `Error: ${errorMessage}` }]);
-            setGameState('discussion'); // Go back to discussion on error
-        } finally {
-            setIsLoading(false);
+    const handleLeaveRoom = () => roomConnectionRef.current?.send({ type: 'leave_room' });
+
+    useEffect(() => () => roomConnectionRef.current?.close(), []);
+
+    const handleCopyDailyResult = async () => {
+        const result = dailyKey && getDailyResult(dailyKey);
+        if (!result) return;
+        try {
+            await navigator.clipboard.writeText(formatDailyShare(result));
+        } catch (error) {
+            console.warn("Could not copy the daily result.", error);
         }
     };
 
-
     const handlePlayAgain = () => {
-        setGameState('welcome');
-        setCharacters([]);
+        clearTable();
+        dispatch({ type: 'reset' });
         setMessages([]);
-        setVillain(null);
-        setError(null);
-        setPlayerCharacter(null);
         setSabotage('');
         setSceneImageUrl(null);
+        setGameSet(null);
+        setRevealedEvidence([]);
+        setMemories({});
+        setRoleState(initialRoleState);
+        setSeed(0);
+        setCaseCode(null);
+        setDailyKey(null);
+        setGameDifficulty(DEFAULT_DIFFICULTY);
+        setSaveSlot(null);
     };
 
     const renderGameState = () => {
@@ -359,10 +732,67 @@ const App: React.FC = () => {
                     <div className="text-center p-8">
                         <h1 className="text-4xl font-extrabold text-slate-800 mb-2">오피스 빌런</h1>
                         <p className="text-slate-600 mb-8">사내에 숨어있는 빌런을 찾아내세요!</p>
-                        <button onClick={handleStartGame} disabled={isLoading} className="bg-blue-600 text-white font-bold py-3 px-8 rounded-lg text-lg hover:bg-blue-700 transition-transform hover:scale-105 disabled:bg-slate-400">
+                        <button onClick={() => handleStartGame()} disabled={isLoading} className="bg-blue-600 text-white font-bold py-3 px-8 rounded-lg text-lg hover:bg-blue-700 transition-transform hover:scale-105 disabled:bg-slate-400">
                             {isLoading ? '로딩중...' : '게임 시작'}
                         </button>
+                        <button onClick={() => setIsEditorOpen(true)} disabled={isLoading} className="block mx-auto mt-4 text-sm font-semibold text-slate-500 hover:text-blue-600 disabled:text-slate-300">
+                            사건 만들기 / 편집하기
+                        </button>
+                        <button onClick={() => setIsStatsOpen(true)} disabled={isLoading} className="block mx-auto mt-2 text-sm font-semibold text-slate-500 hover:text-blue-600 disabled:text-slate-300">
+                            📊 내 기록 · 업적
+                        </button>
+                        {caseFile && (
+                            <button onClick={() => setIsCaseFileOpen(true)} disabled={isLoading} className="block mx-auto mt-2 text-sm font-semibold text-slate-500 hover:text-blue-600 disabled:text-slate-300">
+                                📁 지난 게임 사건 파일 보기
+                            </button>
+                        )}
                         {error && <p className="text-red-500 mt-4">{error}</p>}
+                        <GameOptionsPanel
+                            difficulty={difficulty}
+                            onDifficultyChange={setDifficulty}
+                            roleOptions={roleOptions}
+                            onRoleOptionsChange={setRoleOptions}
+                            castOptions={castOptions}
+                            onCastOptionsChange={setCastOptions}
+                            voteRules={voteRules}
+                            onVoteRulesChange={setVoteRules}
+                            discussionLimits={discussionLimits}
+                            onDiscussionLimitsChange={setDiscussionLimits}
+                            players={players}
+                            onPlayersChange={setPlayers}
+                            disabled={isLoading}
+                        />
+                        <DailyCasePanel onStartCase={(setup, daily) => handleStartGame(undefined, true, setup, daily)} disabled={isLoading} />
+                        <OnlineRoomPanel
+                            onCreate={name => handleEnterRoom({ type: 'create_room', name })}
+                            onJoin={(code, name) => handleEnterRoom({ type: 'join_room', code, name, token: getRejoinToken(code, name) })}
+                            disabled={isLoading}
+                            error={roomError}
+                        />
+                        <ScenarioPackPanel onPlay={(pack: ScenarioPack) => handleStartGame(pack.scenarios)} disabled={isLoading} />
+                        {savedGames.length > 0 && (
+                            <div className="mt-10 max-w-md mx-auto text-left">
+                                <h2 className="text-lg font-bold text-slate-700 mb-3 text-center">이어하기</h2>
+                                <ul className="space-y-2">
+                                    {savedGames.map(save => (
+                                        <li key={save.slot} className="flex items-center gap-3 bg-white p-3 rounded-lg shadow">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-semibold text-slate-800 truncate">{save.sabotage}</p>
+                                                <p className="text-xs text-slate-500">
+                                                    {save.playerName} · {save.round}라운드 · {new Date(save.savedAt).toLocaleString('ko-KR')}
+                                                </p>
+                                            </div>
+                                            <button onClick={() => handleContinueGame(save.slot)} disabled={isLoading} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+                                                계속하기
+                                            </button>
+                                            <button onClick={() => handleDeleteSave(save.slot)} disabled={isLoading} className="text-slate-400 hover:text-red-500 text-sm" aria-label="저장 삭제">
+                                                삭제
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                     </div>
                 );
             
@@ -396,7 +826,7 @@ const App: React.FC = () => {
 
                         {revealedCharactersCount === characters.length && characters.length > 0 && (
                             <button 
-                                onClick={() => setGameState('discussion')} 
+                                onClick={() => dispatch({ type: 'discussion_started' })} 
                                 className="mt-8 bg-blue-600 text-white font-bold py-3 px-8 rounded-lg text-lg hover:bg-blue-700 transition-transform hover:scale-105 animate-fade-in"
                             >
                                 조사 시작
@@ -408,6 +838,7 @@ const App: React.FC = () => {
             case 'discussion':
             case 'voting':
             case 'reveal':
+            case 'night':
             case 'game_over_win':
             case 'game_over_loss':
                 return (
@@ -415,7 +846,20 @@ const App: React.FC = () => {
                         {(gameState === 'game_over_win' || gameState === 'game_over_loss') && <GameOverAnimations gameState={gameState} />}
                         {/* Left Panel: Characters */}
                         <div ref={characterPanelRef} className="w-1/3 lg:w-1/4 bg-white p-4 rounded-xl shadow-lg overflow-y-auto relative">
-                            <h2 className="text-xl font-bold text-slate-800 mb-4 border-b-2 border-slate-300 pb-2">팀원 목록</h2>
+                            <div className="flex items-center justify-between mb-4 border-b-2 border-slate-300 pb-2">
+                                <h2 className="text-xl font-bold text-slate-800">팀원 목록</h2>
+                                {gameSet && (
+                                    <button onClick={handleExportScenario} className="text-xs font-semibold text-slate-500 hover:text-blue-600" title="이 사건을 시나리오 팩으로 내보내기">
+                                        내보내기
+                                    </button>
+                                )}
+                            </div>
+                            {(caseCode || dailyKey) && (
+                                <p className="text-xs text-slate-500 -mt-2 mb-3">
+                                    {dailyKey && <span className="font-semibold text-blue-600 mr-2">📅 오늘의 사건</span>}
+                                    {caseCode && <>사건 코드 <span className="font-mono font-semibold text-slate-700 select-all">{caseCode}</span></>}
+                                </p>
+                            )}
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                                 {characters.map(char => (
                                     <CharacterCard 
@@ -423,11 +867,20 @@ const App: React.FC = () => {
                                         ref={el => { characterCardRefs.current[char.name] = el; }}
                                         character={char} 
                                         onVote={handlePlayerVote}
-                                        isVotingPhase={gameState === 'voting'}
-                                        isVoteDisabled={gameState !== 'voting' || isLoading}
+                                        isVotingPhase={gameState === 'voting' && !hotSeat}
+                                        isVoteDisabled={gameState !== 'voting' || isLoading || (!!engine.runoff && !engine.runoff.includes(char.name))}
+                                        onSelect={gameState === 'discussion' ? handleToggleTarget : undefined}
+                                        isSelected={selectedTargets.includes(char.name)}
+                                        roleLabel={visibleRoleLabel(char.name)}
+                                        onInvestigate={canInvestigate && !hotSeat ? handleInvestigate : undefined}
+                                        onPlantDoubt={canPlantDoubt && !hotSeat ? handlePlantDoubt : undefined}
+                                        statusNote={silenced.includes(char.name) && gameState === 'discussion' ? '경위서 작성 중' : null}
+                                        playerLabel={hotSeat ? `P${getHumans(characters).indexOf(char) + 1}` : undefined}
+                                        suspicion={roomReading[char.name]}
                                     />
                                 ))}
                             </div>
+                            {evidence && <EvidencePanel evidence={evidence} revealedIds={revealedEvidence} cluesLeft={cluesLeft} />}
                              {lineCoords && (
                                 <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-10">
                                     <defs>
@@ -444,38 +897,147 @@ const App: React.FC = () => {
                                     />
                                 </svg>
                             )}
+                            {lineCoords?.reason && (
+                                <div
+                                    className="absolute z-20 max-w-[14rem] -translate-x-1/2 -translate-y-1/2 bg-slate-900/90 text-white text-xs font-semibold px-3 py-2 rounded-lg shadow-lg pointer-events-none animate-fade-in-up"
+                                    style={{ left: (lineCoords.start.x + lineCoords.end.x) / 2, top: (lineCoords.start.y + lineCoords.end.y) / 2 }}
+                                >
+                                    “{lineCoords.reason}”
+                                </div>
+                            )}
                         </div>
 
                         {/* Right Panel: Chat */}
                         <div className="w-2/3 lg:w-3/4 flex flex-col bg-white rounded-xl shadow-lg min-h-0">
                             <div className="flex-1 p-4 overflow-y-auto">
-                                {messages.map((msg, index) => <ChatBubble key={index} message={msg} playerCharacterName={playerCharacter?.name || null} />)}
-                                {isLoading && gameState !== 'reveal' && <LoadingSpinner />}
+                                {sharedMessages.map((msg, index) => <ChatBubble key={index} message={msg} playerCharacterName={hotSeat ? null : playerCharacter?.name || null} />)}
+                                {typing ? (
+                                    <ChatBubble message={{ sender: typing.name, text: typing.text }} playerCharacterName={null} isTyping />
+                                ) : isLoading && gameState !== 'reveal' && <LoadingSpinner />}
                                 <div ref={chatEndRef} />
                             </div>
                             <div className="p-4 border-t border-slate-200">
+                                {gameState === 'discussion' && unanswered && (
+                                    <RetryNotice
+                                        message={`${unanswered.names.join(', ')}님의 답을 받지 못했습니다. AI가 바쁘거나 연결이 불안정한 것 같아요.`}
+                                        onRetry={handleRetryReplies}
+                                        onDismiss={() => setUnanswered(null)}
+                                        disabled={isLoading}
+                                    />
+                                )}
+                                {gameState === 'voting' && failedBallot && (
+                                    <RetryNotice message="동료들의 표를 받지 못해 집계하지 못했습니다. 같은 표로 다시 집계할 수 있어요." onRetry={() => runBallot(failedBallot)} disabled={isLoading} />
+                                )}
+                                {gameState === 'discussion' && <DiscussionClock secondsLeft={secondsLeft} questionsLeft={questionsLeft} />}
+                                {gameState === 'discussion' && (
+                                    <p className="text-xs text-slate-500 mb-2 flex flex-wrap items-center gap-1">
+                                        {selectedTargets.length > 0 ? (
+                                            <>
+                                                <span>질문 대상:</span>
+                                                {selectedTargets.map(name => (
+                                                    <button key={name} type="button" onClick={() => handleToggleTarget(name)} className="bg-blue-100 text-blue-700 font-semibold px-2 py-0.5 rounded-full hover:bg-blue-200">
+                                                        {name} ×
+                                                    </button>
+                                                ))}
+                                                <button type="button" onClick={() => setSelectedTargets([])} className="ml-1 underline hover:text-blue-600">모두에게 말하기</button>
+                                            </>
+                                        ) : (
+                                            <span>모두에게 말하는 중 · 팀원 카드를 누르거나 @이름으로 특정 동료에게만 질문할 수 있습니다.</span>
+                                        )}
+                                    </p>
+                                )}
+                                {gameState === 'discussion' && hotSeat && speakerCharacter && (
+                                    <div className="flex items-center gap-3 mb-2 text-sm">
+                                        <span className="font-bold text-slate-800">🎤 {speakerCharacter.name}님 차례</span>
+                                        <button type="button" onClick={() => setNotesFor(speakerCharacter.name)} disabled={isLoading} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-slate-400">
+                                            🔒 비밀 노트
+                                        </button>
+                                        <button type="button" onClick={() => setSpeaker(nextSpeaker(characters, speakerCharacter.name))} disabled={isLoading} className="font-semibold text-slate-500 hover:text-slate-700 disabled:text-slate-300">
+                                            차례 넘기기
+                                        </button>
+                                    </div>
+                                )}
                                 {gameState === 'discussion' && (
                                      <form onSubmit={handleSendMessage} className="flex gap-2">
                                         <input
                                             type="text"
                                             value={userInput}
                                             onChange={(e) => setUserInput(e.target.value)}
-                                            placeholder={`${playerCharacter?.name || ''} (으)로 메시지 입력...`}
+                                            placeholder={selectedTargets.length > 0
+                                                ? `${selectedTargets.join(', ')}에게 질문하기...`
+                                                : `${speakerCharacter?.name || ''} (으)로 메시지 입력...`}
                                             className="flex-1 p-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                                             disabled={isLoading}
                                         />
                                         <button type="submit" className="bg-blue-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-blue-700 disabled:bg-slate-400" disabled={isLoading}>
                                             전송
                                         </button>
-                                        <button type="button" onClick={() => setGameState('voting')} disabled={isLoading} className="bg-green-500 text-white font-semibold py-3 px-5 rounded-lg hover:bg-green-600 disabled:bg-slate-400">
+                                        <button type="button" onClick={() => { interruptReplies(); dispatch({ type: 'voting_opened' }); }} disabled={isLoading} className="bg-green-500 text-white font-semibold py-3 px-5 rounded-lg hover:bg-green-600 disabled:bg-slate-400">
                                             투표하기
                                         </button>
                                     </form>
                                 )}
-                                {gameState === 'voting' && <p className="text-center font-semibold text-red-600 animate-pulse">왼쪽 팀원 목록에서 빌런을 지목하세요!</p>}
+                                {gameState === 'voting' && defenders.length > 0 && (
+                                    <form onSubmit={handleSendDefense} className="flex gap-2 mb-3">
+                                        <input
+                                            type="text"
+                                            value={userInput}
+                                            onChange={(e) => setUserInput(e.target.value)}
+                                            placeholder={hotSeat ? `${defenders[0]}님의 최후 변론 입력...` : '최후 변론 입력...'}
+                                            className="flex-1 p-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <button type="submit" className="bg-blue-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-blue-700">
+                                            변론하기
+                                        </button>
+                                    </form>
+                                )}
+                                {gameState === 'voting' && (
+                                    <div className="text-center">
+                                        <p className="font-semibold text-red-600 animate-pulse">
+                                            {engine.runoff
+                                                ? `결선 투표: ${engine.runoff.join(', ')} 중 한 명을 지목하세요!`
+                                                : isPlayerVillain ? '누구에게 누명을 씌울지 왼쪽 팀원 목록에서 지목하세요!' : '왼쪽 팀원 목록에서 빌런을 지목하세요!'}
+                                        </p>
+                                        {hotSeat && (
+                                            <button onClick={() => { setDefenders([]); setHumanVotes([]); }} disabled={isLoading} className="mt-2 bg-red-500 text-white font-semibold py-2 px-5 rounded-lg hover:bg-red-600 disabled:bg-slate-400">
+                                                🗳️ 비밀 투표 시작
+                                            </button>
+                                        )}
+                                        {engine.rules.allowAbstain && !hotSeat && (
+                                            <button onClick={() => handlePlayerVote(null)} disabled={isLoading} className="mt-2 text-sm font-semibold text-slate-500 underline hover:text-slate-700 disabled:text-slate-300">
+                                                기권하기
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {gameState === 'night' && <p className="text-center font-semibold text-indigo-700">🌙 모두 퇴근한 밤... 빌런이 다시 움직이고 있습니다.</p>}
                                 {gameState === 'reveal' && <p className="text-center font-semibold text-slate-600">투표가 진행 중입니다. 결과를 기다려주세요.</p>}
                                 {(gameState === 'game_over_win' || gameState === 'game_over_loss') && (
                                     <div className="text-center">
+                                        {hotSeat && engine.result?.winner && <PlayerResults results={getPlayerResults(characters, engine.result.winner)} />}
+                                        {isPlayerVillain && (
+                                            <DeceptionReport
+                                                report={scoreDeception(playerCharacter, characters, engine.ballots, roleState, evidence, revealedEvidence, gameState === 'game_over_win')}
+                                            />
+                                        )}
+                                        {dailyKey && (
+                                            <button onClick={handleCopyDailyResult} className="block mx-auto mb-3 text-sm font-semibold text-blue-600 hover:text-blue-800">
+                                                📋 오늘의 결과 복사해서 팀에 공유하기
+                                            </button>
+                                        )}
+                                        {newAchievements.length > 0 && (
+                                            <div className="max-w-md mx-auto mb-4 bg-amber-50 border border-amber-300 rounded-xl p-3 animate-fade-in-up">
+                                                <p className="text-sm font-bold text-amber-800 mb-1">🏆 새 업적 달성!</p>
+                                                {newAchievements.map(a => (
+                                                    <p key={a.id} className="text-sm text-slate-700">{a.icon} <span className="font-semibold">{a.title}</span> — {a.description}</p>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {caseFile && (
+                                            <button onClick={() => setIsCaseFileOpen(true)} className="block mx-auto mb-3 text-sm font-semibold text-blue-600 hover:text-blue-800">
+                                                📁 사건 파일 보기 (다시 보기 · 내보내기)
+                                            </button>
+                                        )}
                                         <button onClick={handlePlayAgain} className="bg-indigo-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-indigo-700 transition-transform hover:scale-105">
                                             다시 플레이하기
                                         </button>
@@ -519,8 +1081,39 @@ const App: React.FC = () => {
                 }
             `}</style>
             <div className="h-full bg-slate-50 rounded-2xl shadow-2xl shadow-slate-300/50 flex justify-center items-center">
-                {renderGameState()}
+                {isEditorOpen
+                    ? <ScenarioEditor
+                        onPlaytest={gameSet => { setIsEditorOpen(false); handleStartGame([gameSet], false); }}
+                        onClose={() => setIsEditorOpen(false)}
+                      />
+                    : isStatsOpen
+                    ? <StatsScreen onClose={() => setIsStatsOpen(false)} />
+                    : isCaseFileOpen && caseFile
+                    ? <CaseFileViewer caseFile={caseFile} onClose={() => setIsCaseFileOpen(false)} />
+                    : room
+                    ? <OnlineGame
+                        room={room}
+                        onSend={message => roomConnectionRef.current?.send(message)}
+                        onStart={() => roomConnectionRef.current?.send({ type: 'start_game', options: { cast: castOptions, roles: roleOptions, rules: voteRules, difficulty, limits: discussionLimits } })}
+                        onLeave={handleLeaveRoom}
+                      />
+                    : renderGameState()}
             </div>
+            {handoff && (
+                <HotSeatHandoff
+                    key={`${handoff.purpose}:${handoff.player.name}`}
+                    player={handoff.player}
+                    purpose={handoff.purpose}
+                    notes={messages.filter(m => m.privateTo === handoff.player.name)}
+                    ability={handoffAbility}
+                    voteTargets={characters
+                        .filter(c => c.status === 'active' && c.name !== handoff.player.name && (!engine.runoff || engine.runoff.includes(c.name)))
+                        .map(c => c.name)}
+                    allowAbstain={engine.rules.allowAbstain}
+                    onVote={handleHumanVote}
+                    onClose={handoff.purpose === 'reveal' ? () => setRevealQueue(prev => prev.slice(1)) : () => setNotesFor(null)}
+                />
+            )}
         </main>
     );
 };
@@ -0,0 +1,240 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { CaseFile, CaseEvent } from '../game/caseFile';
+import { firedBy, sceneAt } from '../game/caseFile';
+import { getDifficulty } from '../game/difficulty';
+import { downloadCaseFile, formatCaseFileMarkdown } from '../services/caseFileExport';
+import ChatBubble from './ChatBubble';
+
+interface CaseFileViewerProps {
+  caseFile: CaseFile;
+  onClose: () => void;
+}
+
+/** How long each kind of event stays up during playback at normal speed, in milliseconds. */
+const EVENT_DURATION: { [kind in CaseEvent['kind']]: number } = {
+  message: 900,
+  vote: 1800,
+  fired: 1800,
+  scene: 1500,
+};
+
+const SPEEDS = [1, 2, 4];
+
+type Arrow = { start: { x: number; y: number }; end: { x: number; y: number }; reason?: string };
+
+/**
+ * The case file of a finished game: every role revealed, a replay of the game event by event
+ * with the votes drawn as arrows, and the transcript as Markdown or JSON to share.
+ */
+const CaseFileViewer: React.FC<CaseFileViewerProps> = ({ caseFile, onClose }) => {
+  const { events, cast } = caseFile;
+  const [step, setStep] = useState(events.length);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [arrow, setArrow] = useState<Arrow | null>(null);
+  const [copied, setCopied] = useState(false);
+  const castPanelRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<{ [name: string]: HTMLDivElement | null }>({});
+  const timelineEndRef = useRef<HTMLDivElement>(null);
+
+  const current = step > 0 ? events[step - 1] : null;
+  const fired = firedBy(caseFile, step);
+  const scene = sceneAt(caseFile, step);
+  const humans = cast.filter(c => c.isPlayer);
+  const viewpoint = humans.length === 1 ? humans[0].name : null;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= events.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), EVENT_DURATION[events[step].kind] / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speed, events]);
+
+  useEffect(() => {
+    timelineEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [step]);
+
+  // The arrow is drawn between the cast cards while a vote is the latest event.
+  useLayoutEffect(() => {
+    const panel = castPanelRef.current;
+    if (current?.kind !== 'vote' || !current.vote.votedFor || !panel) {
+      setArrow(null);
+      return;
+    }
+    const from = cardRefs.current[current.vote.voter];
+    const to = cardRefs.current[current.vote.votedFor];
+    if (!from || !to) {
+      setArrow(null);
+      return;
+    }
+    const panelRect = panel.getBoundingClientRect();
+    const centre = (el: HTMLDivElement) => {
+      const rect = el.getBoundingClientRect();
+      return {
+        x: rect.left + rect.width / 2 - panelRect.left + panel.scrollLeft,
+        y: rect.top + rect.height / 2 - panelRect.top + panel.scrollTop,
+      };
+    };
+    setArrow({ start: centre(from), end: centre(to), reason: current.vote.reason });
+  }, [current]);
+
+  const handlePlay = () => {
+    if (step >= events.length) setStep(0);
+    setIsPlaying(true);
+  };
+
+  const goTo = (next: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(events.length, next)));
+  };
+
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(formatCaseFileMarkdown(caseFile));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn("Could not copy the case file.", error);
+    }
+  };
+
+  const renderEvent = (event: CaseEvent, index: number) => {
+    switch (event.kind) {
+      case 'message':
+        return <ChatBubble key={index} message={event.message} playerCharacterName={viewpoint} />;
+      case 'vote':
+        return (
+          <div key={index} className="my-2 mx-auto max-w-md text-sm bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+            <p className="font-semibold text-red-700">🗳️ {event.vote.voter} → {event.vote.votedFor ?? '기권'}</p>
+            {event.vote.reason && <p className="text-slate-600 mt-0.5">“{event.vote.reason}”</p>}
+          </div>
+        );
+      case 'fired':
+        return (
+          <p key={index} className="my-3 text-center font-bold text-red-600">
+            🔥 {event.round}라운드: {event.name}님 해고
+          </p>
+        );
+      case 'scene':
+        return (
+          <div key={index} className="my-4 text-center">
+            {event.imageUrl && <img src={event.imageUrl} alt={event.caption} className="w-full max-w-xs mx-auto rounded-xl border-4 border-slate-300 object-cover" />}
+            <p className="text-xs text-slate-500 mt-1">{event.caption}</p>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col p-6 gap-4 animate-fade-in min-h-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <h1 className="text-2xl font-bold text-slate-800 mr-auto">
+          📁 사건 파일
+          <span className={`ml-3 text-sm font-semibold px-2 py-1 rounded-full text-white ${caseFile.winner === 'citizens' ? 'bg-green-600' : 'bg-purple-700'}`}>
+            {caseFile.winner === 'citizens' ? '시민 팀 승리' : '빌런 팀 승리'}
+          </span>
+        </h1>
+        <button onClick={() => downloadCaseFile(caseFile, 'markdown')} className="bg-slate-700 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-slate-800">Markdown 다운로드</button>
+        <button onClick={() => downloadCaseFile(caseFile, 'json')} className="bg-slate-700 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-slate-800">JSON 다운로드</button>
+        <button onClick={handleCopyMarkdown} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700">
+          {copied ? '복사됨!' : '📋 Markdown 복사'}
+        </button>
+        <button onClick={onClose} className="text-sm font-semibold text-slate-500 hover:text-slate-800 px-2">닫기</button>
+      </div>
+      <p className="text-slate-600 text-sm">
+        "{caseFile.sabotage}"
+        <span className="ml-2 text-slate-400">난이도 {getDifficulty(caseFile.difficulty).label}</span>
+        {caseFile.caseCode && <span className="ml-2 text-slate-400">사건 코드 <span className="font-mono select-all">{caseFile.caseCode}</span></span>}
+      </p>
+
+      <div className="flex flex-row gap-4 flex-1 min-h-0">
+        <div ref={castPanelRef} className="relative w-1/3 lg:w-1/4 bg-white p-4 rounded-xl shadow-lg overflow-y-auto">
+          {scene?.imageUrl && (
+            <div className="mb-4 text-center">
+              <img src={scene.imageUrl} alt={scene.caption} className="w-full rounded-lg border-4 border-slate-200 object-cover" />
+              <p className="text-xs text-slate-500 mt-1">{scene.caption}</p>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            {cast.map(c => {
+              const isFired = fired.includes(c.name);
+              return (
+                <div
+                  key={c.name}
+                  ref={el => { cardRefs.current[c.name] = el; }}
+                  className={`text-center p-2 rounded-lg border transition-all duration-300 ${isFired ? 'bg-slate-200 opacity-50' : 'bg-white'}`}
+                >
+                  {c.imageUrl ? (
+                    <img src={c.imageUrl} alt={c.name} className="w-12 h-12 rounded-full mx-auto border-2 border-slate-200 object-cover" />
+                  ) : (
+                    <div className="w-12 h-12 rounded-full mx-auto bg-slate-300 flex items-center justify-center font-bold text-slate-500">{c.name.charAt(0)}</div>
+                  )}
+                  <p className="font-bold text-sm text-slate-800 mt-1 break-words">{c.name}</p>
+                  <span className={`inline-block mt-1 text-xs font-semibold px-2 py-0.5 rounded-full text-white ${c.role === 'villain' || c.role === 'accomplice' ? 'bg-purple-700' : 'bg-slate-700'}`}>
+                    {c.roleLabel}
+                  </span>
+                  {c.isPlayer && <p className="text-xs text-blue-600 font-semibold mt-1">플레이어</p>}
+                  {isFired && <p className="text-xs text-red-500 font-bold mt-1">해고됨</p>}
+                </div>
+              );
+            })}
+          </div>
+          {arrow && (
+            <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-10">
+              <defs>
+                <marker id="casefile-arrowhead" markerWidth="5" markerHeight="3.5" refX="5" refY="1.75" orient="auto">
+                  <polygon points="0 0, 5 1.75, 0 3.5" className="fill-red-500" />
+                </marker>
+              </defs>
+              <line
+                key={step}
+                x1={arrow.start.x} y1={arrow.start.y}
+                x2={arrow.end.x} y2={arrow.end.y}
+                className="stroke-red-500 line-anim"
+                strokeWidth="3"
+                markerEnd="url(#casefile-arrowhead)"
+              />
+            </svg>
+          )}
+          {arrow?.reason && (
+            <div
+              className="absolute z-20 max-w-[12rem] -translate-x-1/2 -translate-y-1/2 bg-slate-900/90 text-white text-xs font-semibold px-3 py-2 rounded-lg shadow-lg pointer-events-none"
+              style={{ left: (arrow.start.x + arrow.end.x) / 2, top: (arrow.start.y + arrow.end.y) / 2 }}
+            >
+              “{arrow.reason}”
+            </div>
+          )}
+        </div>
+
+        <div className="w-2/3 lg:w-3/4 flex flex-col bg-white rounded-xl shadow-lg min-h-0">
+          <div className="flex-1 p-4 overflow-y-auto">
+            {events.slice(0, step).map(renderEvent)}
+            <div ref={timelineEndRef} />
+          </div>
+          <div className="p-3 border-t border-slate-200 flex flex-wrap items-center gap-2">
+            <button onClick={() => goTo(0)} className="text-sm font-semibold py-1.5 px-3 rounded-md bg-slate-100 hover:bg-slate-200">⏮ 처음</button>
+            <button onClick={() => goTo(step - 1)} disabled={step === 0} className="text-sm font-semibold py-1.5 px-3 rounded-md bg-slate-100 hover:bg-slate-200 disabled:opacity-40">◀ 이전</button>
+            {isPlaying ? (
+              <button onClick={() => setIsPlaying(false)} className="text-sm font-semibold py-1.5 px-4 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">⏸ 일시정지</button>
+            ) : (
+              <button onClick={handlePlay} className="text-sm font-semibold py-1.5 px-4 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+                ▶ {step >= events.length ? '처음부터 재생' : '재생'}
+              </button>
+            )}
+            <button onClick={() => goTo(step + 1)} disabled={step >= events.length} className="text-sm font-semibold py-1.5 px-3 rounded-md bg-slate-100 hover:bg-slate-200 disabled:opacity-40">다음 ▶</button>
+            <button onClick={() => goTo(events.length)} className="text-sm font-semibold py-1.5 px-3 rounded-md bg-slate-100 hover:bg-slate-200">끝 ⏭</button>
+            <select value={speed} onChange={e => setSpeed(Number(e.target.value))} className="ml-auto p-1.5 border border-slate-300 rounded-md text-sm">
+              {SPEEDS.map(s => <option key={s} value={s}>{s}배속</option>)}
+            </select>
+            <span className="text-xs text-slate-500 font-mono">{step} / {events.length}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseFileViewer;
@@ -1,25 +1,51 @@
 import React from 'react';
 import type { Character } from '../types';
+import type { SuspicionReading } from '../game/suspicion';
 
 interface CharacterCardProps {
   character: Character;
   onVote: (name: string) => void;
   isVotingPhase: boolean;
   isVoteDisabled: boolean;
+  /** When set, clicking the card toggles this colleague as a question target. */
+  onSelect?: (name: string) => void;
+  isSelected?: boolean;
+  /** The role the player is allowed to see for this colleague, if any. */
+  roleLabel?: string | null;
+  /** Set while the player, as the investigator, can still run this round's check. */
+  onInvestigate?: (name: string) => void;
+  /** Set while the player, as the villain, can still plant this round's anonymous tip. */
+  onPlantDoubt?: (name: string) => void;
+  /** A temporary condition shown on the card, e.g. sitting out this round's discussion. */
+  statusNote?: string | null;
+  /** The badge on a human's card; hot-seat games number the seats instead of saying YOU. */
+  playerLabel?: string;
+  /** How the AI colleagues are leaning on this colleague; hovering the meter shows who suspects them. */
+  suspicion?: SuspicionReading | null;
 }
 
+const suspicionTone = (level: number) =>
+  level >= 0.6 ? { bar: 'bg-red-500', label: '높음' } : level >= 0.3 ? { bar: 'bg-amber-400', label: '보통' } : { bar: 'bg-green-500', label: '낮음' };
+
 const CharacterCard = React.forwardRef<HTMLDivElement, CharacterCardProps>(
-  ({ character, onVote, isVotingPhase, isVoteDisabled }, ref) => {
+  ({ character, onVote, isVotingPhase, isVoteDisabled, onSelect, isSelected, roleLabel, onInvestigate, onPlantDoubt, statusNote, playerLabel = 'YOU', suspicion }, ref) => {
     const isVotedOut = character.status === 'voted_out';
+    const isSelectable = !!onSelect && !isVotedOut && !character.isPlayer;
     const cardClasses = `relative bg-white p-4 rounded-lg shadow-md border transition-all duration-300 text-center flex flex-col h-full ${
       isVotedOut ? 'bg-slate-200 opacity-50' : 'hover:shadow-lg hover:-translate-y-1'
-    }`;
+    } ${isSelectable ? 'cursor-pointer' : ''} ${isSelected ? 'ring-2 ring-blue-500 border-blue-500' : ''}`;
 
     return (
-      <div className={cardClasses} ref={ref}>
+      <div
+        className={cardClasses}
+        ref={ref}
+        onClick={isSelectable ? () => onSelect(character.name) : undefined}
+        role={isSelectable ? 'button' : undefined}
+        aria-pressed={isSelectable ? !!isSelected : undefined}
+      >
         <div>
           {character.isPlayer && (
-            <span className="absolute top-2 right-2 bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded-full">YOU</span>
+            <span className="absolute top-2 right-2 bg-blue-500 text-white text-xs font-bold px-2 py-1 rounded-full">{playerLabel}</span>
           )}
           {character.votes > 0 && (
             <span className="absolute top-2 left-2 bg-red-500 text-white text-xs font-bold px-2.5 py-1 rounded-full animate-pulse">{character.votes}</span>
@@ -37,15 +63,59 @@ const CharacterCard = React.forwardRef<HTMLDivElement, CharacterCardProps>(
           )}
           <h3 className="font-bold text-lg text-slate-800 break-words">{character.name}</h3>
           <p className="text-sm text-slate-600 break-words">{character.position}</p>
+          {roleLabel && (
+            <span className="inline-block mt-1 bg-slate-800 text-white text-xs font-semibold px-2 py-0.5 rounded-full">{roleLabel}</span>
+          )}
           <p className="text-sm text-slate-500 mt-2 break-words">{character.personality}</p>
+          {suspicion && !isVotedOut && suspicion.suspectedBy.length > 0 && (
+            <div className="relative group mt-3 text-left">
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>의심도</span>
+                <span className="font-semibold">{suspicionTone(suspicion.level).label}</span>
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full transition-all duration-500 ${suspicionTone(suspicion.level).bar}`} style={{ width: `${Math.round(suspicion.level * 100)}%` }} />
+              </div>
+              <div className="absolute bottom-full inset-x-0 mb-2 hidden group-hover:block z-20 pointer-events-none bg-slate-900/90 text-white text-xs rounded-lg shadow-lg p-2">
+                <p className="font-semibold mb-1">누가 의심하나</p>
+                {suspicion.suspectedBy.map(observer => (
+                  <div key={observer.name} className="flex justify-between gap-2">
+                    <span className="truncate">{observer.name}</span>
+                    <span className="font-mono">{Math.round(observer.level * 100)}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="mt-auto">
+          {statusNote && !isVotedOut && (
+            <div className="mt-3">
+              <span className="text-amber-700 font-semibold text-xs px-2 py-1 bg-amber-100 rounded-full">{statusNote}</span>
+            </div>
+          )}
           {isVotedOut && (
             <div className="mt-3">
                 <span className="text-red-500 font-bold text-sm px-3 py-1 bg-red-100 rounded-full">해고됨 (FIRED)</span>
             </div>
           )}
+          {onInvestigate && !isVotedOut && !character.isPlayer && (
+            <button
+              onClick={e => { e.stopPropagation(); onInvestigate(character.name); }}
+              className="w-full mt-3 bg-slate-700 text-white text-sm font-semibold py-1.5 px-3 rounded-md hover:bg-slate-800"
+            >
+              🔍 인사 기록 조회
+            </button>
+          )}
+          {onPlantDoubt && !isVotedOut && !character.isPlayer && (
+            <button
+              onClick={e => { e.stopPropagation(); onPlantDoubt(character.name); }}
+              className="w-full mt-3 bg-purple-700 text-white text-sm font-semibold py-1.5 px-3 rounded-md hover:bg-purple-800"
+            >
+              🗯️ 의심 심기
+            </button>
+          )}
           {isVotingPhase && !isVotedOut && (
             <button
               onClick={() => onVote(character.name)}
@@ -4,10 +4,12 @@ import type { Message } from '../types';
 interface ChatBubbleProps {
   message: Message;
   playerCharacterName: string | null;
+  /** The reply is still coming in: `text` is what has arrived so far. */
+  isTyping?: boolean;
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message, playerCharacterName }) => {
-  const { sender, text, isSpecial, isPrivate, imageUrl } = message;
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, playerCharacterName, isTyping = false }) => {
+  const { sender, text, isSpecial, isPrivate, imageUrl, addressees } = message;
 
   if (sender === 'system') {
     let style = 'bg-slate-200 text-slate-700';
@@ -41,8 +43,16 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, playerCharacterName })
     <div className={`flex ${bubbleAlignment} my-2`}>
       <div className={`flex flex-col max-w-xs md:max-w-md ${isPlayerMessage ? 'items-end': ''}`}>
         {!isPlayerMessage && <div className="ml-2">{senderName}</div>}
+        {addressees?.length > 0 && (
+          <p className="text-xs text-slate-500 mb-1 mx-2">→ {addressees.join(', ')}</p>
+        )}
         <div className={`px-4 py-3 rounded-2xl ${bubbleColor}`}>
-          <p className="text-base whitespace-pre-wrap">{text}</p>
+          {(!isTyping || text.trim()) && <p className="text-base whitespace-pre-wrap">{isTyping ? text.trimStart() : text}</p>}
+          {isTyping && (
+            <p className="text-xs text-slate-400 flex items-center gap-1" aria-live="polite">
+              <span className="animate-pulse">●●●</span> 입력 중
+            </p>
+          )}
         </div>
       </div>
     </div>
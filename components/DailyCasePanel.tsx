@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CaseSetup, decodeCaseCode, getDailyKey, getDailySetup } from '../game/caseCode';
+import { getDailyResult, formatDailyShare } from '../services/dailyCase';
+
+interface DailyCasePanelProps {
+  onStartCase: (setup: CaseSetup, dailyKey: string | null) => void;
+  disabled: boolean;
+}
+
+const DailyCasePanel: React.FC<DailyCasePanelProps> = ({ onStartCase, disabled }) => {
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const dailyKey = getDailyKey();
+  const result = getDailyResult(dailyKey);
+
+  const handleSubmitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const setup = decodeCaseCode(code);
+    if (!setup) {
+      setCodeError('올바른 사건 코드가 아닙니다. 철자를 다시 확인해 주세요.');
+      return;
+    }
+    setCodeError(null);
+    onStartCase(setup, null);
+  };
+
+  const handleCopyResult = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(formatDailyShare(result));
+      setCopied(true);
+    } catch (error) {
+      console.warn("Could not copy the daily result.", error);
+    }
+  };
+
+  return (
+    <div className="mt-8 max-w-md mx-auto text-left bg-white p-4 rounded-lg shadow">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold text-slate-800">📅 오늘의 사건 · {dailyKey}</p>
+          <p className="text-xs text-slate-500">
+            {result
+              ? `오늘의 결과: ${result.won ? '승리' : '패배'} · 투표 ${result.ballots}회 · 억울한 해고 ${result.innocentsFired}명`
+              : '팀원 모두가 같은 사건을 받습니다. 결과를 비교해 보세요.'}
+          </p>
+        </div>
+        {result && (
+          <button onClick={handleCopyResult} className="text-sm font-semibold text-slate-500 hover:text-blue-600">
+            {copied ? '복사됨' : '결과 복사'}
+          </button>
+        )}
+        <button onClick={() => onStartCase(getDailySetup(dailyKey), dailyKey)} disabled={disabled} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+          {result ? '다시 풀기' : '도전'}
+        </button>
+      </div>
+      <form onSubmit={handleSubmitCode} className="flex gap-2 mt-3 pt-3 border-t border-slate-200">
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder="사건 코드 (예: 3K9D-W2QA-0F7M)"
+          className="flex-1 min-w-0 p-2 text-sm border border-slate-300 rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+        />
+        <button type="submit" disabled={disabled || !code.trim()} className="text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:text-slate-400">
+          코드로 시작
+        </button>
+      </form>
+      {codeError && <p className="text-red-500 text-xs mt-1">{codeError}</p>}
+    </div>
+  );
+};
+
+export default DailyCasePanel;
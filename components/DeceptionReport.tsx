@@ -0,0 +1,35 @@
+import React from 'react';
+import type { DeceptionReport as Report } from '../game/villainMode';
+
+interface DeceptionReportProps {
+  report: Report;
+}
+
+const gradeColors: { [grade in Report['grade']]: string } = {
+  S: 'bg-purple-600',
+  A: 'bg-indigo-600',
+  B: 'bg-blue-600',
+  C: 'bg-slate-500',
+  D: 'bg-slate-400',
+};
+
+const DeceptionReport: React.FC<DeceptionReportProps> = ({ report }) => (
+  <div className="max-w-md mx-auto mb-4 bg-slate-800 text-white rounded-xl p-4 text-left">
+    <div className="flex items-center gap-3 mb-3">
+      <span className={`${gradeColors[report.grade]} text-2xl font-extrabold w-12 h-12 rounded-full flex items-center justify-center`}>{report.grade}</span>
+      <div>
+        <p className="text-xs text-slate-400">빌런 연기 평가 · {report.score}점</p>
+        <p className="text-lg font-bold">{report.title}</p>
+      </div>
+    </div>
+    <ul className="text-sm space-y-1 text-slate-200">
+      <li>버틴 투표: {report.roundsSurvived}회</li>
+      <li>받은 표: {report.votesAgainst}표</li>
+      <li>대신 해고된 동료: {report.innocentsFired.length > 0 ? report.innocentsFired.join(', ') : '없음'}</li>
+      <li>먹혀든 익명 제보: {report.doubtsLanded.length > 0 ? report.doubtsLanded.join(', ') : '없음'}</li>
+      <li>드러난 불리한 증거: {report.cluesAgainst}건</li>
+    </ul>
+  </div>
+);
+
+export default DeceptionReport;
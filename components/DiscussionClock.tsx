@@ -0,0 +1,23 @@
+import React from 'react';
+import { formatCountdown, limitRunningOut } from '../game/discussion';
+
+interface DiscussionClockProps {
+  /** `null` without a timer. */
+  secondsLeft: number | null;
+  /** `null` without a question budget. */
+  questionsLeft: number | null;
+}
+
+/** What is left of this round's discussion, shown above the chat input. */
+const DiscussionClock: React.FC<DiscussionClockProps> = ({ secondsLeft, questionsLeft }) => {
+  if (secondsLeft === null && questionsLeft === null) return null;
+  const isUrgent = limitRunningOut(secondsLeft, questionsLeft) !== null;
+  return (
+    <p className={`text-sm font-semibold mb-2 flex items-center gap-3 ${isUrgent ? 'text-red-600 animate-pulse' : 'text-slate-600'}`}>
+      {secondsLeft !== null && <span>⏱ {formatCountdown(secondsLeft)}</span>}
+      {questionsLeft !== null && <span>💬 질문 {questionsLeft}번 남음</span>}
+    </p>
+  );
+};
+
+export default DiscussionClock;
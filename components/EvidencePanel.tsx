@@ -0,0 +1,58 @@
+import React from 'react';
+import type { Evidence } from '../pregeneratedContent';
+import { listEvidence, EvidenceEntry } from '../game/evidence';
+
+interface EvidencePanelProps {
+  evidence: Evidence;
+  revealedIds: string[];
+  /** Clue reveals left under the difficulty; `null` or absent when there is no limit. */
+  cluesLeft?: number | null;
+}
+
+const sections: { kind: EvidenceEntry['kind']; title: string }[] = [
+  { kind: 'alibi', title: '알리바이' },
+  { kind: 'timeline', title: '타임라인' },
+  { kind: 'physical', title: '물증' },
+];
+
+const EvidencePanel: React.FC<EvidencePanelProps> = ({ evidence, revealedIds, cluesLeft = null }) => {
+  const all = listEvidence(evidence);
+  const revealed = listEvidence(evidence, revealedIds);
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-xl font-bold text-slate-800 mb-3 border-b-2 border-slate-300 pb-2">
+        수사 노트 <span className="text-sm font-semibold text-slate-500">({revealed.length}/{all.length})</span>
+      </h2>
+      {cluesLeft !== null && (
+        <p className={`text-xs font-semibold mb-2 ${cluesLeft > 0 ? 'text-amber-700' : 'text-red-500'}`}>
+          {cluesLeft > 0 ? `🔒 캐낼 수 있는 단서 ${cluesLeft}개 남음` : '🔒 더는 단서를 캐낼 수 없습니다. 알리바이는 계속 물어볼 수 있어요.'}
+        </p>
+      )}
+      {sections.map(({ kind, title }) => {
+        const entries = revealed.filter(e => e.kind === kind);
+        const total = all.filter(e => e.kind === kind).length;
+        if (total === 0) return null;
+        return (
+          <div key={kind} className="mb-3">
+            <h3 className="text-sm font-semibold text-slate-600 mb-1">{title} ({entries.length}/{total})</h3>
+            {entries.length === 0 ? (
+              <p className="text-xs text-slate-400">아직 밝혀진 것이 없습니다.</p>
+            ) : (
+              <ul className="space-y-1">
+                {entries.map(entry => (
+                  <li key={entry.id} className="text-xs text-slate-700 bg-slate-50 rounded-md p-2">
+                    {entry.label && <span className="font-semibold text-slate-800 mr-1">{entry.label}</span>}
+                    {entry.text}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EvidencePanel;
@@ -0,0 +1,232 @@
+import React from 'react';
+import { ROLES, MIN_CAST_FOR_ACCOMPLICE, RoleOptions } from '../game/roles';
+import { MIN_DRAWN_CAST, MAX_DRAWN_CAST, CastOptions } from '../game/cast';
+import type { VoteRules } from '../game/voteRules';
+import { MAX_HUMAN_PLAYERS } from '../game/hotSeat';
+import { DIFFICULTIES, Difficulty } from '../game/difficulty';
+import { DISCUSSION_QUESTIONS, DISCUSSION_SECONDS, DiscussionLimits } from '../game/discussion';
+
+interface GameOptionsPanelProps {
+  difficulty: Difficulty;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  roleOptions: RoleOptions;
+  onRoleOptionsChange: (options: RoleOptions) => void;
+  castOptions: CastOptions;
+  onCastOptionsChange: (options: CastOptions) => void;
+  voteRules: VoteRules;
+  onVoteRulesChange: (rules: VoteRules) => void;
+  discussionLimits: DiscussionLimits;
+  onDiscussionLimitsChange: (limits: DiscussionLimits) => void;
+  players: number;
+  onPlayersChange: (players: number) => void;
+  disabled: boolean;
+}
+
+type SpecialRole = Exclude<keyof RoleOptions, 'playAsVillain'>;
+
+const roleHints: { [key in SpecialRole]: string } = {
+  accomplice: `빌런을 돕는 AI 동료 (${MIN_CAST_FOR_ACCOMPLICE}명 이상일 때)`,
+  investigator: '라운드마다 한 명을 몰래 조사',
+  gossip: '범인 후보 두 명에 대한 소문을 앎',
+};
+
+const roundLimits = [0, 3, 4, 5, 6];
+
+const castSizes = Array.from({ length: MAX_DRAWN_CAST - MIN_DRAWN_CAST + 1 }, (_, i) => MIN_DRAWN_CAST + i);
+
+const GameOptionsPanel: React.FC<GameOptionsPanelProps> = ({
+  difficulty, onDifficultyChange, roleOptions, onRoleOptionsChange, castOptions, onCastOptionsChange, voteRules, onVoteRulesChange,
+  discussionLimits, onDiscussionLimitsChange, players, onPlayersChange, disabled,
+}) => (
+  <div className="mt-6 max-w-md mx-auto text-left bg-white p-4 rounded-lg shadow space-y-4">
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">난이도</h2>
+      <div className="flex gap-2">
+        {(Object.keys(DIFFICULTIES) as Difficulty[]).map(level => (
+          <button
+            key={level}
+            type="button"
+            onClick={() => {
+              onDifficultyChange(level);
+              // A preset brings its round limit; the vote rules below can still change it.
+              onVoteRulesChange({ ...voteRules, roundLimit: DIFFICULTIES[level].roundLimit });
+            }}
+            disabled={disabled}
+            className={`flex-1 text-sm font-semibold py-1.5 rounded-md border ${difficulty === level ? 'bg-slate-700 text-white border-slate-700' : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-100'}`}
+          >
+            {DIFFICULTIES[level].label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-1">{DIFFICULTIES[difficulty].description}</p>
+    </div>
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">등장인물</h2>
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-1">
+        <span className="font-semibold">인원</span>
+        <select
+          value={castOptions.size}
+          onChange={e => onCastOptionsChange({ ...castOptions, size: Number(e.target.value) })}
+          disabled={disabled}
+          className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+        >
+          <option value={0}>사건 기본 인원</option>
+          {castSizes.map(size => <option key={size} value={size}>{size}명</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={castOptions.randomVillain}
+          onChange={e => onCastOptionsChange({ ...castOptions, randomVillain: e.target.checked })}
+          disabled={disabled}
+        />
+        <span className="font-semibold">범인 무작위</span>
+        <span className="text-xs text-slate-500">매번 다른 동료가 범인이 됩니다</span>
+      </label>
+    </div>
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">특수 역할</h2>
+      <div className="space-y-1">
+        {(Object.keys(roleHints) as SpecialRole[]).map(role => (
+          <label key={role} className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={roleOptions[role]}
+              onChange={e => onRoleOptionsChange({ ...roleOptions, [role]: e.target.checked })}
+              disabled={disabled}
+            />
+            <span className="font-semibold">{ROLES[role].label}</span>
+            <span className="text-xs text-slate-500">{roleHints[role]}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">투표 규칙</h2>
+      <div className="space-y-1 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">해고 기준</span>
+          <select
+            value={voteRules.threshold}
+            onChange={e => onVoteRulesChange({ ...voteRules, threshold: e.target.value as VoteRules['threshold'] })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value="plurality">최다 득표</option>
+            <option value="majority">과반수 득표</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">결정 못 하면</span>
+          <select
+            value={voteRules.onUndecided}
+            onChange={e => onVoteRulesChange({ ...voteRules, onUndecided: e.target.value as VoteRules['onUndecided'] })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value="next_round">아무도 해고하지 않고 다음 라운드</option>
+            <option value="villain_wins">빌런의 승리</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">빌런 승리</span>
+          <select
+            value={voteRules.minCitizens}
+            onChange={e => onVoteRulesChange({ ...voteRules, minCitizens: Number(e.target.value) })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            {[1, 2, 3].map(n => <option key={n} value={n}>시민이 {n}명 미만 남으면</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">라운드 제한</span>
+          <select
+            value={voteRules.roundLimit}
+            onChange={e => onVoteRulesChange({ ...voteRules, roundLimit: Number(e.target.value) })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            {roundLimits.map(n => <option key={n} value={n}>{n === 0 ? '없음' : `${n}라운드`}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={voteRules.runoff}
+            onChange={e => onVoteRulesChange({ ...voteRules, runoff: e.target.checked })}
+            disabled={disabled}
+          />
+          <span className="font-semibold">결선 투표</span>
+          <span className="text-xs text-slate-500">동점이면 최후 변론 후 다시 투표</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={voteRules.allowAbstain}
+            onChange={e => onVoteRulesChange({ ...voteRules, allowAbstain: e.target.checked })}
+            disabled={disabled}
+          />
+          <span className="font-semibold">기권 허용</span>
+        </label>
+      </div>
+    </div>
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">토론 제한</h2>
+      <div className="space-y-1 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">라운드당 시간</span>
+          <select
+            value={discussionLimits.seconds}
+            onChange={e => onDiscussionLimitsChange({ ...discussionLimits, seconds: Number(e.target.value) })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            {DISCUSSION_SECONDS.map(n => <option key={n} value={n}>{n === 0 ? '없음' : `${n / 60}분`}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="font-semibold w-24">라운드당 질문</span>
+          <select
+            value={discussionLimits.questions}
+            onChange={e => onDiscussionLimitsChange({ ...discussionLimits, questions: Number(e.target.value) })}
+            disabled={disabled}
+            className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+          >
+            {DISCUSSION_QUESTIONS.map(n => <option key={n} value={n}>{n === 0 ? '없음' : `${n}번`}</option>)}
+          </select>
+        </label>
+        <p className="text-xs text-slate-500">다 쓰면 투표가 자동으로 시작됩니다.</p>
+      </div>
+    </div>
+    <div>
+      <h2 className="text-sm font-bold text-slate-700 mb-2">플레이어</h2>
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-1">
+        <span className="font-semibold">사람</span>
+        <select
+          value={players}
+          onChange={e => onPlayersChange(Number(e.target.value))}
+          disabled={disabled}
+          className="border border-slate-300 rounded-md px-2 py-1 text-sm"
+        >
+          {Array.from({ length: MAX_HUMAN_PLAYERS }, (_, i) => i + 1).map(n => (
+            <option key={n} value={n}>{n === 1 ? '혼자' : `${n}명 (한 기기를 돌려 가며)`}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={roleOptions.playAsVillain && players === 1}
+          onChange={e => onRoleOptionsChange({ ...roleOptions, playAsVillain: e.target.checked })}
+          disabled={disabled || players > 1}
+        />
+        <span className="font-semibold">빌런으로 플레이</span>
+        <span className="text-xs text-slate-500">{players > 1 ? '여럿이 할 때는 역할이 무작위로 정해집니다' : '정체를 숨기고 동료들을 속이세요'}</span>
+      </label>
+    </div>
+  </div>
+);
+
+export default GameOptionsPanel;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { Character, Message } from '../types';
+import { ROLES } from '../game/roles';
+
+export type HandoffPurpose = 'reveal' | 'notes' | 'vote';
+
+interface HotSeatHandoffProps {
+  player: Character;
+  purpose: HandoffPurpose;
+  /** Private messages meant for this player. */
+  notes: Message[];
+  /** The player's role ability, when they can use it now. */
+  ability?: { label: string; targets: string[]; onUse: (target: string) => void } | null;
+  /** Who the player may vote for; only used when `purpose` is `vote`. */
+  voteTargets?: string[];
+  allowAbstain?: boolean;
+  onVote?: (target: string | null) => void;
+  onClose: () => void;
+}
+
+const headings: { [purpose in HandoffPurpose]: string } = {
+  reveal: '역할 확인',
+  notes: '비밀 노트',
+  vote: '비밀 투표',
+};
+
+/**
+ * Covers the shared screen until the named player has the device, then shows only what is
+ * theirs to see. Remounted per player, so the next person always starts at the cover.
+ */
+const HotSeatHandoff: React.FC<HotSeatHandoffProps> = ({ player, purpose, notes, ability, voteTargets = [], allowAbstain, onVote, onClose }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900 flex items-center justify-center p-4">
+      {!isOpen ? (
+        <div className="text-center text-white">
+          <p className="text-sm text-slate-400 mb-2">{headings[purpose]}</p>
+          <p className="text-2xl font-bold mb-2">📱 {player.name}님에게 기기를 넘겨주세요</p>
+          <p className="text-slate-400 mb-6">다른 사람은 화면을 보지 마세요.</p>
+          <button onClick={() => setIsOpen(true)} className="bg-blue-600 font-bold py-3 px-8 rounded-lg hover:bg-blue-700">
+            제가 {player.name}입니다
+          </button>
+        </div>
+      ) : (
+        <div className="w-full max-w-md bg-white rounded-xl p-5 text-left">
+          <p className="text-xs text-slate-500">{headings[purpose]} · {player.name}</p>
+          <p className="text-lg font-bold text-slate-800 mb-3">당신의 역할: {ROLES[player.role].label}</p>
+          <ul className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+            {notes.map((note, i) => (
+              <li key={i} className="bg-indigo-100 text-indigo-800 text-sm font-semibold rounded-lg px-3 py-2 whitespace-pre-wrap">{note.text}</li>
+            ))}
+          </ul>
+          {ability && ability.targets.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm font-bold text-slate-700 mb-2">{ability.label}</p>
+              <div className="flex flex-wrap gap-2">
+                {ability.targets.map(name => (
+                  <button key={name} onClick={() => ability.onUse(name)} className="bg-slate-700 text-white text-sm font-semibold py-1.5 px-3 rounded-md hover:bg-slate-800">
+                    {name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {purpose === 'vote' ? (
+            <div>
+              <p className="text-sm font-bold text-red-600 mb-2">누구를 지목하시겠습니까?</p>
+              <div className="flex flex-wrap gap-2">
+                {voteTargets.map(name => (
+                  <button key={name} onClick={() => onVote?.(name)} className="bg-red-500 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-red-600">
+                    {name}
+                  </button>
+                ))}
+                {allowAbstain && (
+                  <button onClick={() => onVote?.(null)} className="text-sm font-semibold text-slate-500 underline hover:text-slate-700 px-2">
+                    기권하기
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <button onClick={onClose} className="w-full bg-slate-800 text-white font-bold py-2 rounded-lg hover:bg-slate-900">
+              다 봤어요, 화면 가리기
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HotSeatHandoff;
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ClientMessage, RoomView } from '../services/roomProtocol';
+import { resolveAddressees } from '../game/addressing';
+import CharacterCard from './CharacterCard';
+import ChatBubble from './ChatBubble';
+import EvidencePanel from './EvidencePanel';
+import DiscussionClock from './DiscussionClock';
+import RetryNotice from './RetryNotice';
+import PlayerResults from './PlayerResults';
+import GameOverAnimations from './GameOverAnimations';
+
+interface OnlineGameProps {
+  room: RoomView;
+  onSend: (message: ClientMessage) => void;
+  /** Starts a game with the options picked on the welcome screen; only offered to the host. */
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+/**
+ * A room on the room server: the lobby until the host deals a game, then this person's view of
+ * it. Everything shown comes from the server, which only sends what this seat may see.
+ */
+const OnlineGame: React.FC<OnlineGameProps> = ({ room, onSend, onStart, onLeave }) => {
+  const [input, setInput] = useState('');
+  const [selectedTargets, setSelectedTargets] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const game = room.game;
+  const isHost = room.players.some(p => p.name === room.you && p.isHost);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [game?.messages.length, game?.typing?.text]);
+
+  // Targets only make sense while talking, and a fired colleague can no longer be questioned.
+  useEffect(() => {
+    if (game?.phase !== 'discussion') {
+      setSelectedTargets([]);
+    } else {
+      setSelectedTargets(prev => prev.filter(name => game.characters.some(c => c.name === name && c.status === 'active')));
+    }
+  }, [game?.phase, game?.characters]);
+
+  // The server ends the discussion on its own clock; this only keeps the countdown moving.
+  useEffect(() => {
+    if (!game?.discussionEndsAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [game?.discussionEndsAt]);
+
+  if (!game) {
+    return (
+      <div className="text-center p-8 w-full max-w-md">
+        <p className="text-sm text-slate-500">방 코드</p>
+        <p className="text-5xl font-mono font-extrabold text-slate-800 tracking-widest mb-2 select-all">{room.code}</p>
+        <p className="text-slate-500 mb-6">친구에게 이 코드를 알려 주세요. 남은 자리는 AI 동료가 채웁니다.</p>
+        <ul className="bg-white rounded-lg shadow divide-y divide-slate-100 text-left mb-6">
+          {room.players.map(p => (
+            <li key={p.name} className="flex items-center gap-2 px-4 py-2">
+              <span className={`w-2 h-2 rounded-full ${p.connected ? 'bg-green-500' : 'bg-slate-300'}`} />
+              <span className="font-semibold text-slate-800">{p.name}</span>
+              {p.isHost && <span className="text-xs text-blue-600 font-semibold">방장</span>}
+              {p.name === room.you && <span className="text-xs text-slate-400">(나)</span>}
+            </li>
+          ))}
+        </ul>
+        {isHost ? (
+          <button onClick={onStart} className="bg-blue-600 text-white font-bold py-3 px-8 rounded-lg text-lg hover:bg-blue-700">
+            게임 시작 ({room.players.length}명)
+          </button>
+        ) : (
+          <p className="text-slate-600 font-semibold">방장이 게임을 시작하기를 기다리는 중...</p>
+        )}
+        <button onClick={onLeave} className="block mx-auto mt-4 text-sm font-semibold text-slate-500 hover:text-red-500">
+          방 나가기
+        </button>
+      </div>
+    );
+  }
+
+  const { phase, characters, busy } = game;
+  const me = characters.find(c => c.name === game.seat);
+  const isActive = me?.status === 'active';
+  const isGameOver = phase === 'game_over_win' || phase === 'game_over_loss';
+  const seatOf = (name: string) => room.players.find(p => p.seat === name);
+
+  const handleToggleTarget = (name: string) => {
+    setSelectedTargets(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+  };
+
+  const handleSay = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || busy) return;
+    onSend({ type: 'say', text: input, addressees: resolveAddressees(input, characters, selectedTargets) });
+    setInput('');
+  };
+
+  const handleDefend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    onSend({ type: 'defend', text: input });
+    setInput('');
+  };
+
+  return (
+    <div className="flex flex-row h-full w-full gap-4 p-4">
+      {isGameOver && <GameOverAnimations gameState={phase} />}
+      <div className="w-1/3 lg:w-1/4 bg-white p-4 rounded-xl shadow-lg overflow-y-auto">
+        <div className="flex items-center justify-between mb-4 border-b-2 border-slate-300 pb-2">
+          <h2 className="text-xl font-bold text-slate-800">팀원 목록</h2>
+          <button onClick={onLeave} className="text-xs font-semibold text-slate-500 hover:text-red-500">방 나가기</button>
+        </div>
+        <p className="text-xs text-slate-500 -mt-2 mb-3">
+          <span className="font-semibold text-blue-600 mr-2">🌐 방 {room.code}</span>
+          {game.caseCode && <>사건 코드 <span className="font-mono font-semibold text-slate-700 select-all">{game.caseCode}</span></>}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {characters.map(char => {
+            const person = seatOf(char.name);
+            return (
+              <CharacterCard
+                key={char.name}
+                character={char}
+                onVote={name => onSend({ type: 'vote', votedFor: name })}
+                isVotingPhase={phase === 'voting' && isActive && !game.hasVoted}
+                isVoteDisabled={busy || char.name === game.seat || (!!game.runoff && !game.runoff.includes(char.name))}
+                onSelect={phase === 'discussion' ? handleToggleTarget : undefined}
+                isSelected={selectedTargets.includes(char.name)}
+                roleLabel={game.roleLabels[char.name]}
+                statusNote={game.silenced.includes(char.name) && phase === 'discussion' ? '경위서 작성 중' : person && !person.connected ? '연결 끊김' : null}
+                playerLabel={char.name === game.seat ? 'YOU' : person?.name}
+                suspicion={game.suspicion[char.name]}
+              />
+            );
+          })}
+        </div>
+        {game.evidence && <EvidencePanel evidence={game.evidence} revealedIds={game.revealedEvidence} cluesLeft={game.cluesLeft} />}
+      </div>
+
+      <div className="w-2/3 lg:w-3/4 flex flex-col bg-white rounded-xl shadow-lg min-h-0">
+        <div className="flex-1 p-4 overflow-y-auto">
+          {game.messages.map((msg, index) => <ChatBubble key={index} message={msg} playerCharacterName={game.seat} />)}
+          {game.typing && <ChatBubble message={{ sender: game.typing.name, text: game.typing.text }} playerCharacterName={game.seat} isTyping />}
+          <div ref={chatEndRef} />
+        </div>
+        <div className="p-4 border-t border-slate-200">
+          {phase === 'briefing' && (
+            <div className="text-center">
+              <p className="text-sm text-slate-500 mb-2">당신은 {game.seat}입니다. 위의 비밀 브리핑을 확인하세요.</p>
+              <button onClick={() => onSend({ type: 'begin_discussion' })} className="bg-blue-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-blue-700">
+                조사 시작
+              </button>
+            </div>
+          )}
+          {phase === 'discussion' && game.ability && (
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+              <span className="font-bold text-slate-700">{game.ability.label}:</span>
+              {game.ability.targets.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => onSend({ type: 'use_ability', target: name })}
+                  className={`text-white text-xs font-semibold py-1 px-2 rounded-md ${game.ability.kind === 'plant_doubt' ? 'bg-purple-700 hover:bg-purple-800' : 'bg-slate-700 hover:bg-slate-800'}`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+          {phase === 'discussion' && isActive && (
+            <>
+              {game.retry?.kind === 'replies' && (
+                <RetryNotice
+                  message={`${game.retry.names.join(', ')}님의 답을 받지 못했습니다. AI가 바쁘거나 연결이 불안정한 것 같아요.`}
+                  onRetry={() => onSend({ type: 'retry' })}
+                />
+              )}
+              <DiscussionClock
+                secondsLeft={game.discussionEndsAt ? Math.max(0, Math.ceil((game.discussionEndsAt - now) / 1000)) : null}
+                questionsLeft={game.questionsLeft}
+              />
+              <p className="text-xs text-slate-500 mb-2 flex flex-wrap items-center gap-1">
+                {selectedTargets.length > 0 ? (
+                  <>
+                    <span>질문 대상:</span>
+                    {selectedTargets.map(name => (
+                      <button key={name} type="button" onClick={() => handleToggleTarget(name)} className="bg-blue-100 text-blue-700 font-semibold px-2 py-0.5 rounded-full hover:bg-blue-200">
+                        {name} ×
+                      </button>
+                    ))}
+                    <button type="button" onClick={() => setSelectedTargets([])} className="ml-1 underline hover:text-blue-600">모두에게 말하기</button>
+                  </>
+                ) : (
+                  <span>모두에게 말하는 중 · 팀원 카드를 누르거나 @이름으로 특정 동료에게만 질문할 수 있습니다.</span>
+                )}
+              </p>
+              <form onSubmit={handleSay} className="flex gap-2">
+                <input
+                  type="text"
+                  value={input}
+                  onChange={e => setInput(e.target.value)}
+                  placeholder={selectedTargets.length > 0 ? `${selectedTargets.join(', ')}에게 질문하기...` : `${game.seat} (으)로 메시지 입력...`}
+                  className="flex-1 p-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button type="submit" className="bg-blue-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-blue-700 disabled:bg-slate-400" disabled={busy}>
+                  전송
+                </button>
+                <button type="button" onClick={() => onSend({ type: 'open_voting' })} disabled={busy} className="bg-green-500 text-white font-semibold py-3 px-5 rounded-lg hover:bg-green-600 disabled:bg-slate-400">
+                  투표하기
+                </button>
+              </form>
+            </>
+          )}
+          {phase === 'discussion' && !isActive && <p className="text-center text-slate-500">해고된 뒤라 지켜보기만 할 수 있습니다.</p>}
+          {phase === 'voting' && game.retry?.kind === 'ballot' && isActive && (
+            <RetryNotice message="동료들의 표를 받지 못해 집계하지 못했습니다. 같은 표로 다시 집계할 수 있어요." onRetry={() => onSend({ type: 'retry' })} disabled={busy} />
+          )}
+          {phase === 'voting' && game.canDefend && (
+            <form onSubmit={handleDefend} className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder="최후 변론 입력..."
+                className="flex-1 p-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button type="submit" className="bg-blue-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-blue-700">
+                변론하기
+              </button>
+            </form>
+          )}
+          {phase === 'voting' && (
+            <div className="text-center">
+              {isActive && !game.hasVoted ? (
+                <>
+                  <p className="font-semibold text-red-600 animate-pulse">
+                    {game.runoff ? `결선 투표: ${game.runoff.join(', ')} 중 한 명을 지목하세요!` : '왼쪽 팀원 목록에서 빌런을 지목하세요! 투표는 공개 전까지 비밀입니다.'}
+                  </p>
+                  {game.allowAbstain && (
+                    <button onClick={() => onSend({ type: 'vote', votedFor: null })} className="mt-2 text-sm font-semibold text-slate-500 underline hover:text-slate-700">
+                      기권하기
+                    </button>
+                  )}
+                </>
+              ) : (
+                <p className="font-semibold text-slate-600">
+                  {game.waitingFor.length > 0 ? `${game.waitingFor.join(', ')}님의 투표를 기다리는 중...` : '투표를 집계하는 중...'}
+                </p>
+              )}
+            </div>
+          )}
+          {phase === 'night' && <p className="text-center font-semibold text-indigo-700">🌙 모두 퇴근한 밤... 빌런이 다시 움직이고 있습니다.</p>}
+          {phase === 'reveal' && <p className="text-center font-semibold text-slate-600">투표가 진행 중입니다. 결과를 기다려주세요.</p>}
+          {isGameOver && (
+            <div className="text-center">
+              {game.results && <PlayerResults results={game.results} />}
+              {isHost ? (
+                <button onClick={onStart} className="bg-indigo-600 text-white font-bold py-3 px-8 rounded-lg hover:bg-indigo-700 transition-transform hover:scale-105">
+                  같은 방에서 다시 하기
+                </button>
+              ) : (
+                <p className="text-slate-600 font-semibold">방장이 다음 게임을 시작할 수 있습니다.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnlineGame;
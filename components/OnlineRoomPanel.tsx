@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+
+interface OnlineRoomPanelProps {
+  onCreate: (name: string) => void;
+  onJoin: (code: string, name: string) => void;
+  disabled: boolean;
+  error: string | null;
+}
+
+/** Create a room on the room server, or join a friend's by its code. */
+const OnlineRoomPanel: React.FC<OnlineRoomPanelProps> = ({ onCreate, onJoin, disabled, error }) => {
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && code.trim()) onJoin(code.trim(), name.trim());
+  };
+
+  return (
+    <div className="mt-8 max-w-md mx-auto text-left bg-white p-4 rounded-lg shadow">
+      <p className="text-sm font-bold text-slate-800">🌐 온라인 방</p>
+      <p className="text-xs text-slate-500 mb-3">각자 자기 브라우저에서 한 명씩 맡고, 남은 자리는 AI 동료가 채웁니다.</p>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="내 이름"
+          maxLength={12}
+          className="flex-1 min-w-0 p-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+        />
+        <button onClick={() => onCreate(name.trim())} disabled={disabled || !name.trim()} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+          방 만들기
+        </button>
+      </div>
+      <form onSubmit={handleJoin} className="flex gap-2 mt-3 pt-3 border-t border-slate-200">
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder="방 코드 (예: KQ7M)"
+          className="flex-1 min-w-0 p-2 text-sm border border-slate-300 rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={disabled}
+        />
+        <button type="submit" disabled={disabled || !name.trim() || !code.trim()} className="text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:text-slate-400">
+          참가하기
+        </button>
+      </form>
+      {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default OnlineRoomPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import type { PlayerResult } from '../game/hotSeat';
+import { ROLES } from '../game/roles';
+
+interface PlayerResultsProps {
+  results: PlayerResult[];
+}
+
+/** Each person's own win or loss at the end of a hot-seat game. */
+const PlayerResults: React.FC<PlayerResultsProps> = ({ results }) => (
+  <div className="max-w-md mx-auto mb-4 bg-white border border-slate-200 rounded-xl p-4 text-left">
+    <p className="text-sm font-bold text-slate-700 mb-2">플레이어별 결과</p>
+    <ul className="space-y-1">
+      {results.map(r => (
+        <li key={r.name} className="flex items-center gap-2 text-sm">
+          <span className={`font-bold px-2 py-0.5 rounded-full text-xs text-white ${r.won ? 'bg-green-600' : 'bg-slate-400'}`}>
+            {r.won ? '승리' : '패배'}
+          </span>
+          <span className="font-semibold text-slate-800">{r.name}</span>
+          <span className="text-slate-500">{ROLES[r.role].label}{r.fired ? ' · 해고됨' : ''}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default PlayerResults;
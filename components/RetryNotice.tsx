@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface RetryNoticeProps {
+  /** What couldn't be done, in a sentence. */
+  message: string;
+  onRetry: () => void;
+  /** Shown as a close button when given. */
+  onDismiss?: () => void;
+  disabled?: boolean;
+}
+
+/** An AI call that failed even after retrying, with a way to try once more. */
+const RetryNotice: React.FC<RetryNoticeProps> = ({ message, onRetry, onDismiss, disabled = false }) => (
+  <div className="flex items-center gap-3 mb-2 p-2 rounded-lg bg-amber-50 border border-amber-300 text-sm text-amber-800" role="alert">
+    <span className="flex-1">⚠️ {message}</span>
+    <button type="button" onClick={onRetry} disabled={disabled} className="bg-amber-500 text-white font-semibold py-1 px-3 rounded-md hover:bg-amber-600 disabled:bg-slate-400">
+      다시 시도
+    </button>
+    {onDismiss && (
+      <button type="button" onClick={onDismiss} className="text-amber-600 hover:text-amber-800" aria-label="닫기">
+        ✕
+      </button>
+    )}
+  </div>
+);
+
+export default RetryNotice;
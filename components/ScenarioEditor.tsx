@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import type { GameSet, PregeneratedCharacter, Evidence } from '../pregeneratedContent';
+import { pregeneratedGameSets } from '../pregeneratedContent';
+import { validateGameSet, formatPackErrors, isImageDataUrl, MIN_CAST_SIZE, MAX_CAST_SIZE } from '../services/scenarioPack';
+import { getMyScenarios, saveMyScenario, deleteMyScenario } from '../services/packLibrary';
+
+interface ScenarioEditorProps {
+  onPlaytest: (gameSet: GameSet) => void;
+  onClose: () => void;
+}
+
+const emptyCharacter = (): PregeneratedCharacter => ({
+  name: '',
+  position: '',
+  personality: '',
+  isVillain: false,
+  visualDescription: '',
+  imageUrl: '',
+});
+
+const emptyGameSet = (): GameSet => ({
+  sabotage: '',
+  sceneImageUrl: '',
+  characters: Array.from({ length: MIN_CAST_SIZE }, emptyCharacter),
+});
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Keeps alibis and testimony attached to a colleague when they are renamed. */
+const renameInEvidence = (evidence: Evidence, from: string, to: string): Evidence => {
+  const rename = (name: string) => (name === from ? to : name);
+  const { [from]: alibi, ...alibis } = evidence.alibis;
+  return {
+    alibis: alibi === undefined ? evidence.alibis : { ...alibis, [to]: alibi },
+    clues: evidence.clues.map(c => ({
+      ...c,
+      knownBy: c.knownBy.map(rename),
+      ...(c.implicates ? { implicates: rename(c.implicates) } : {}),
+    })),
+  };
+};
+
+/**
+ * Drops a removed colleague's alibi and testimony; clues nobody else witnessed go with them.
+ */
+const removeFromEvidence = (evidence: Evidence, name: string): Evidence => {
+  const { [name]: _removed, ...alibis } = evidence.alibis;
+  const clues = evidence.clues
+    .map(({ implicates, ...c }) => ({
+      ...c,
+      knownBy: c.knownBy.filter(n => n !== name),
+      ...(implicates && implicates !== name ? { implicates } : {}),
+    }))
+    .filter(c => c.knownBy.length > 0);
+  return { alibis, clues };
+};
+
+/**
+ * Trims text fields and drops an empty script so the draft is validated the way it will be stored.
+ */
+const cleanDraft = (draft: GameSet): GameSet => {
+  const characters = draft.characters.map(c => ({
+    ...c,
+    name: c.name.trim(),
+    position: c.position.trim(),
+    personality: c.personality.trim(),
+    visualDescription: c.visualDescription.trim(),
+  }));
+  const confession = draft.script?.confession.trim() ?? '';
+  const hasLines = !!draft.script && Object.keys(draft.script.lines).length > 0;
+  return {
+    sabotage: draft.sabotage.trim(),
+    sceneImageUrl: draft.sceneImageUrl,
+    characters,
+    ...(confession || hasLines ? { script: { confession, lines: draft.script?.lines ?? {} } } : {}),
+    ...(draft.evidence ? { evidence: draft.evidence } : {}),
+  };
+};
+
+const inputClasses = "w-full p-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ onPlaytest, onClose }) => {
+  const [myScenarios, setMyScenarios] = useState<GameSet[]>(() => getMyScenarios());
+  const [draft, setDraft] = useState<GameSet>(emptyGameSet);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const resetFeedback = () => {
+    setErrors([]);
+    setNotice(null);
+  };
+
+  const loadDraft = (gameSet: GameSet, index: number | null) => {
+    setDraft(JSON.parse(JSON.stringify(gameSet)));
+    setEditingIndex(index);
+    resetFeedback();
+  };
+
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const [source, index] = e.target.value.split(':');
+    e.target.value = '';
+    if (source === 'new') loadDraft(emptyGameSet(), null);
+    if (source === 'mine') loadDraft(myScenarios[Number(index)], Number(index));
+    // Built-in cases are copied, so saving them creates a new scenario of your own.
+    if (source === 'builtin') loadDraft(pregeneratedGameSets[Number(index)], null);
+  };
+
+  const updateCharacter = (index: number, changes: Partial<PregeneratedCharacter>) => {
+    setDraft(prev => {
+      const previousName = prev.characters[index].name;
+      const characters = prev.characters.map((c, i) => {
+        if (i === index) return { ...c, ...changes };
+        // Only one villain per scenario: marking a new one clears the others.
+        return changes.isVillain ? { ...c, isVillain: false } : c;
+      });
+      let script = prev.script;
+      // Keep authored offline lines attached to the character when they are renamed.
+      if (script && changes.name !== undefined && script.lines[previousName]) {
+        const { [previousName]: moved, ...rest } = script.lines;
+        script = { ...script, lines: { ...rest, [changes.name]: moved } };
+      }
+      const evidence = prev.evidence && changes.name !== undefined
+        ? renameInEvidence(prev.evidence, previousName, changes.name)
+        : prev.evidence;
+      return { ...prev, characters, script, evidence };
+    });
+  };
+
+  const addCharacter = () => {
+    setDraft(prev => ({ ...prev, characters: [...prev.characters, emptyCharacter()] }));
+  };
+
+  const removeCharacter = (index: number) => {
+    setDraft(prev => {
+      const removedName = prev.characters[index].name;
+      let script = prev.script;
+      if (script?.lines[removedName]) {
+        const { [removedName]: _removed, ...lines } = script.lines;
+        script = { ...script, lines };
+      }
+      const evidence = prev.evidence && removeFromEvidence(prev.evidence, removedName);
+      return { ...prev, characters: prev.characters.filter((_, i) => i !== index), script, evidence };
+    });
+  };
+
+  const handleImageUpload = async (file: File | undefined, apply: (dataUrl: string) => void) => {
+    if (!file) return;
+    resetFeedback();
+    try {
+      const dataUrl = await readFileAsDataUrl(file);
+      if (!isImageDataUrl(dataUrl)) {
+        setErrors(['PNG, JPEG, GIF, WEBP 이미지만 사용할 수 있습니다.']);
+        return;
+      }
+      apply(dataUrl);
+    } catch (error) {
+      setErrors(['이미지를 읽지 못했습니다.']);
+    }
+  };
+
+  /** Returns the cleaned draft when it passes validation, otherwise shows the errors. */
+  const validateDraft = (): GameSet | null => {
+    resetFeedback();
+    const cleaned = cleanDraft(draft);
+    const validationErrors = validateGameSet(cleaned);
+    if (validationErrors.length > 0) {
+      setErrors(formatPackErrors(validationErrors));
+      return null;
+    }
+    return cleaned;
+  };
+
+  const handleSave = () => {
+    const cleaned = validateDraft();
+    if (!cleaned) return;
+    const savedIndex = saveMyScenario(cleaned, editingIndex);
+    if (savedIndex === null) {
+      setErrors(['저장 공간이 부족하여 사건을 저장하지 못했습니다. 이미지 크기를 줄여 보세요.']);
+      return;
+    }
+    setDraft(cleaned);
+    setEditingIndex(savedIndex);
+    setMyScenarios(getMyScenarios());
+    setNotice("'내가 만든 사건' 팩에 저장했습니다.");
+  };
+
+  const handleDelete = () => {
+    if (editingIndex === null) return;
+    deleteMyScenario(editingIndex);
+    setMyScenarios(getMyScenarios());
+    loadDraft(emptyGameSet(), null);
+  };
+
+  const handlePlaytest = () => {
+    const cleaned = validateDraft();
+    if (cleaned) onPlaytest(cleaned);
+  };
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <h1 className="text-2xl font-bold text-slate-800 mr-auto">
+          사건 편집기 {editingIndex !== null && <span className="text-sm font-normal text-slate-500">(저장된 사건 #{editingIndex + 1})</span>}
+        </h1>
+        <select onChange={handleTemplateChange} defaultValue="" className="p-2 border border-slate-300 rounded-md text-sm">
+          <option value="" disabled>불러오기...</option>
+          <option value="new:">새 사건</option>
+          {myScenarios.map((s, i) => <option key={`mine-${i}`} value={`mine:${i}`}>[내 사건] {s.sabotage.slice(0, 30)}</option>)}
+          {pregeneratedGameSets.map((s, i) => <option key={`builtin-${i}`} value={`builtin:${i}`}>[기본] {s.sabotage.slice(0, 30)}</option>)}
+        </select>
+        <button onClick={handleSave} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700">저장</button>
+        <button onClick={handlePlaytest} className="bg-green-500 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-green-600">플레이테스트</button>
+        {editingIndex !== null && (
+          <button onClick={handleDelete} className="text-sm font-semibold text-red-500 hover:text-red-700 px-2">삭제</button>
+        )}
+        <button onClick={onClose} className="text-sm font-semibold text-slate-500 hover:text-slate-800 px-2">닫기</button>
+      </div>
+
+      {notice && <p className="text-green-600 text-sm mb-4">{notice}</p>}
+      {errors.length > 0 && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm font-semibold text-red-700 mb-1">사건을 확인해 주세요:</p>
+          <ul className="text-xs text-red-600 list-disc list-inside space-y-0.5">
+            {errors.map((error, i) => <li key={i} className="break-words">{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-4 mb-6 grid md:grid-cols-3 gap-4">
+        <div className="md:col-span-2 space-y-3">
+          <label className="block">
+            <span className="text-sm font-semibold text-slate-700">사건 내용</span>
+            <textarea
+              value={draft.sabotage}
+              onChange={e => setDraft(prev => ({ ...prev, sabotage: e.target.value }))}
+              rows={3}
+              placeholder="누군가 ...했습니다."
+              className={inputClasses}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-semibold text-slate-700">빌런의 자백 <span className="font-normal text-slate-500">(선택, 오프라인 모드에서 사용)</span></span>
+            <textarea
+              value={draft.script?.confession ?? ''}
+              onChange={e => {
+                const confession = e.target.value;
+                setDraft(prev => ({ ...prev, script: { confession, lines: prev.script?.lines ?? {} } }));
+              }}
+              rows={2}
+              className={inputClasses}
+            />
+          </label>
+        </div>
+        <div className="text-center">
+          <span className="block text-sm font-semibold text-slate-700 mb-2">사건 현장 이미지</span>
+          {draft.sceneImageUrl ? (
+            <img src={draft.sceneImageUrl} alt="Scene" className="w-full max-w-[12rem] mx-auto rounded-lg border-4 border-slate-200 object-cover mb-2" />
+          ) : (
+            <div className="w-full max-w-[12rem] h-32 mx-auto rounded-lg border-4 border-dashed border-slate-200 mb-2" />
+          )}
+          <input
+            type="file"
+            accept="image/*"
+            onChange={e => handleImageUpload(e.target.files?.[0], dataUrl => setDraft(prev => ({ ...prev, sceneImageUrl: dataUrl })))}
+            className="text-xs w-full"
+          />
+        </div>
+      </section>
+
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-bold text-slate-700">등장인물 ({draft.characters.length}/{MAX_CAST_SIZE})</h2>
+        <button
+          onClick={addCharacter}
+          disabled={draft.characters.length >= MAX_CAST_SIZE}
+          className="text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+        >
+          + 인물 추가
+        </button>
+      </div>
+      <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {draft.characters.map((character, index) => (
+          <div key={index} className={`bg-white rounded-lg shadow p-4 space-y-2 border-2 ${character.isVillain ? 'border-red-400' : 'border-transparent'}`}>
+            <div className="flex items-center gap-3">
+              {character.imageUrl ? (
+                <img src={character.imageUrl} alt={`Avatar for ${character.name}`} className="w-14 h-14 rounded-full border-4 border-slate-200 object-cover" />
+              ) : (
+                <div className="w-14 h-14 rounded-full border-4 border-slate-200 bg-slate-300 flex items-center justify-center">
+                  <span className="text-xl font-bold text-slate-500">{character.name.charAt(0) || '?'}</span>
+                </div>
+              )}
+              <input
+                type="file"
+                accept="image/*"
+                onChange={e => handleImageUpload(e.target.files?.[0], dataUrl => updateCharacter(index, { imageUrl: dataUrl }))}
+                className="text-xs flex-1 min-w-0"
+              />
+            </div>
+            <input value={character.name} onChange={e => updateCharacter(index, { name: e.target.value })} placeholder="이름 (예: 김민준 대리)" className={inputClasses} />
+            <input value={character.position} onChange={e => updateCharacter(index, { position: e.target.value })} placeholder="부서" className={inputClasses} />
+            <input value={character.personality} onChange={e => updateCharacter(index, { personality: e.target.value })} placeholder="성격" className={inputClasses} />
+            <input value={character.visualDescription} onChange={e => updateCharacter(index, { visualDescription: e.target.value })} placeholder="외모 묘사 (영어, 이미지 편집용)" className={inputClasses} />
+            <div className="flex items-center justify-between pt-1">
+              <label className="flex items-center gap-2 text-sm font-semibold text-red-600">
+                <input type="radio" name="villain" checked={character.isVillain} onChange={() => updateCharacter(index, { isVillain: true })} />
+                빌런
+              </label>
+              <button
+                onClick={() => removeCharacter(index)}
+                disabled={draft.characters.length <= MIN_CAST_SIZE}
+                className="text-xs text-slate-400 hover:text-red-500 disabled:text-slate-200"
+              >
+                삭제
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
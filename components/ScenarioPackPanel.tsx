@@ -0,0 +1,84 @@
+import React, { useState, useRef } from 'react';
+import type { ScenarioPack } from '../services/scenarioPack';
+import { parseScenarioPack, formatPackErrors } from '../services/scenarioPack';
+import { listCustomPacks, saveCustomPack, deleteCustomPack } from '../services/packLibrary';
+
+interface ScenarioPackPanelProps {
+  onPlay: (pack: ScenarioPack) => void;
+  disabled: boolean;
+}
+
+const ScenarioPackPanel: React.FC<ScenarioPackPanelProps> = ({ onPlay, disabled }) => {
+  const [packs, setPacks] = useState<ScenarioPack[]>(() => listCustomPacks());
+  const [notice, setNotice] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setNotice(null);
+    setErrors([]);
+    const { pack, errors: packErrors } = parseScenarioPack(await file.text());
+    if (!pack) {
+      setErrors(formatPackErrors(packErrors));
+      return;
+    }
+    if (!saveCustomPack(pack)) {
+      setErrors(['저장 공간이 부족하여 시나리오 팩을 저장하지 못했습니다.']);
+      return;
+    }
+    setPacks(listCustomPacks());
+    setNotice(`'${pack.title}' 팩에서 ${pack.scenarios.length}개의 사건을 가져왔습니다.`);
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCustomPack(id);
+    setPacks(listCustomPacks());
+  };
+
+  return (
+    <div className="mt-10 max-w-md mx-auto text-left">
+      <h2 className="text-lg font-bold text-slate-700 mb-3 text-center">시나리오 팩</h2>
+      {packs.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {packs.map(pack => (
+            <li key={pack.id} className="flex items-center gap-3 bg-white p-3 rounded-lg shadow">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-800 truncate">{pack.title}</p>
+                <p className="text-xs text-slate-500">
+                  {pack.author ? `${pack.author} · ` : ''}사건 {pack.scenarios.length}개
+                </p>
+              </div>
+              <button onClick={() => onPlay(pack)} disabled={disabled} className="bg-blue-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+                플레이
+              </button>
+              <button onClick={() => handleDelete(pack.id)} disabled={disabled} className="text-slate-400 hover:text-red-500 text-sm" aria-label="팩 삭제">
+                삭제
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="text-center">
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:text-slate-400">
+          + 시나리오 팩 가져오기 (.json)
+        </button>
+      </div>
+      {notice && <p className="text-green-600 text-sm mt-2 text-center">{notice}</p>}
+      {errors.length > 0 && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm font-semibold text-red-700 mb-1">시나리오 팩에 문제가 있습니다:</p>
+          <ul className="text-xs text-red-600 list-disc list-inside space-y-0.5 max-h-40 overflow-y-auto">
+            {errors.map((error, i) => <li key={i} className="break-words">{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPackPanel;
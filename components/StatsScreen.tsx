@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ACHIEVEMENTS, computeStats, GameRecord, SideStats } from '../game/profile';
+import { ROLES } from '../game/roles';
+import { DIFFICULTIES, Difficulty } from '../game/difficulty';
+import { getProfile, resetProfile } from '../services/profileService';
+
+interface StatsScreenProps {
+  onClose: () => void;
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const winRate = (side: SideStats) => (side.played > 0 ? side.won / side.played : null);
+
+const shorten = (text: string, length = 40) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+/** The player's record across finished solo games, per scenario and overall, and their achievements. */
+const StatsScreen: React.FC<StatsScreenProps> = ({ onClose }) => {
+  const [profile, setProfile] = useState(getProfile);
+  const overall = computeStats(profile.games);
+  const byScenario: { [scenarioId: string]: GameRecord[] } = {};
+  profile.games.forEach(game => {
+    (byScenario[game.scenarioId] = byScenario[game.scenarioId] ?? []).push(game);
+  });
+  // Each scenario is shown as it was told in its latest game, since dealt casts reword it.
+  const scenarios = Object.keys(byScenario).map(id => ({ id, scenario: byScenario[id][0].scenario, stats: computeStats(byScenario[id]) }));
+  const levels = (Object.keys(DIFFICULTIES) as Difficulty[])
+    .map(level => ({ level, stats: computeStats(profile.games.filter(g => g.difficulty === level)) }))
+    .filter(({ stats }) => stats.played > 0);
+
+  const handleReset = () => {
+    if (!window.confirm('모든 기록과 업적을 지울까요? 되돌릴 수 없습니다.')) return;
+    resetProfile();
+    setProfile(getProfile());
+  };
+
+  const summary = [
+    { label: '플레이', value: `${overall.played}판` },
+    { label: '탐정 승률', value: `${percent(winRate(overall.detective))} (${overall.detective.won}/${overall.detective.played})` },
+    { label: '빌런 승률', value: `${percent(winRate(overall.villain))} (${overall.villain.won}/${overall.villain.played})` },
+    { label: '평균 라운드', value: overall.played > 0 ? overall.averageRounds.toFixed(1) : '—' },
+    { label: '투표 정확도', value: percent(overall.voteAccuracy) },
+    { label: '억울한 해고', value: `${overall.wronglyFired}명` },
+  ];
+
+  return (
+    <div className="w-full h-full overflow-y-auto p-6 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <h1 className="text-2xl font-bold text-slate-800 mr-auto">📊 내 기록</h1>
+        <button onClick={handleReset} disabled={profile.games.length === 0} className="text-sm font-semibold text-slate-500 hover:text-red-500 disabled:text-slate-300 px-2">기록 초기화</button>
+        <button onClick={onClose} className="bg-slate-700 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-slate-800">닫기</button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-8">
+        {summary.map(item => (
+          <div key={item.label} className="bg-white rounded-xl shadow p-4 text-center">
+            <p className="text-xs text-slate-500">{item.label}</p>
+            <p className="text-lg font-bold text-slate-800 mt-1">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {levels.length > 0 && (
+        <>
+          <h2 className="text-lg font-bold text-slate-800 mb-3">난이도별 기록</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-8">
+            {levels.map(({ level, stats }) => (
+              <div key={level} className="bg-white rounded-xl shadow p-4 text-center">
+                <p className="font-bold text-slate-800">{DIFFICULTIES[level].label} <span className="text-xs font-normal text-slate-500">{stats.played}판</span></p>
+                <p className="text-xs text-slate-600 mt-1">탐정 승률 {percent(winRate(stats.detective))} · 빌런 승률 {percent(winRate(stats.villain))}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <h2 className="text-lg font-bold text-slate-800 mb-3">업적</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-8">
+        {ACHIEVEMENTS.map(a => {
+          const earnedAt = profile.achievements[a.id];
+          return (
+            <div key={a.id} className={`flex items-center gap-3 rounded-xl p-3 border ${earnedAt ? 'bg-amber-50 border-amber-300' : 'bg-slate-100 border-slate-200 opacity-60'}`}>
+              <span className={`text-3xl ${earnedAt ? '' : 'grayscale'}`}>{a.icon}</span>
+              <div className="text-left">
+                <p className="font-bold text-slate-800">{a.title}</p>
+                <p className="text-xs text-slate-600">{a.description}</p>
+                {earnedAt && <p className="text-xs text-amber-700 mt-0.5">{new Date(earnedAt).toLocaleDateString('ko-KR')} 달성</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <h2 className="text-lg font-bold text-slate-800 mb-3">사건별 기록</h2>
+      {scenarios.length === 0 ? (
+        <p className="text-slate-500 mb-8">아직 끝낸 게임이 없습니다. 혼자 하는 게임을 끝까지 마치면 여기에 기록됩니다.</p>
+      ) : (
+        <div className="bg-white rounded-xl shadow overflow-x-auto mb-8">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-100 text-slate-600">
+              <tr>
+                <th className="text-left p-3">사건</th>
+                <th className="p-3">플레이</th>
+                <th className="p-3">탐정 승률</th>
+                <th className="p-3">빌런 승률</th>
+                <th className="p-3">평균 라운드</th>
+                <th className="p-3">투표 정확도</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-center">
+              {scenarios.map(({ id, scenario, stats }) => (
+                <tr key={id}>
+                  <td className="text-left p-3 text-slate-800" title={scenario}>{shorten(scenario)}</td>
+                  <td className="p-3">{stats.played}</td>
+                  <td className="p-3">{percent(winRate(stats.detective))}</td>
+                  <td className="p-3">{percent(winRate(stats.villain))}</td>
+                  <td className="p-3">{stats.averageRounds.toFixed(1)}</td>
+                  <td className="p-3">{percent(stats.voteAccuracy)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {profile.games.length > 0 && (
+        <>
+          <h2 className="text-lg font-bold text-slate-800 mb-3">최근 게임</h2>
+          <ul className="bg-white rounded-xl shadow divide-y divide-slate-100 text-sm">
+            {profile.games.slice(0, 10).map(game => (
+              <li key={game.finishedAt} className="flex flex-wrap items-center gap-2 px-4 py-2">
+                <span className={`font-bold px-2 py-0.5 rounded-full text-xs text-white ${game.won ? 'bg-green-600' : 'bg-slate-400'}`}>
+                  {game.won ? '승리' : '패배'}
+                </span>
+                <span className="text-slate-500">{ROLES[game.role].label}</span>
+                <span className="text-slate-500">{DIFFICULTIES[game.difficulty].label}</span>
+                <span className="text-slate-800 mr-auto" title={game.scenario}>{shorten(game.scenario)}</span>
+                <span className="text-slate-500">{game.rounds}라운드</span>
+                {game.wronglyFired.length > 0 && <span className="text-red-500">억울한 해고: {game.wronglyFired.join(', ')}</span>}
+                <span className="text-slate-400 text-xs">{new Date(game.finishedAt).toLocaleDateString('ko-KR')}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsScreen;
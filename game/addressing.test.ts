@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { Character } from '../types';
+import { findAtMentions, resolveAddressees, selectResponders } from './addressing';
+import { aliasesOf, mentionsCharacter } from './names';
+
+const person = (name: string, overrides: Partial<Character> = {}): Character => ({
+    name,
+    position: '사원',
+    personality: '',
+    role: 'employee',
+    status: 'active',
+    imageUrl: null,
+    votes: 0,
+    visualDescription: '',
+    ...overrides,
+});
+
+const office = (): Character[] => [
+    person('이서연 사원', { isPlayer: true }),
+    person('김민준 대리'),
+    person('박현우 과장'),
+    person('최지우 주임', { status: 'voted_out' }),
+];
+
+const names = (characters: Character[]) => characters.map(c => c.name);
+
+describe('aliasesOf', () => {
+    it('offers the name with and without the title, and the given name', () => {
+        expect(aliasesOf('김민준 대리')).toEqual(['김민준 대리', '김민준', '민준']);
+    });
+
+    it('skips aliases too short to tell people apart', () => {
+        expect(aliasesOf('김 대리')).toEqual(['김 대리']);
+        expect(aliasesOf('나')).toEqual([]);
+    });
+});
+
+describe('mentionsCharacter', () => {
+    it('matches any alias, particles and all', () => {
+        expect(mentionsCharacter('김민준 대리님 어디 계셨어요?', '김민준 대리')).toBe(true);
+        expect(mentionsCharacter('민준씨가 범인 같아요', '김민준 대리')).toBe(true);
+        expect(mentionsCharacter('박현우 과장님은요?', '김민준 대리')).toBe(false);
+    });
+});
+
+describe('findAtMentions', () => {
+    it('finds colleagues called out with @ by any alias', () => {
+        expect(findAtMentions('@민준 @박현우 과장님 어디 계셨어요?', office())).toEqual(['김민준 대리', '박현우 과장']);
+    });
+
+    it('ignores names without an @ and the player', () => {
+        expect(findAtMentions('민준씨 @서연', office())).toEqual([]);
+    });
+});
+
+describe('resolveAddressees', () => {
+    it('joins colleagues selected on the board with @ mentions, in seating order', () => {
+        expect(resolveAddressees('@민준 알리바이가 뭐예요?', office(), ['박현우 과장'])).toEqual(['김민준 대리', '박현우 과장']);
+    });
+
+    it('drops fired colleagues and the player', () => {
+        expect(resolveAddressees('@지우 @서연', office(), ['최지우 주임', '이서연 사원'])).toEqual([]);
+    });
+
+    it('is empty for a message to the whole room', () => {
+        expect(resolveAddressees('다들 어디 계셨어요?', office(), [])).toEqual([]);
+    });
+});
+
+describe('selectResponders', () => {
+    it('has every active colleague answer a message to the whole room', () => {
+        expect(names(selectResponders('다들 어디 계셨어요?', office(), []))).toEqual(['김민준 대리', '박현우 과장']);
+    });
+
+    it('has addressees answer, and anyone else only when brought up by name', () => {
+        expect(names(selectResponders('어디 계셨어요?', office(), ['김민준 대리']))).toEqual(['김민준 대리']);
+        expect(names(selectResponders('현우 과장님이 범인 같은데요?', office(), ['김민준 대리']))).toEqual(['김민준 대리', '박현우 과장']);
+    });
+
+    it('never asks a fired colleague, even by name', () => {
+        expect(names(selectResponders('지우씨는 왜 잘렸죠?', office(), ['김민준 대리']))).toEqual(['김민준 대리']);
+    });
+});
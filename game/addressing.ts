@@ -0,0 +1,31 @@
+import type { Character } from '../types';
+import { aliasesOf, mentionsCharacter } from './names';
+
+/**
+ * Colleagues called out with `@name` in the player's message, e.g. "@민준 어디 계셨어요?".
+ */
+export const findAtMentions = (text: string, characters: Character[]): string[] =>
+    characters
+        .filter(c => !c.isPlayer && aliasesOf(c.name).some(alias => text.includes(`@${alias}`)))
+        .map(c => c.name);
+
+/**
+ * Everyone the player is talking to: colleagues selected on the board plus any `@` mentions.
+ * Fired colleagues are dropped. An empty list means the message is for the whole room.
+ */
+export const resolveAddressees = (userInput: string, characters: Character[], selected: string[]): string[] => {
+    const active = characters.filter(c => c.status === 'active' && !c.isPlayer);
+    const mentioned = findAtMentions(userInput, active);
+    return active.filter(c => selected.includes(c.name) || mentioned.includes(c.name)).map(c => c.name);
+};
+
+/**
+ * Picks who answers a message. Addressed colleagues always answer; anyone else answers only
+ * when they were brought up by name (asked about or accused). A message for the whole room
+ * gets an answer from every active colleague.
+ */
+export const selectResponders = (userInput: string, characters: Character[], addressees: string[]): Character[] => {
+    const active = characters.filter(c => c.status === 'active' && !c.isPlayer);
+    if (addressees.length === 0) return active;
+    return active.filter(c => addressees.includes(c.name) || mentionsCharacter(userInput, c.name));
+};
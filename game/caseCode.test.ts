@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { CaseSetup, decodeCaseCode, encodeCaseCode, getDailyKey, getDailySetup } from './caseCode';
+import { DEFAULT_CAST_OPTIONS } from './cast';
+import { DEFAULT_ROLE_OPTIONS } from './roles';
+import { CLASSIC_VOTE_RULES, DEFAULT_VOTE_RULES } from './voteRules';
+
+const setup = (overrides: Partial<CaseSetup> = {}): CaseSetup => ({
+    seed: 123_456_789,
+    cast: DEFAULT_CAST_OPTIONS,
+    roles: DEFAULT_ROLE_OPTIONS,
+    rules: DEFAULT_VOTE_RULES,
+    players: 1,
+    difficulty: 'normal',
+    ...overrides,
+});
+
+describe('encodeCaseCode', () => {
+    it('writes three dashed groups of four Crockford digits', () => {
+        expect(encodeCaseCode(setup())).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+    });
+
+    it('gives different setups different codes', () => {
+        const codes = [
+            setup(),
+            setup({ seed: 123_456_790 }),
+            setup({ difficulty: 'hard' }),
+            setup({ players: 2 }),
+            setup({ rules: CLASSIC_VOTE_RULES }),
+        ].map(encodeCaseCode);
+        expect(new Set(codes).size).toBe(codes.length);
+    });
+});
+
+describe('decodeCaseCode', () => {
+    it.each<[string, Partial<CaseSetup>]>([
+        ['the defaults', {}],
+        ['the largest seed', { seed: 2 ** 32 - 1 }],
+        ['seed zero', { seed: 0 }],
+        ['easy', { difficulty: 'easy' }],
+        ['hard', { difficulty: 'hard' }],
+        ['a drawn cast', { cast: { size: 8, randomVillain: false } }],
+        ['every role flipped', { roles: { accomplice: false, investigator: false, gossip: false, playAsVillain: true } }],
+        ['the classic rules', { rules: CLASSIC_VOTE_RULES }],
+        ['majority with a round limit', { rules: { ...DEFAULT_VOTE_RULES, threshold: 'majority', minCitizens: 3, roundLimit: 7 } }],
+        ['a full table', { players: 4 }],
+    ])('reads back %s', (_, overrides) => {
+        const original = setup(overrides);
+        expect(decodeCaseCode(encodeCaseCode(original))).toEqual(original);
+    });
+
+    it('forgives case, spacing and letters mistaken for digits', () => {
+        const original = setup({ seed: 1 });
+        const code = encodeCaseCode(original);
+        expect(code.startsWith('0000-001')).toBe(true);
+        const retyped = ` ${code.replace(/-/g, ' ').toLowerCase().replace(/0/g, 'o').replace('1', 'I')} `;
+        expect(decodeCaseCode(retyped)).toEqual(original);
+        expect(decodeCaseCode(code.replace('1', 'l'))).toEqual(original);
+    });
+
+    it('rejects codes of the wrong length or with stray characters', () => {
+        const code = encodeCaseCode(setup());
+        expect(decodeCaseCode('')).toBeNull();
+        expect(decodeCaseCode(code.slice(0, -1))).toBeNull();
+        expect(decodeCaseCode(`${code}0`)).toBeNull();
+        expect(decodeCaseCode(`${code.slice(0, -1)}U`)).toBeNull();
+    });
+
+    it('catches a mistyped digit with the check digit', () => {
+        const code = encodeCaseCode(setup());
+        const digit = code[0] === '7' ? '8' : '7';
+        expect(decodeCaseCode(digit + code.slice(1))).toBeNull();
+    });
+});
+
+describe('getDailySetup', () => {
+    it('names the day by the local date', () => {
+        expect(getDailyKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    });
+
+    it('deals everyone the same case on the same day', () => {
+        expect(getDailySetup('2026-01-05')).toEqual(getDailySetup('2026-01-05'));
+        expect(getDailySetup('2026-01-05').seed).not.toBe(getDailySetup('2026-01-06').seed);
+        expect(getDailySetup('2026-01-05')).toMatchObject({ players: 1, difficulty: 'normal' });
+    });
+});
@@ -0,0 +1,134 @@
+import { DEFAULT_CAST_OPTIONS, CastOptions, MAX_DRAWN_CAST } from './cast';
+import { DEFAULT_ROLE_OPTIONS, RoleOptions } from './roles';
+import { DEFAULT_VOTE_RULES, VoteRules } from './voteRules';
+import { MAX_HUMAN_PLAYERS } from './hotSeat';
+import { DEFAULT_DIFFICULTY, Difficulty } from './difficulty';
+import { hashString } from '../services/random';
+
+/**
+ * Everything that decides how a game is dealt. Dealing the built-in scenarios from the same
+ * setup always gives the same case, cast, roles and player seat.
+ */
+export interface CaseSetup {
+    seed: number;
+    cast: CastOptions;
+    roles: RoleOptions;
+    rules: VoteRules;
+    /** People sharing the device, from 1 to `MAX_HUMAN_PLAYERS`. */
+    players: number;
+    difficulty: Difficulty;
+}
+
+/** Crockford's base32: no I, L, O or U, so a code read aloud or retyped survives. */
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const SEED_DIGITS = 7;
+const OPTION_DIGITS = 4;
+const CODE_LENGTH = SEED_DIGITS + OPTION_DIGITS + 1;
+/**
+ * The seed digits hold 35 bits and a seed only 32, so the difficulty rides in the spare top
+ * bits. Normal is 0, which keeps codes from before difficulty existed working.
+ */
+const DIFFICULTY_CODES: Difficulty[] = ['normal', 'easy', 'hard'];
+
+const toDigits = (value: number, count: number): string => {
+    let out = '';
+    for (let i = 0; i < count; i++) {
+        out = ALPHABET[value % 32] + out;
+        value = Math.floor(value / 32);
+    }
+    return out;
+};
+
+const fromDigits = (digits: string): number =>
+    [...digits].reduce((value, d) => value * 32 + ALPHABET.indexOf(d), 0);
+
+const checkDigit = (body: string): string => ALPHABET[hashString(body) % 32];
+
+/** Packs the options into bits, low bits first: cast size, flags, the vote rules, then the players. */
+const packOptions = ({ cast, roles, rules, players }: CaseSetup): number => {
+    const fields: [number, number][] = [
+        [cast.size, 4],
+        [+cast.randomVillain, 1],
+        [+roles.accomplice, 1],
+        [+roles.investigator, 1],
+        [+roles.gossip, 1],
+        [+roles.playAsVillain, 1],
+        [+(rules.threshold === 'majority'), 1],
+        [+rules.runoff, 1],
+        [+(rules.onUndecided === 'villain_wins'), 1],
+        [+rules.allowAbstain, 1],
+        [rules.minCitizens, 2],
+        [rules.roundLimit, 3],
+        [players - 1, 2],
+    ];
+    let packed = 0;
+    let shift = 1;
+    for (const [value, bits] of fields) {
+        packed += Math.min(value, 2 ** bits - 1) * shift;
+        shift *= 2 ** bits;
+    }
+    return packed;
+};
+
+const unpackOptions = (packed: number): Omit<CaseSetup, 'seed' | 'difficulty'> => {
+    const take = (bits: number): number => {
+        const value = packed % 2 ** bits;
+        packed = Math.floor(packed / 2 ** bits);
+        return value;
+    };
+    const size = take(4);
+    return {
+        cast: { size: size > MAX_DRAWN_CAST ? 0 : size, randomVillain: !!take(1) },
+        roles: { accomplice: !!take(1), investigator: !!take(1), gossip: !!take(1), playAsVillain: !!take(1) },
+        rules: {
+            threshold: take(1) ? 'majority' : 'plurality',
+            runoff: !!take(1),
+            onUndecided: take(1) ? 'villain_wins' : 'next_round',
+            allowAbstain: !!take(1),
+            minCitizens: take(2) || DEFAULT_VOTE_RULES.minCitizens,
+            roundLimit: take(3),
+        },
+        players: Math.min(take(2) + 1, MAX_HUMAN_PLAYERS),
+    };
+};
+
+/**
+ * A short code such as `3K9D-W2QA-0F7M` that recreates `setup`: the seed and difficulty, then
+ * the options, then a check digit that catches most typos.
+ */
+export const encodeCaseCode = (setup: CaseSetup): string => {
+    const seedField = (setup.seed >>> 0) + DIFFICULTY_CODES.indexOf(setup.difficulty) * 2 ** 32;
+    const body = toDigits(seedField, SEED_DIGITS) + toDigits(packOptions(setup), OPTION_DIGITS);
+    return `${body}${checkDigit(body)}`.match(/.{4}/g).join('-');
+};
+
+/**
+ * Reads a case code back, forgiving case, dashes, spaces and the letters people mistake for
+ * digits. Returns `null` for anything that isn't a valid code.
+ */
+export const decodeCaseCode = (code: string): CaseSetup | null => {
+    const clean = code.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+    if (clean.length !== CODE_LENGTH || [...clean].some(d => !ALPHABET.includes(d))) return null;
+    const body = clean.slice(0, -1);
+    if (checkDigit(body) !== clean.slice(-1)) return null;
+    const seedField = fromDigits(body.slice(0, SEED_DIGITS));
+    const difficulty = DIFFICULTY_CODES[Math.floor(seedField / 2 ** 32)];
+    if (!difficulty) return null;
+    return { seed: seedField % 2 ** 32, ...unpackOptions(fromDigits(body.slice(SEED_DIGITS))), difficulty };
+};
+
+/** The local calendar day, e.g. `2026-10-19`, which names the daily case. */
+export const getDailyKey = (date: Date = new Date()): string =>
+    [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+/**
+ * The day's case: the same seed for everyone and the default options, so results compare fairly.
+ */
+export const getDailySetup = (dailyKey: string): CaseSetup => ({
+    seed: hashString(`daily:${dailyKey}`),
+    cast: DEFAULT_CAST_OPTIONS,
+    roles: DEFAULT_ROLE_OPTIONS,
+    rules: DEFAULT_VOTE_RULES,
+    players: 1,
+    difficulty: DEFAULT_DIFFICULTY,
+});
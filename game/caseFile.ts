@@ -0,0 +1,116 @@
+import type { Character, Message, Role, Vote } from '../types';
+import type { BallotRecord, Winner } from './engine';
+import { narrateVote } from './narration';
+import { ROLES } from './roles';
+import type { Difficulty } from './difficulty';
+
+/** The scene redrawn without a fired colleague, kept so the replay can show each edit in turn. */
+export interface SceneEdit {
+    fired: string;
+    imageUrl: string;
+}
+
+export type CaseEvent =
+    | { kind: 'message'; message: Message }
+    | { kind: 'vote'; round: number; vote: Vote }
+    | { kind: 'fired'; round: number; name: string }
+    | { kind: 'scene'; imageUrl: string | null; caption: string };
+
+export interface CaseFileCharacter {
+    name: string;
+    position: string;
+    role: Role;
+    roleLabel: string;
+    isPlayer: boolean;
+    imageUrl: string | null;
+    /** The round they were fired in, or `null` if they lasted to the end. */
+    firedInRound: number | null;
+}
+
+/**
+ * Everything that happened in one finished game, in order, with every role revealed. It is
+ * built from the chat log and the engine's ballots, so a game restored from a save gets one too.
+ */
+export interface CaseFile {
+    version: 1;
+    sabotage: string;
+    caseCode: string | null;
+    difficulty: Difficulty;
+    finishedAt: string;
+    winner: Winner;
+    rounds: number;
+    cast: CaseFileCharacter[];
+    events: CaseEvent[];
+}
+
+export interface CaseFileInput {
+    sabotage: string;
+    /** The scene as the game opened, before any edits. */
+    sceneImageUrl: string | null;
+    characters: Character[];
+    messages: Message[];
+    ballots: BallotRecord[];
+    sceneEdits: SceneEdit[];
+    caseCode: string | null;
+    difficulty: Difficulty;
+    winner: Winner;
+}
+
+/**
+ * Lays the game out as a timeline. Each vote line in the chat becomes a vote event (the engine's
+ * ballots say who voted for whom), a firing follows the last vote of its ballot, and the edited
+ * scene follows the firing. Images are left off the messages, since an edit rewrites them all.
+ */
+export const createCaseFile = ({ sabotage, sceneImageUrl, characters, messages, ballots, sceneEdits, caseCode, difficulty, winner }: CaseFileInput): CaseFile => {
+    const pending = ballots.flatMap(ballot => ballot.votes.map((vote, index) => ({
+        ballot,
+        vote,
+        isLast: index === ballot.votes.length - 1,
+    })));
+    const events: CaseEvent[] = [{ kind: 'scene', imageUrl: sceneImageUrl, caption: '사건 현장' }];
+
+    messages.forEach(({ imageUrl: _image, ...message }) => {
+        const next = pending[0];
+        if (!next || message.sender !== 'system' || message.text !== narrateVote(next.vote)) {
+            events.push({ kind: 'message', message });
+            return;
+        }
+        pending.shift();
+        events.push({ kind: 'vote', round: next.ballot.round, vote: next.vote });
+        if (!next.isLast || !next.ballot.votedOut) return;
+        const fired = next.ballot.votedOut;
+        events.push({ kind: 'fired', round: next.ballot.round, name: fired });
+        const edit = sceneEdits.find(e => e.fired === fired);
+        if (edit) events.push({ kind: 'scene', imageUrl: edit.imageUrl, caption: `${fired}님이 사라진 현장` });
+    });
+
+    return {
+        version: 1,
+        sabotage,
+        caseCode,
+        difficulty,
+        finishedAt: new Date().toISOString(),
+        winner,
+        rounds: ballots.length > 0 ? ballots[ballots.length - 1].round : 1,
+        cast: characters.map(c => ({
+            name: c.name,
+            position: c.position,
+            role: c.role,
+            roleLabel: ROLES[c.role].label,
+            isPlayer: !!c.isPlayer,
+            imageUrl: c.imageUrl,
+            firedInRound: ballots.find(b => b.votedOut === c.name)?.round ?? null,
+        })),
+        events,
+    };
+};
+
+/** Who has been fired once the first `step` events have played. */
+export const firedBy = (caseFile: CaseFile, step: number): string[] =>
+    caseFile.events.slice(0, step).flatMap(e => (e.kind === 'fired' ? [e.name] : []));
+
+/** The scene on screen once the first `step` events have played. */
+export const sceneAt = (caseFile: CaseFile, step: number): { imageUrl: string | null; caption: string } | null => {
+    const scenes = caseFile.events.slice(0, Math.max(step, 1)).filter((e): e is Extract<CaseEvent, { kind: 'scene' }> => e.kind === 'scene');
+    return scenes[scenes.length - 1] ?? null;
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import type { GameSet } from '../pregeneratedContent';
+import { createRandom } from '../services/random';
+import { assembleGameSet, scenarioIdOf } from './cast';
+
+const character = (name: string, position: string, personality: string, isVillain = false) =>
+    ({ name, position, personality, isVillain, visualDescription: 'an office worker', imageUrl: `${name}.png` });
+
+const lines = (name: string) => ({ alibi: [`${name}: 자리에 있었어요.`], deflection: ['저는 아니에요.'], accusation: ['{target}, 수상해요.'] });
+
+const AUTHORED_VILLAIN = '김철수';
+
+/** A scenario whose sabotage and confession both name a colleague, so recasting shows. */
+const scenario = (): GameSet => ({
+    sabotage: '누군가 이영희 대리의 머그컵을 화분으로 바꿔놓았습니다. 아무도 눈치채지 못했습니다.',
+    sceneImageUrl: 'scene.png',
+    characters: [
+        character(AUTHORED_VILLAIN, '총무팀', '정리정돈에 집착하는', true),
+        character('이영희', '디자인팀', '머그컵을 아끼는'),
+        character('박민수', '영업팀', '화분을 좋아하는'),
+        character('최지우', '개발팀', '조용한'),
+    ],
+    script: {
+        confession: '이영희 대리 머그컵이 너무 지저분해서 그랬어요.',
+        lines: { [AUTHORED_VILLAIN]: lines(AUTHORED_VILLAIN), 이영희: lines('이영희'), 박민수: lines('박민수'), 최지우: lines('최지우') },
+    },
+    evidence: {
+        alibis: { [AUTHORED_VILLAIN]: '창고에 있었다고 한다.', 이영희: '회의 중이었다.', 박민수: '외근 중이었다.', 최지우: '자리에 있었다.' },
+        clues: [
+            { id: 'soil', kind: 'physical', text: '총무팀 책상에 흙이 묻어 있었다.', knownBy: ['최지우'], keywords: ['흙'], implicates: AUTHORED_VILLAIN },
+            { id: 'pot', kind: 'physical', text: '박민수의 화분 하나가 비어 있었다.', knownBy: ['이영희'], keywords: ['화분'], implicates: '박민수' },
+        ],
+    },
+});
+
+const guests = (): GameSet => ({
+    sabotage: '누군가 복사기를 고장냈습니다.',
+    sceneImageUrl: 'guests.png',
+    characters: [character('정하늘', '인사팀', '꼼꼼한', true), character('한바다', '재무팀', '느긋한'), character('이영희', '디자인팀', '머그컵을 아끼는')],
+});
+
+const namesIn = (text: string, set: GameSet) => set.characters.map(c => c.name).filter(name => text.includes(name));
+
+/** Deals `scenario()` once per seed. */
+const dealMany = (options: Parameters<typeof assembleGameSet>[2], seeds = 40) =>
+    Array.from({ length: seeds }, (_, seed) => assembleGameSet(scenario(), [scenario(), guests()], options, createRandom(seed)));
+
+describe('assembleGameSet', () => {
+    it('returns the scenario itself when asked for it as written', () => {
+        const base = scenario();
+        expect(assembleGameSet(base, [guests()], { size: 0, randomVillain: false })).toBe(base);
+        expect(assembleGameSet(base, [guests()], { size: 4, randomVillain: false })).toBe(base);
+    });
+
+    it('deals the same game from the same seed', () => {
+        const options = { size: 5, randomVillain: true };
+        expect(assembleGameSet(scenario(), [guests()], options, createRandom(42)))
+            .toEqual(assembleGameSet(scenario(), [guests()], options, createRandom(42)));
+    });
+
+    it('deals the asked size with unique names and exactly one villain', () => {
+        for (const set of dealMany({ size: 6, randomVillain: true })) {
+            const names = set.characters.map(c => c.name);
+            expect(new Set(names).size).toBe(6);
+            expect(set.characters.filter(c => c.isVillain)).toHaveLength(1);
+        }
+    });
+
+    it('tops the cast up with guests, who keep no lines and are not in the scene', () => {
+        const set = assembleGameSet(scenario(), [guests()], { size: 6, randomVillain: false }, createRandom(1));
+        expect(set.characters.find(c => c.isVillain)?.name).toBe(AUTHORED_VILLAIN);
+        expect(set.characters.map(c => c.name)).toEqual(expect.arrayContaining(['정하늘', '한바다']));
+        expect(set.characters.find(c => c.name === '정하늘')?.isVillain).toBe(false);
+        expect(Object.keys(set.script.lines).sort()).toEqual([AUTHORED_VILLAIN, '박민수', '이영희', '최지우'].sort());
+        expect(set.sceneCast.sort()).toEqual([AUTHORED_VILLAIN, '박민수', '이영희', '최지우'].sort());
+        expect(set.script.confession).toBe(scenario().script.confession);
+    });
+
+    it('has the sabotage and the confession name the same dealt stand-in', () => {
+        const sets = dealMany({ size: 3, randomVillain: false });
+        const recast = sets.filter(set => !set.characters.some(c => c.name === '이영희'));
+        expect(recast.length).toBeGreaterThan(0);
+        for (const set of recast) {
+            const named = namesIn(set.sabotage, set);
+            expect(named).toHaveLength(1);
+            expect(named[0]).not.toBe(AUTHORED_VILLAIN);
+            expect(namesIn(set.script.confession, set)).toEqual(named);
+            expect(set.sabotage).not.toContain('이영희');
+            expect(set.script.confession).not.toContain('이영희');
+        }
+    });
+
+    it('has a new villain confess to the deal, and drops the lines and clues that no longer fit', () => {
+        const turned = dealMany({ size: 0, randomVillain: true }).filter(set => set.characters.find(c => c.isVillain).name !== AUTHORED_VILLAIN);
+        expect(turned.length).toBeGreaterThan(0);
+        for (const set of turned) {
+            const villain = set.characters.find(c => c.isVillain);
+            expect(set.script.confession).toBe(
+                `네, 제가 이영희 대리의 머그컵을 화분으로 바꿔놓았습니다. ${villain.personality} 성격 탓에 도저히 참을 수가 없었어요. 죄송합니다...`
+            );
+            expect(Object.keys(set.script.lines)).not.toContain(AUTHORED_VILLAIN);
+            expect(Object.keys(set.script.lines)).not.toContain(villain.name);
+            expect(set.evidence.clues.some(c => c.implicates === AUTHORED_VILLAIN)).toBe(false);
+            expect(set.evidence.clues.some(c => c.implicates === villain.name)).toBe(true);
+            expect(set.evidence.alibis[AUTHORED_VILLAIN]).not.toBe(scenario().evidence.alibis[AUTHORED_VILLAIN]);
+        }
+    });
+
+    it('leaves the confession alone when the sabotage has no "누군가" to turn around', () => {
+        const base = { ...scenario(), sabotage: '이영희 대리의 머그컵이 화분이 됐습니다.' };
+        const sets = Array.from({ length: 40 }, (_, seed) => assembleGameSet(base, [], { size: 0, randomVillain: true }, createRandom(seed)));
+        const turned = sets.find(set => set.characters.find(c => c.isVillain).name !== AUTHORED_VILLAIN);
+        expect(turned.script.confession).toMatch(/^네, 제가 그랬습니다\. /);
+    });
+});
+
+describe('scenarioIdOf', () => {
+    it('keeps an authored id and otherwise derives one from the sabotage', () => {
+        expect(scenarioIdOf({ ...scenario(), id: 'mug' })).toBe('mug');
+        expect(scenarioIdOf(scenario())).toMatch(/^scenario-[0-9a-z]+$/);
+        expect(scenarioIdOf(scenario())).not.toBe(scenarioIdOf(guests()));
+    });
+
+    it('gives every deal of a scenario the id of the scenario', () => {
+        const id = scenarioIdOf(scenario());
+        for (const set of dealMany({ size: 3, randomVillain: true })) {
+            expect(scenarioIdOf(set)).toBe(id);
+        }
+    });
+});
@@ -0,0 +1,204 @@
+import type { GameSet, PregeneratedCharacter, Evidence, ScenarioScript } from '../pregeneratedContent';
+import { hashString } from '../services/random';
+
+export const MIN_DRAWN_CAST = 4;
+export const MAX_DRAWN_CAST = 8;
+
+export interface CastOptions {
+    /** How many colleagues to deal, or 0 to keep the scenario's own cast size. */
+    size: number;
+    /** Pick the villain at random instead of using the one the scenario was written for. */
+    randomVillain: boolean;
+}
+
+export const DEFAULT_CAST_OPTIONS: CastOptions = { size: 0, randomVillain: true };
+
+/** Stand-in alibis for colleagues the scenario's evidence was not written for. */
+const GENERIC_ALIBIS = [
+    '아침부터 자리에서 밀린 메일을 정리하고 있었다고 한다.',
+    '사건 무렵 외부 미팅에서 막 돌아왔다고 한다.',
+    '탕비실에서 커피를 내리며 동료와 수다를 떨고 있었다고 한다.',
+    '회의실에서 화상 회의에 들어가 있었다고 한다.',
+    '자리에서 헤드폰을 끼고 보고서를 쓰고 있었다고 한다.',
+];
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/**
+ * A rough measure of how well someone suits the crime: words from their personality and
+ * position that also appear in the sabotage (e.g. "CEO에게 잘 보이고 싶은" for the CEO wallpaper).
+ * Only the first two characters of each word are compared, to get past Korean particles.
+ */
+const villainWeight = (character: PregeneratedCharacter, sabotage: string, authoredVillain: string): number => {
+    const words = `${character.personality} ${character.position}`.split(/\s+/).filter(w => w.length >= 2);
+    const hits = words.filter(w => sabotage.includes(w.slice(0, 2))).length;
+    return 1 + hits * 2 + (character.name === authoredVillain ? 1 : 0);
+};
+
+const pickWeighted = <T>(items: T[], weight: (item: T) => number, random: () => number): T => {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let roll = random() * total;
+    for (const item of items) {
+        roll -= weight(item);
+        if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+};
+
+/**
+ * Returns a rewrite for `texts` written for the scenario's own cast, so that every colleague
+ * they name is at the table: each one left out of the deal is swapped for a guest dealt in their
+ * place, or else for an innocent colleague the texts don't mention yet. Every text gets the same
+ * stand-ins, and the villain is never named this way.
+ */
+const recastFor = (texts: string[], base: GameSet, cast: PregeneratedCharacter[], villain: PregeneratedCharacter) => {
+    const all = texts.join('\n');
+    const names = cast.map(c => c.name);
+    const baseNames = new Set(base.characters.map(c => c.name));
+    const missing = base.characters.map(c => c.name).filter(name => !names.includes(name) && all.includes(name));
+    const spare = [
+        ...cast.filter(c => !baseNames.has(c.name)),
+        ...cast.filter(c => baseNames.has(c.name)),
+    ].filter(c => c.name !== villain.name && !all.includes(c.name)).map(c => c.name);
+    const standIns = missing.slice(0, spare.length).map((name, i) => [name, spare[i]]);
+    // Stand-ins are dealt colleagues and the missing ones weren't, so no swap undoes another.
+    return (text: string): string => standIns.reduce((result, [name, standIn]) => result.split(name).join(standIn), text);
+};
+
+/**
+ * The deed in the new villain's own words. The scenarios tell the sabotage as "누군가 ...습니다.",
+ * so its first sentence reads as a confession once "누군가" becomes "제가".
+ */
+const confessDeed = (sabotage: string): string => {
+    const deed = sabotage.split(/(?<=[.!?])\s+/)[0];
+    return deed.startsWith('누군가 ') ? `제가 ${deed.slice('누군가 '.length)}` : '제가 그랬습니다.';
+};
+
+/**
+ * Keeps the authored script only where it still fits: lines of colleagues from this scenario
+ * whose side hasn't changed. A new villain confesses to the sabotage in place of the authored
+ * confession, which would explain someone else's motive.
+ */
+const adaptScript = (
+    script: ScenarioScript | undefined,
+    names: string[],
+    changed: string[],
+    villain: PregeneratedCharacter,
+    villainChanged: boolean,
+    sabotage: string
+): ScenarioScript | undefined => {
+    if (!script) return undefined;
+    const lines = Object.fromEntries(Object.entries(script.lines).filter(([name]) => names.includes(name) && !changed.includes(name)));
+    const confession = villainChanged
+        ? `네, ${confessDeed(sabotage)} ${villain.personality} 성격 탓에 도저히 참을 수가 없었어요. 죄송합니다...`
+        : script.confession;
+    return { confession, lines };
+};
+
+/**
+ * Rewrites the evidence for the dealt cast. Clues about the authored villain go when the villain
+ * changes (they describe someone who is now innocent), while clues that were red herrings against
+ * the new villain now quietly point the right way. Colleagues without an alibi get a generic one,
+ * and if nothing points at the villain any more a sighting near their team's desks is added.
+ */
+const adaptEvidence = (
+    evidence: Evidence | undefined,
+    cast: PregeneratedCharacter[],
+    villain: PregeneratedCharacter,
+    authoredVillain: string,
+    random: () => number
+): Evidence | undefined => {
+    if (!evidence) return undefined;
+    const names = cast.map(c => c.name);
+    const villainChanged = villain.name !== authoredVillain;
+    const stale = villainChanged ? [authoredVillain, villain.name] : [];
+
+    const alibis: { [name: string]: string } = {};
+    cast.forEach(c => {
+        const authored = evidence.alibis[c.name];
+        alibis[c.name] = authored && !stale.includes(c.name)
+            ? authored
+            : GENERIC_ALIBIS[hashString(c.name) % GENERIC_ALIBIS.length];
+    });
+
+    const clues = evidence.clues
+        .map(c => ({ ...c, knownBy: c.knownBy.filter(n => names.includes(n)) }))
+        .filter(c => c.knownBy.length > 0
+            && (!c.implicates || (names.includes(c.implicates) && !(villainChanged && c.implicates === authoredVillain))));
+
+    if (!clues.some(c => c.implicates === villain.name)) {
+        const witnesses = cast.filter(c => c.name !== villain.name);
+        clues.push({
+            id: `sighting-${hashString(villain.name).toString(36)}`,
+            kind: 'timeline',
+            time: '사건 직전',
+            text: `사건 직전, ${villain.position} 쪽 자리의 누군가가 현장 근처를 서성이는 것이 목격됐다.`,
+            knownBy: [witnesses[Math.floor(random() * witnesses.length)].name],
+            keywords: ['사건 직전', '현장', '목격', '봤', '서성', villain.position],
+            implicates: villain.name,
+        });
+    }
+    return { alibis, clues };
+};
+
+/**
+ * The scenario a game set was dealt from: its own `id`, or one derived from the sabotage as it
+ * was authored. A dealt set carries the id of its scenario, since recasting rewrites the text.
+ */
+export const scenarioIdOf = (set: GameSet): string => set.id ?? `scenario-${hashString(set.sabotage).toString(36)}`;
+
+/**
+ * Deals a cast for `base` from the scenario's own colleagues topped up from the `pool`, picks the
+ * villain (weighted by how well they suit the crime) and adapts the case material to match,
+ * down to the sabotage and the confession naming only colleagues who were dealt.
+ * Returns `base` itself when the options ask for the scenario as written.
+ */
+export const assembleGameSet = (
+    base: GameSet,
+    pool: GameSet[],
+    options: CastOptions,
+    random: () => number = Math.random
+): GameSet => {
+    const authoredVillain = base.characters.find(c => c.isVillain)?.name ?? '';
+    const size = options.size > 0 ? options.size : base.characters.length;
+    if (!options.randomVillain && size === base.characters.length) return base;
+
+    // The scenario's own colleagues come first, since they are the ones drawn in the scene.
+    const own = shuffle(base.characters, random);
+    const mustKeep = options.randomVillain ? [] : own.filter(c => c.isVillain);
+    const baseNames = new Set(base.characters.map(c => c.name));
+    const guests = shuffle(
+        pool.flatMap(set => set.characters).filter((c, i, all) => !baseNames.has(c.name) && all.findIndex(o => o.name === c.name) === i),
+        random
+    );
+    const drawn = [...mustKeep, ...own.filter(c => !mustKeep.includes(c)), ...guests].slice(0, size);
+
+    const villain = options.randomVillain
+        ? pickWeighted(drawn, c => villainWeight(c, base.sabotage, authoredVillain), random)
+        : drawn.find(c => c.isVillain)!;
+    const cast = shuffle(drawn, random).map(c => ({ ...c, isVillain: c.name === villain.name }));
+    const villainChanged = villain.name !== authoredVillain;
+    // Guests bring lines written for another case, and anyone whose side flipped would speak out of character.
+    const changed = [...cast.filter(c => !baseNames.has(c.name)).map(c => c.name), ...(villainChanged ? [authoredVillain, villain.name] : [])];
+    const recast = recastFor([base.sabotage, base.script?.confession ?? ''], base, cast, villain);
+    const sabotage = recast(base.sabotage);
+    const authored = adaptScript(base.script, cast.map(c => c.name), changed, villain, villainChanged, sabotage);
+    const script = authored && { ...authored, confession: recast(authored.confession) };
+
+    return {
+        id: scenarioIdOf(base),
+        sabotage,
+        sceneImageUrl: base.sceneImageUrl,
+        characters: cast,
+        sceneCast: cast.filter(c => baseNames.has(c.name) && (!base.sceneCast || base.sceneCast.includes(c.name))).map(c => c.name),
+        ...(script ? { script } : {}),
+        ...(base.evidence ? { evidence: adaptEvidence(base.evidence, cast, villain, authoredVillain, random) } : {}),
+    };
+};
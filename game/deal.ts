@@ -0,0 +1,49 @@
+import type { Character } from '../types';
+import type { GameSet } from '../pregeneratedContent';
+import type { CaseSetup } from './caseCode';
+import { assembleGameSet } from './cast';
+import { createCharacters } from './engine';
+import { getKnownEvidence } from './evidence';
+import { getHumans, pickHumanSeats } from './hotSeat';
+import { ROLES, initialRoleState, assignRoles, createRumor, RoleState } from './roles';
+import { getVillainBriefing } from './villainMode';
+
+export interface DealtCase {
+    gameSet: GameSet;
+    characters: Character[];
+    roleState: RoleState;
+}
+
+/**
+ * Deals a game from a picked scenario: the cast (unless `dealCast` is off, as for a playtest),
+ * the people's seats, the roles and the gossip's rumour. Draws from `random` in a fixed order,
+ * so a seeded generator deals the same game every time.
+ */
+export const dealCase = (base: GameSet, pool: GameSet[], setup: CaseSetup, random: () => number, dealCast: boolean = true): DealtCase => {
+    const gameSet = dealCast ? assembleGameSet(base, pool, setup.cast, random) : base;
+    const cast = gameSet.characters;
+    const villainIndex = cast.findIndex(c => c.isVillain);
+    const playerIndexes = pickHumanSeats(cast.length, setup.players, random,
+        setup.roles.playAsVillain && setup.players === 1 && villainIndex >= 0 ? villainIndex : null);
+    const characters = createCharacters(cast, playerIndexes, assignRoles(cast, playerIndexes, setup.roles, random));
+    return { gameSet, characters, roleState: { ...initialRoleState, rumor: createRumor(characters, random) } };
+};
+
+/**
+ * The private lines a person reads before the game starts. When several people share the game,
+ * they are numbered, and what only their character saw is included because the shared case
+ * notes can't hold it.
+ */
+export const getBriefingLines = (human: Character, { gameSet, characters, roleState }: DealtCase): string[] => {
+    const humans = getHumans(characters);
+    const isShared = humans.length > 1;
+    const accomplice = characters.find(c => c.role === 'accomplice');
+    return [
+        `${isShared ? `플레이어 ${humans.indexOf(human) + 1}, ` : ''}당신은 이 게임의 주인공, ${human.name}입니다.`,
+        `[${ROLES[human.role].label}] ${ROLES[human.role].briefing}`,
+        ...(human.role === 'villain' ? getVillainBriefing(human, gameSet.script, gameSet.evidence) : []),
+        ...(human.role === 'villain' && accomplice ? [`당신의 공범은 ${accomplice.name}입니다.`] : []),
+        ...(human.role === 'gossip' && roleState.rumor ? [`🤫 탕비실 소문: 범인은 ${roleState.rumor.join(' 아니면 ')}(이)라던데...`] : []),
+        ...(isShared ? getKnownEvidence(gameSet.evidence, human.name).clues.map(c => `👀 당신만 아는 것: ${c.text}`) : []),
+    ];
+};
@@ -0,0 +1,76 @@
+import type { Character } from '../types';
+import { isVillainSide } from './roles';
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultyPreset {
+    label: string;
+    /** One line for the welcome screen. */
+    description: string;
+    /** Added to the villain's role instructions in the LLM prompts. */
+    villainGuidance: string;
+    /** Added to an innocent AI colleague's voting instructions. */
+    voterGuidance: string;
+    /**
+     * Nudges how suspicious the villain's side looks to innocent AI voters in the offline
+     * provider: positive gives them away, negative hides them.
+     */
+    villainExposure: number;
+    /** Clues that can be drawn out of colleagues by questioning; `null` for no limit. */
+    clueReveals: number | null;
+    /** The round limit the preset sets in the vote rules; 0 for none. */
+    roundLimit: number;
+}
+
+export const DIFFICULTIES: { [key in Difficulty]: DifficultyPreset } = {
+    easy: {
+        label: '쉬움',
+        description: '빌런이 실수를 흘리고, 동료들의 투표도 날카롭습니다.',
+        villainGuidance: 'You are a clumsy liar: now and then let a small detail slip that contradicts your story, and get visibly flustered when pressed.',
+        voterGuidance: 'Weigh the uncovered evidence carefully and notice contradictions in what people have said; you are a sharp judge of character.',
+        villainExposure: 2,
+        clueReveals: null,
+        roundLimit: 0,
+    },
+    normal: {
+        label: '보통',
+        description: '기본 난이도입니다.',
+        villainGuidance: '',
+        voterGuidance: '',
+        villainExposure: 0,
+        clueReveals: null,
+        roundLimit: 0,
+    },
+    hard: {
+        label: '어려움',
+        description: '빌런이 빈틈없이 거짓말하고, 캐낼 수 있는 단서와 라운드가 제한됩니다.',
+        villainGuidance: 'You are a careful, convincing liar: keep every detail of your story consistent, stay calm under pressure, and steer suspicion with plausible observations rather than open accusations.',
+        voterGuidance: 'You are easily swayed by whoever sounds most confident and by the latest accusation, and you tend to overlook subtle evidence.',
+        villainExposure: -1,
+        clueReveals: 2,
+        roundLimit: 5,
+    },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+/** The preset for `difficulty`, falling back to normal for games saved before difficulty existed. */
+export const getDifficulty = (difficulty: Difficulty | undefined): DifficultyPreset => DIFFICULTIES[difficulty ?? DEFAULT_DIFFICULTY];
+
+/**
+ * The preset that decides how sharp the innocent AI colleagues are. Presets are written for
+ * someone hunting the villain; when everyone at the table is on the villain's side, easy and
+ * hard swap so that easy still means colleagues who are easier to fool.
+ */
+export const getVoterDifficulty = (difficulty: Difficulty | undefined, characters: Character[]): DifficultyPreset => {
+    const humans = characters.filter(c => c.isPlayer);
+    const level = difficulty ?? DEFAULT_DIFFICULTY;
+    if (humans.length === 0 || !humans.every(isVillainSide)) return DIFFICULTIES[level];
+    return DIFFICULTIES[level === 'easy' ? 'hard' : level === 'hard' ? 'easy' : level];
+};
+
+/** The briefing line that tells everyone what they are in for. */
+export const describeDifficulty = (difficulty: Difficulty): string => {
+    const { label, description } = DIFFICULTIES[difficulty];
+    return `🎚️ 난이도: ${label} — ${description}`;
+};
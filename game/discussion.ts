@@ -0,0 +1,75 @@
+import type { Character, Message } from '../types';
+import type { MemoryBank } from './memory';
+import { isVillainSide } from './roles';
+import { hashString } from '../services/random';
+
+/**
+ * How long each round's discussion may run before the vote opens by itself. Chosen on the
+ * welcome screen and kept with the game, like the vote rules.
+ */
+export interface DiscussionLimits {
+    /** Seconds of discussion per round; 0 for no timer. */
+    seconds: number;
+    /** Questions the people may ask per round, all of them together; 0 for no limit. */
+    questions: number;
+}
+
+export const DEFAULT_DISCUSSION_LIMITS: DiscussionLimits = { seconds: 0, questions: 0 };
+
+export const DISCUSSION_SECONDS = [0, 60, 120, 180, 300];
+export const DISCUSSION_QUESTIONS = [0, 3, 5, 8, 10];
+
+/** The colleagues start pressing for a decision with this many seconds left. */
+export const HURRY_SECONDS = 20;
+
+/** Why the discussion is (nearly) over. */
+export type DiscussionLimit = 'time' | 'questions';
+
+/** `m:ss`, as shown on the countdown. */
+export const formatCountdown = (seconds: number): string =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/** Questions left this round, or `null` without a budget. */
+export const questionsLeftOf = (limits: DiscussionLimits, asked: number): number | null =>
+    limits.questions > 0 ? Math.max(0, limits.questions - asked) : null;
+
+/** Which limit is close enough that the colleagues should say so, if any. */
+export const limitRunningOut = (secondsLeft: number | null, questionsLeft: number | null): DiscussionLimit | null =>
+    secondsLeft !== null && secondsLeft <= HURRY_SECONDS ? 'time' : questionsLeft === 1 ? 'questions' : null;
+
+/** Which limit has run out, if any. */
+export const limitReached = (secondsLeft: number | null, questionsLeft: number | null): DiscussionLimit | null =>
+    secondsLeft === 0 ? 'time' : questionsLeft === 0 ? 'questions' : null;
+
+/** Announces the end of the discussion when a limit opens the vote. */
+export const narrateDiscussionOver = (limit: DiscussionLimit): string =>
+    limit === 'time' ? '⏰ 토론 시간이 끝났습니다. 투표를 시작합니다!' : '⏰ 이번 라운드의 질문을 모두 썼습니다. 투표를 시작합니다!';
+
+/**
+ * One colleague's nudge as a limit draws near: innocents name whoever they suspect most, and
+ * the villain's side steers towards an innocent. Scripted rather than generated, so a warning
+ * costs no extra AI call. `speakers` are the colleagues free to talk this round.
+ */
+export const createHurryRemark = (
+    speakers: Character[],
+    characters: Character[],
+    memories: MemoryBank,
+    round: number,
+    limit: DiscussionLimit
+): Message | null => {
+    const candidates = speakers.filter(c => c.status === 'active' && !c.isPlayer);
+    if (candidates.length === 0) return null;
+    const speaker = candidates[hashString(`hurry:${round}:${limit}`) % candidates.length];
+    const suspicion = memories[speaker.name]?.suspicion ?? {};
+    const target = characters
+        .filter(c => c.status === 'active' && c.name !== speaker.name && (!isVillainSide(speaker) || !isVillainSide(c)))
+        .filter(c => (suspicion[c.name] ?? 0) > 0)
+        .sort((a, b) => suspicion[b.name] - suspicion[a.name])[0];
+    const opener = limit === 'time' ? '벌써 시간이 얼마 안 남았어요.' : '이제 질문 하나 정도밖에 못 하겠네요.';
+    const text = !target
+        ? `${opener} 슬슬 누구를 지목할지 정해야 해요.`
+        : isVillainSide(speaker)
+            ? `${opener} 더 끌 것 없이 ${target.name}님으로 정리하는 게 어때요?`
+            : `${opener} 저는 아직 ${target.name}님이 제일 마음에 걸려요.`;
+    return { sender: speaker.name, text };
+};
@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import type { Character, Role, Vote } from '../types';
+import { gameReducer, initialEngineState, resolveBallot, ballotResolved, ballotContextOf, BallotContext, EngineState } from './engine';
+import { DEFAULT_VOTE_RULES, VoteRules } from './voteRules';
+
+const person = (name: string, role: Role = 'employee', isPlayer = false): Character => ({
+    name,
+    position: '사원',
+    personality: '',
+    role,
+    status: 'active',
+    imageUrl: null,
+    isPlayer,
+    votes: 0,
+    visualDescription: '',
+});
+
+/** The player, the villain and four more colleagues. */
+const office = (): Character[] => [
+    person('나', 'employee', true),
+    person('빌런', 'villain'),
+    person('가', 'employee'),
+    person('나래', 'employee'),
+    person('다', 'employee'),
+    person('라', 'employee'),
+];
+
+const vote = (voter: string, votedFor: string | null): Vote => ({ voter, votedFor });
+
+const context = (rules: Partial<VoteRules> = {}, extra: Partial<BallotContext> = {}): BallotContext =>
+    ({ rules: { ...DEFAULT_VOTE_RULES, ...rules }, round: 1, runoff: null, ...extra });
+
+describe('resolveBallot', () => {
+    it('fires the most-voted colleague under plurality', () => {
+        const result = resolveBallot(office(), [vote('나', '가'), vote('빌런', '가'), vote('나래', '다')], context());
+        expect(result.outcome).toEqual({ kind: 'innocent_fired', votedOut: '가' });
+        expect(result.winner).toBeNull();
+        expect(result.nextPhase).toBe('night');
+        expect(result.tally['가']).toBe(2);
+    });
+
+    it('needs more than half of the voters under majority', () => {
+        const votes = [vote('나', '가'), vote('빌런', '가'), vote('나래', '다')];
+        const result = resolveBallot(office(), votes, context({ threshold: 'majority', runoff: false }));
+        expect(result.outcome).toEqual({ kind: 'undecided', reason: 'no_majority', candidates: ['가'] });
+        expect(result.nextPhase).toBe('night');
+
+        const decisive = [...votes, vote('다', '가'), vote('라', '가')];
+        expect(resolveBallot(office(), decisive, context({ threshold: 'majority' })).outcome.kind).toBe('innocent_fired');
+    });
+
+    it('sends a tie to a runoff between the leaders', () => {
+        const result = resolveBallot(office(), [vote('나', '가'), vote('빌런', '다')], context());
+        expect(result.outcome).toEqual({ kind: 'runoff', reason: 'tie', candidates: ['가', '다'] });
+        expect(result.nextPhase).toBe('voting');
+        expect(result.winner).toBeNull();
+    });
+
+    it('does not hold a second runoff when the runoff ties', () => {
+        const votes = [vote('나', '가'), vote('빌런', '다')];
+        const carryOn = resolveBallot(office(), votes, context({}, { runoff: ['가', '다'] }));
+        expect(carryOn.outcome).toEqual({ kind: 'undecided', reason: 'tie', candidates: ['가', '다'] });
+        expect(carryOn.nextPhase).toBe('night');
+
+        const escape = resolveBallot(office(), votes, context({ onUndecided: 'villain_wins' }, { runoff: ['가', '다'] }));
+        expect(escape.winner).toBe('villain');
+        expect(escape.nextPhase).toBe('game_over_loss');
+    });
+
+    it('fires nobody when everyone abstains', () => {
+        const votes = [vote('나', null), vote('빌런', null)];
+        const result = resolveBallot(office(), votes, context());
+        expect(result.outcome).toEqual({ kind: 'undecided', reason: 'no_votes', candidates: [] });
+        expect(result.nextPhase).toBe('night');
+        expect(resolveBallot(office(), [], context({ onUndecided: 'villain_wins' })).winner).toBe('villain');
+    });
+
+    it('ends the game once too few citizens remain, down to one against one', () => {
+        const characters = [person('나', 'employee', true), person('빌런', 'villain'), person('가')];
+        const result = resolveBallot(characters, [vote('나', '가'), vote('빌런', '가')], context());
+        expect(result.outcome).toEqual({ kind: 'villain_survives', votedOut: '가', remainingCount: 2 });
+        expect(result.winner).toBe('villain');
+        expect(result.nextPhase).toBe('game_over_loss');
+
+        expect(resolveBallot(characters, [vote('나', '가'), vote('빌런', '가')], context({ minCitizens: 1 })).winner).toBeNull();
+    });
+
+    it('lets the villain win once the round limit is reached', () => {
+        const votes = [vote('나', '가'), vote('빌런', '가')];
+        expect(resolveBallot(office(), votes, context({ roundLimit: 3 }, { round: 2 })).winner).toBeNull();
+        const result = resolveBallot(office(), votes, context({ roundLimit: 3 }, { round: 3 }));
+        expect(result.outcome).toEqual({ kind: 'out_of_rounds', votedOut: '가' });
+        expect(result.winner).toBe('villain');
+    });
+
+    it('carries on after an accomplice is fired', () => {
+        const characters = [...office(), person('공범', 'accomplice')];
+        const result = resolveBallot(characters, [vote('나', '공범'), vote('가', '공범')], context());
+        expect(result.outcome).toEqual({ kind: 'accomplice_fired', votedOut: '공범' });
+        expect(result.winner).toBeNull();
+    });
+
+    it('wins for the citizens when the villain is caught', () => {
+        const result = resolveBallot(office(), [vote('나', '빌런'), vote('가', '빌런')], context());
+        expect(result.outcome).toEqual({ kind: 'villain_caught', votedOut: '빌런' });
+        expect(result.winner).toBe('citizens');
+        expect(result.nextPhase).toBe('game_over_win');
+    });
+
+    it('ends the game when the player is fired, but not while another person plays on', () => {
+        const votes = [vote('빌런', '나'), vote('가', '나')];
+        const alone = resolveBallot(office(), votes, context());
+        expect(alone.outcome).toEqual({ kind: 'player_fired', votedOut: '나' });
+        expect(alone.winner).toBe('villain');
+
+        const hotSeat = office().map(c => (c.name === '가' ? { ...c, isPlayer: true } : c));
+        const result = resolveBallot(hotSeat, votes, context());
+        expect(result.outcome).toEqual({ kind: 'innocent_fired', votedOut: '나' });
+        expect(result.winner).toBeNull();
+    });
+});
+
+describe('gameReducer', () => {
+    const started = (rules: Partial<VoteRules> = {}): EngineState => {
+        const setup = gameReducer(initialEngineState, { type: 'setup_started' });
+        const briefing = gameReducer(setup, { type: 'game_started', characters: office(), rules: { ...DEFAULT_VOTE_RULES, ...rules } });
+        return gameReducer(briefing, { type: 'discussion_started' });
+    };
+
+    const castVotes = (state: EngineState, votes: Vote[]): EngineState =>
+        votes.reduce((next, v) => gameReducer(next, { type: 'vote_cast', vote: v }), state);
+
+    /** Resolves the ballot the way the round does, from the votes as read out. */
+    const resolved = (state: EngineState): EngineState =>
+        gameReducer(state, ballotResolved(state.characters, state.votes, ballotContextOf(state)));
+
+    it('runs a ballot from the vote into the night and back to the discussion', () => {
+        let state = started();
+        expect(state.phase).toBe('discussion');
+        state = gameReducer(state, { type: 'voting_opened' });
+        expect(state.phase).toBe('voting');
+        state = gameReducer(state, { type: 'ballot_started' });
+        expect(state.phase).toBe('reveal');
+
+        state = castVotes(state, [vote('나', '가'), vote('빌런', '가'), vote('나래', '다')]);
+        expect(state.votes).toHaveLength(3);
+        expect(state.characters.find(c => c.name === '가').votes).toBe(2);
+
+        state = resolved(state);
+        expect(state.result.outcome).toEqual({ kind: 'innocent_fired', votedOut: '가' });
+        expect(state.characters.find(c => c.name === '가').status).toBe('voted_out');
+        expect(state.ballots).toEqual([{ round: 1, votes: state.votes, votedOut: '가' }]);
+
+        state = gameReducer(state, { type: 'round_concluded' });
+        expect(state.phase).toBe('night');
+        expect(state.round).toBe(2);
+        expect(state.votes).toEqual([]);
+
+        state = gameReducer(state, { type: 'night_ended', incident: null });
+        expect(state.phase).toBe('discussion');
+        expect(state.incidents).toEqual([]);
+    });
+
+    it('ignores invalid and repeated votes', () => {
+        let state = gameReducer(gameReducer(started(), { type: 'voting_opened' }), { type: 'ballot_started' });
+        state = castVotes(state, [vote('나', '나'), vote('나', '가'), vote('나', '다'), vote('없음', '가')]);
+        expect(state.votes).toEqual([vote('나', '가')]);
+    });
+
+    it('records the ballot as counted when it differs from the votes read out', () => {
+        let state = gameReducer(gameReducer(started(), { type: 'voting_opened' }), { type: 'ballot_started' });
+        state = castVotes(state, [vote('나', '가'), vote('빌런', '가'), vote('나래', '다')]);
+        const counted = [vote('나', '다'), vote('빌런', '다')];
+        state = gameReducer(state, ballotResolved(state.characters, counted, ballotContextOf(state)));
+
+        expect(state.votes).toEqual(counted);
+        expect(state.result.outcome).toEqual({ kind: 'innocent_fired', votedOut: '다' });
+        expect(state.ballots).toEqual([{ round: 1, votes: counted, votedOut: '다' }]);
+        expect(state.characters.find(c => c.name === '다')).toMatchObject({ votes: 2, status: 'voted_out' });
+        expect(state.characters.find(c => c.name === '가')).toMatchObject({ votes: 0, status: 'active' });
+    });
+
+    it('ignores votes outside the reveal', () => {
+        const state = started();
+        expect(gameReducer(state, { type: 'vote_cast', vote: vote('나', '가') })).toBe(state);
+        expect(resolved(state)).toBe(state);
+    });
+
+    it('goes back to the vote when a ballot is cancelled', () => {
+        let state = gameReducer(gameReducer(started(), { type: 'voting_opened' }), { type: 'ballot_started' });
+        state = castVotes(state, [vote('나', '가')]);
+        state = gameReducer(state, { type: 'ballot_cancelled' });
+        expect(state.phase).toBe('voting');
+        expect(state.votes).toEqual([]);
+        expect(state.characters.every(c => c.votes === 0)).toBe(true);
+    });
+
+    it('reopens the vote between the finalists after a tie', () => {
+        let state = gameReducer(gameReducer(started(), { type: 'voting_opened' }), { type: 'ballot_started' });
+        state = resolved(castVotes(state, [vote('나', '가'), vote('빌런', '다')]));
+        state = gameReducer(state, { type: 'round_concluded' });
+        expect(state.phase).toBe('voting');
+        expect(state.runoff).toEqual(['가', '다']);
+        expect(state.round).toBe(1);
+
+        state = gameReducer(state, { type: 'ballot_started' });
+        state = castVotes(state, [vote('나', '라'), vote('빌런', '가')]);
+        expect(state.votes).toEqual([vote('빌런', '가')]);
+    });
+
+    it('ends the game when the villain is caught', () => {
+        let state = gameReducer(gameReducer(started(), { type: 'voting_opened' }), { type: 'ballot_started' });
+        state = resolved(castVotes(state, [vote('나', '빌런'), vote('가', '빌런')]));
+        state = gameReducer(state, { type: 'round_concluded' });
+        expect(state.phase).toBe('game_over_win');
+    });
+});
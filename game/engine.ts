@@ -0,0 +1,360 @@
+import type { Character, GameState, Role, Vote } from '../types';
+import type { PregeneratedCharacter } from '../pregeneratedContent';
+import { isVillainSide, teamOf, Team } from './roles';
+import type { NightIncident } from './night';
+import { DEFAULT_VOTE_RULES, isDecisive, VoteRules } from './voteRules';
+import { DEFAULT_DISCUSSION_LIMITS, DiscussionLimits } from './discussion';
+
+export type Winner = Team;
+
+/** Why a ballot fired nobody. */
+export type UndecidedReason = 'tie' | 'no_votes' | 'no_majority';
+
+export type VoteOutcome =
+    | { kind: 'undecided'; reason: UndecidedReason; candidates: string[] }
+    | { kind: 'runoff'; reason: Exclude<UndecidedReason, 'no_votes'>; candidates: string[] }
+    | { kind: 'out_of_rounds'; votedOut: string | null }
+    | { kind: 'villain_caught'; votedOut: string }
+    | { kind: 'player_fired'; votedOut: string }
+    | { kind: 'villain_survives'; votedOut: string; remainingCount: number }
+    | { kind: 'accomplice_fired'; votedOut: string }
+    | { kind: 'innocent_fired'; votedOut: string };
+
+export interface BallotResult {
+    outcome: VoteOutcome;
+    tally: { [name: string]: number };
+    /** The winning side, or `null` when the game goes on to another round. */
+    winner: Winner | null;
+    nextPhase: GameState;
+}
+
+/** A settled ballot, kept for the end-of-game summary. */
+export interface BallotRecord {
+    round: number;
+    votes: Vote[];
+    /** Who was fired, or `null` after a tie or an empty ballot. */
+    votedOut: string | null;
+}
+
+export interface EngineState {
+    phase: GameState;
+    characters: Character[];
+    round: number;
+    /** Votes cast so far in the current ballot. */
+    votes: Vote[];
+    /** Set once the current ballot has been resolved, cleared when the round concludes. */
+    result: BallotResult | null;
+    /** What the villain did each night, oldest first. */
+    incidents: NightIncident[];
+    /** Every settled ballot, oldest first. */
+    ballots: BallotRecord[];
+    rules: VoteRules;
+    limits: DiscussionLimits;
+    /** Questions the people have asked in this round's discussion. */
+    questionsAsked: number;
+    /** The only names that can be voted for while a runoff is under way. */
+    runoff: string[] | null;
+}
+
+/** What a ballot needs to know beyond the votes themselves. */
+export interface BallotContext {
+    rules: VoteRules;
+    round: number;
+    runoff: string[] | null;
+}
+
+export type EngineAction =
+    | { type: 'setup_started' }
+    | { type: 'setup_failed' }
+    | { type: 'game_started'; characters: Character[]; rules?: VoteRules; limits?: DiscussionLimits }
+    | { type: 'game_restored'; state: EngineState }
+    | { type: 'discussion_started' }
+    | { type: 'question_asked' }
+    | { type: 'voting_opened' }
+    | { type: 'ballot_started' }
+    | { type: 'vote_cast'; vote: Vote }
+    /** The ballot as counted and the result worked out from it; build it with `ballotResolved`. */
+    | { type: 'ballot_resolved'; votes: Vote[]; result: BallotResult }
+    | { type: 'ballot_cancelled' }
+    | { type: 'round_concluded' }
+    | { type: 'night_ended'; incident: NightIncident | null }
+    | { type: 'reset' };
+
+export const initialEngineState: EngineState = {
+    phase: 'welcome',
+    characters: [],
+    round: 1,
+    votes: [],
+    result: null,
+    incidents: [],
+    ballots: [],
+    rules: DEFAULT_VOTE_RULES,
+    limits: DEFAULT_DISCUSSION_LIMITS,
+    questionsAsked: 0,
+    runoff: null,
+};
+
+export const getPlayer = (characters: Character[]): Character | null =>
+    characters.find(c => c.isPlayer) ?? null;
+
+export const getVillain = (characters: Character[]): Character | null =>
+    characters.find(c => c.role === 'villain') ?? null;
+
+/**
+ * Turns a pre-generated cast into in-game characters with the humans seated at `playerIndexes`.
+ * Without dealt `roles`, the scenario's villain is the only special role.
+ */
+export const createCharacters = (
+    cast: PregeneratedCharacter[],
+    playerIndexes: number[],
+    roles: Role[] = cast.map(c => (c.isVillain ? 'villain' : 'employee'))
+): Character[] =>
+    cast.map(({ isVillain: _isVillain, ...c }, index) => ({
+        ...c,
+        role: roles[index],
+        status: 'active',
+        isPlayer: playerIndexes.includes(index),
+        votes: 0,
+    }));
+
+export const ballotContextOf = (state: EngineState): BallotContext =>
+    ({ rules: state.rules, round: state.round, runoff: state.runoff });
+
+/**
+ * A vote counts when an active character names another active character (one of the finalists,
+ * during a runoff) or abstains.
+ */
+export const isValidVote = (characters: Character[], vote: Vote, runoff: string[] | null = null): boolean => {
+    const voter = characters.find(c => c.name === vote.voter);
+    if (!voter || voter.status !== 'active') return false;
+    if (vote.votedFor === null) return true;
+    const target = characters.find(c => c.name === vote.votedFor);
+    return !!target && target.status === 'active' && voter.name !== target.name
+        && (!runoff || runoff.includes(target.name));
+};
+
+/**
+ * Keeps only valid AI votes, at most one per active AI character.
+ */
+export const validateAiVotes = (characters: Character[], votes: Vote[], runoff: string[] | null = null): Vote[] => {
+    const activeAiVoters = new Set(characters.filter(c => c.status === 'active' && !c.isPlayer).map(c => c.name));
+    const seenVoters = new Set<string>();
+
+    return votes.filter(vote => {
+        if (activeAiVoters.has(vote.voter) && !seenVoters.has(vote.voter) && isValidVote(characters, vote, runoff)) {
+            seenVoters.add(vote.voter);
+            return true;
+        }
+        return false;
+    });
+};
+
+export const tallyVotes = (characters: Character[], votes: Vote[]): { [name: string]: number } => {
+    const tally: { [name: string]: number } = {};
+    characters.forEach(c => { tally[c.name] = 0; });
+    votes.filter(vote => vote.votedFor !== null).forEach(vote => { tally[vote.votedFor] = (tally[vote.votedFor] || 0) + 1; });
+    return tally;
+};
+
+/**
+ * Maps the winning side to the end screen from the player's point of view. In a hot-seat game
+ * that is the first seat's; each person's own result is listed on the end screen.
+ */
+export const phaseForWinner = (winner: Winner, player: Character | null): GameState => {
+    const playerSide: Winner = player ? teamOf(player) : 'citizens';
+    return winner === playerSide ? 'game_over_win' : 'game_over_loss';
+};
+
+/**
+ * Applies the round rules to a finished ballot. Firing the villain wins for the citizens; firing
+ * anyone else either ends the game (the player was fired, too few citizens remain, or the round
+ * limit is reached) or sends the office into the night before another round. A ballot that fires
+ * nobody goes to a runoff, carries on, or lets the villain escape, as the rules say.
+ */
+export const resolveBallot = (characters: Character[], votes: Vote[], { rules, round, runoff }: BallotContext): BallotResult => {
+    const tally = tallyVotes(characters, votes);
+    const ranked = Object.keys(tally).filter(name => tally[name] > 0).sort((a, b) => tally[b] - tally[a]);
+    const top = ranked.length > 0 ? tally[ranked[0]] : 0;
+    const leaders = ranked.filter(name => tally[name] === top);
+    const voterCount = characters.filter(c => c.status === 'active').length;
+    const player = getPlayer(characters);
+
+    const finish = (outcome: VoteOutcome, winner: Winner): BallotResult =>
+        ({ outcome, tally, winner, nextPhase: phaseForWinner(winner, player) });
+    const carryOn = (outcome: VoteOutcome, votedOut: string | null): BallotResult =>
+        (rules.roundLimit > 0 && round >= rules.roundLimit
+            ? finish({ kind: 'out_of_rounds', votedOut }, 'villain')
+            : { outcome, tally, winner: null, nextPhase: 'night' });
+    const undecided = (reason: UndecidedReason): BallotResult => {
+        if (rules.runoff && !runoff && reason !== 'no_votes') {
+            const finalists = leaders.length > 1 ? leaders : ranked.slice(0, 2);
+            if (finalists.length >= 2) {
+                return { outcome: { kind: 'runoff', reason, candidates: finalists }, tally, winner: null, nextPhase: 'voting' };
+            }
+        }
+        const outcome: VoteOutcome = { kind: 'undecided', reason, candidates: leaders };
+        return rules.onUndecided === 'villain_wins' ? finish(outcome, 'villain') : carryOn(outcome, null);
+    };
+
+    if (leaders.length === 0) return undecided('no_votes');
+    if (leaders.length > 1) return undecided('tie');
+    if (!isDecisive(rules, top, voterCount)) return undecided('no_majority');
+
+    const votedOut = characters.find(c => c.name === leaders[0])!;
+    if (votedOut.role === 'villain') {
+        return finish({ kind: 'villain_caught', votedOut: votedOut.name }, 'citizens');
+    }
+    // In a hot-seat game the others play on; the game is lost only when the last person is out.
+    const humansLeft = characters.filter(c => c.isPlayer && c.status === 'active' && c.name !== votedOut.name);
+    if (votedOut.isPlayer && humansLeft.length === 0) {
+        return finish({ kind: 'player_fired', votedOut: votedOut.name }, 'villain');
+    }
+
+    const remaining = characters.filter(c => c.status === 'active' && c.name !== votedOut.name);
+    const citizenCount = remaining.filter(c => !isVillainSide(c)).length;
+    if (citizenCount < rules.minCitizens) {
+        return finish({ kind: 'villain_survives', votedOut: votedOut.name, remainingCount: remaining.length }, 'villain');
+    }
+    const outcome: VoteOutcome = votedOut.role === 'accomplice'
+        ? { kind: 'accomplice_fired', votedOut: votedOut.name }
+        : { kind: 'innocent_fired', votedOut: votedOut.name };
+    return carryOn(outcome, votedOut.name);
+};
+
+/** The `ballot_resolved` action for a counted ballot, with the result worked out from the same votes. */
+export const ballotResolved = (characters: Character[], votes: Vote[], context: BallotContext): Extract<EngineAction, { type: 'ballot_resolved' }> =>
+    ({ type: 'ballot_resolved', votes, result: resolveBallot(characters, votes, context) });
+
+export const votedOutName = (outcome: VoteOutcome): string | null =>
+    'votedOut' in outcome ? outcome.votedOut : null;
+
+/**
+ * The game's state machine. Actions that are not valid in the current phase are ignored,
+ * so the UI can dispatch freely without re-checking the rules.
+ */
+export const gameReducer = (state: EngineState, action: EngineAction): EngineState => {
+    switch (action.type) {
+        case 'setup_started':
+            return { ...initialEngineState, phase: 'setting_up' };
+
+        case 'setup_failed':
+            return state.phase === 'setting_up' ? initialEngineState : state;
+
+        case 'game_started':
+            if (state.phase !== 'setting_up') return state;
+            return {
+                ...initialEngineState,
+                phase: 'briefing',
+                characters: action.characters,
+                rules: action.rules ?? DEFAULT_VOTE_RULES,
+                limits: action.limits ?? DEFAULT_DISCUSSION_LIMITS,
+            };
+
+        case 'game_restored': {
+            if (state.phase !== 'welcome') return state;
+            const restored = action.state;
+            // A save taken mid-ballot cannot replay the reveal, so that ballot is re-opened.
+            if (restored.phase === 'reveal' || restored.phase === 'setting_up') {
+                return {
+                    ...restored,
+                    phase: restored.phase === 'reveal' ? 'voting' : 'briefing',
+                    votes: [],
+                    result: null,
+                    characters: restored.characters.map(c => ({ ...c, votes: 0 })),
+                };
+            }
+            return restored;
+        }
+
+        case 'discussion_started':
+            return state.phase === 'briefing' ? { ...state, phase: 'discussion' } : state;
+
+        case 'question_asked':
+            return state.phase === 'discussion' ? { ...state, questionsAsked: state.questionsAsked + 1 } : state;
+
+        case 'voting_opened':
+            return state.phase === 'discussion' ? { ...state, phase: 'voting' } : state;
+
+        case 'ballot_started':
+            return state.phase === 'voting' ? { ...state, phase: 'reveal', votes: [], result: null } : state;
+
+        case 'vote_cast': {
+            const { vote } = action;
+            if (state.phase !== 'reveal' || state.result) return state;
+            if (!isValidVote(state.characters, vote, state.runoff) || state.votes.some(v => v.voter === vote.voter)) return state;
+            return {
+                ...state,
+                votes: [...state.votes, vote],
+                characters: state.characters.map(c => c.name === vote.votedFor ? { ...c, votes: (c.votes || 0) + 1 } : c),
+            };
+        }
+
+        case 'ballot_resolved': {
+            if (state.phase !== 'reveal' || state.result) return state;
+            // The counted votes replace the ones read out, so the record, the tallies and the result agree.
+            const { votes, result } = action;
+            const firedName = votedOutName(result.outcome);
+            return {
+                ...state,
+                votes,
+                result,
+                ballots: [...state.ballots, { round: state.round, votes, votedOut: firedName }],
+                characters: state.characters.map(c => ({
+                    ...c,
+                    votes: result.tally[c.name] ?? 0,
+                    status: c.name === firedName ? 'voted_out' : c.status,
+                })),
+            };
+        }
+
+        case 'ballot_cancelled':
+            if (state.phase !== 'reveal') return state;
+            return {
+                ...state,
+                // Back to the vote, runoff or not, so the same ballots can be counted again.
+                phase: 'voting',
+                votes: [],
+                result: null,
+                characters: state.characters.map(c => ({ ...c, votes: 0 })),
+            };
+
+        case 'round_concluded': {
+            if (state.phase !== 'reveal' || !state.result) return state;
+            if (state.result.winner) {
+                return { ...state, phase: state.result.nextPhase };
+            }
+            const { outcome } = state.result;
+            if (outcome.kind === 'runoff') {
+                return {
+                    ...state,
+                    phase: 'voting',
+                    runoff: outcome.candidates,
+                    votes: [],
+                    result: null,
+                    characters: state.characters.map(c => ({ ...c, votes: 0 })),
+                };
+            }
+            return {
+                ...state,
+                phase: state.result.nextPhase,
+                runoff: null,
+                round: state.round + 1,
+                questionsAsked: 0,
+                votes: [],
+                result: null,
+                characters: state.characters.map(c => ({ ...c, votes: 0 })),
+            };
+        }
+
+        case 'night_ended':
+            if (state.phase !== 'night') return state;
+            return {
+                ...state,
+                phase: 'discussion',
+                incidents: action.incident ? [...state.incidents, action.incident] : state.incidents,
+            };
+
+        case 'reset':
+            return initialEngineState;
+    }
+};
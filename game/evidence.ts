@@ -0,0 +1,129 @@
+import type { Character } from '../types';
+import type { Clue, Evidence } from '../pregeneratedContent';
+import { mentionsCharacter } from './names';
+import { isVillainSide } from './roles';
+
+/** Questions about whereabouts make the addressed colleagues state their alibi. */
+const WHEREABOUTS_KEYWORDS = ['어디', '알리바이', '뭐 하', '뭐하', '그때', '그 시간'];
+/** Open questions ("아는 거 있어요?") get each witness to share one thing they know. */
+const OPEN_QUESTION_KEYWORDS = ['단서', '증거', '목격', '아는 거', '본 거', '수상한 거'];
+
+export const alibiEvidenceId = (name: string) => `alibi:${name}`;
+
+export interface RevealedEvidence {
+    id: string;
+    /** The colleague who brought it up. */
+    source: string;
+}
+
+export interface EvidenceEntry {
+    id: string;
+    kind: 'alibi' | Clue['kind'];
+    label: string;
+    text: string;
+}
+
+const includesAny = (text: string, keywords: string[]) => keywords.some(k => text.includes(k));
+
+/**
+ * What the player's own character knows from the start: their alibi and the clues they witnessed.
+ */
+export const getInitialEvidenceFor = (evidence: Evidence | undefined, player: Character): string[] => {
+    if (!evidence) return [];
+    const known = evidence.clues.filter(c => c.knownBy.includes(player.name)).map(c => c.id);
+    return evidence.alibis[player.name] ? [alibiEvidenceId(player.name), ...known] : known;
+};
+
+/**
+ * The alibi and clues a single character can draw on when answering.
+ */
+export const getKnownEvidence = (evidence: Evidence | undefined, name: string): { alibi: string | null; clues: Clue[] } => ({
+    alibi: evidence?.alibis[name] ?? null,
+    clues: evidence?.clues.filter(c => c.knownBy.includes(name)) ?? [],
+});
+
+/**
+ * Clues a character is willing to bring up. The villain and accomplice keep quiet about clues
+ * pointing at either of them.
+ */
+export const getShareableClues = (evidence: Evidence | undefined, character: Character, characters: Character[]): Clue[] => {
+    const protectedNames = isVillainSide(character) ? characters.filter(isVillainSide).map(c => c.name) : [];
+    return getKnownEvidence(evidence, character.name).clues.filter(c => !protectedNames.includes(c.implicates));
+};
+
+/**
+ * Whether uncovering `clue` uses up one of the difficulty's clue reveals. Clues someone at the
+ * table witnessed themselves and the ones left overnight (which nobody witnessed) are free.
+ */
+const isQuestionedClue = (clue: Clue, characters: Character[]) =>
+    clue.knownBy.length > 0 && !characters.some(c => c.isPlayer && clue.knownBy.includes(c.name));
+
+/** How many clues have been drawn out of colleagues by questioning so far. */
+export const countQuestionedClues = (evidence: Evidence | undefined, revealed: string[], characters: Character[]): number =>
+    evidence?.clues.filter(c => revealed.includes(c.id) && isQuestionedClue(c, characters)).length ?? 0;
+
+/**
+ * Works out what the player's question uncovers from the colleagues who are answering it.
+ * A witness reveals a clue when the question touches its keywords, an open question gets
+ * each witness to volunteer one unrevealed clue, and asking where people were reveals the
+ * alibis of those addressed (or of everyone, if nobody in particular was named). Once
+ * `clueReveals` questioned clues are out, witnesses keep the rest to themselves; alibis are
+ * never limited.
+ */
+export const discoverEvidence = (
+    evidence: Evidence | undefined,
+    userInput: string,
+    responders: Character[],
+    characters: Character[],
+    revealed: string[],
+    clueReveals: number | null = null
+): RevealedEvidence[] => {
+    if (!evidence) return [];
+    const found: RevealedEvidence[] = [];
+    const isKnown = (id: string) => revealed.includes(id) || found.some(f => f.id === id);
+    let cluesLeft = clueReveals === null ? Infinity : clueReveals - countQuestionedClues(evidence, revealed, characters);
+    const addressed = responders.filter(c => mentionsCharacter(userInput, c.name));
+    const isOpenQuestion = includesAny(userInput, OPEN_QUESTION_KEYWORDS);
+
+    if (includesAny(userInput, WHEREABOUTS_KEYWORDS)) {
+        (addressed.length > 0 ? addressed : responders).forEach(c => {
+            const id = alibiEvidenceId(c.name);
+            if (evidence.alibis[c.name] && !isKnown(id)) found.push({ id, source: c.name });
+        });
+    }
+
+    responders.forEach(character => {
+        const clues = getShareableClues(evidence, character, characters).filter(c => !isKnown(c.id));
+        const matching = clues.filter(c => includesAny(userInput, c.keywords));
+        const volunteered = isOpenQuestion && matching.length === 0 ? clues.slice(0, 1) : [];
+        [...matching, ...volunteered].forEach(c => {
+            if (isKnown(c.id)) return;
+            if (isQuestionedClue(c, characters)) {
+                if (cluesLeft <= 0) return;
+                cluesLeft--;
+            }
+            found.push({ id: c.id, source: character.name });
+        });
+    });
+
+    return found;
+};
+
+/** Events from the day before ("어제 21:30") come before today's. */
+const timelineSortKey = (time: string) => (time.startsWith('어제') ? `0 ${time}` : `1 ${time}`);
+
+/**
+ * Flattens evidence into display entries, keeping only the given ids when provided.
+ * Entries are grouped as alibis, timeline (in time order) and physical clues.
+ */
+export const listEvidence = (evidence: Evidence | undefined, ids?: string[]): EvidenceEntry[] => {
+    if (!evidence) return [];
+    const alibis: EvidenceEntry[] = Object.entries(evidence.alibis).map(([name, text]) => ({
+        id: alibiEvidenceId(name), kind: 'alibi', label: name, text,
+    }));
+    const toEntry = (c: Clue): EvidenceEntry => ({ id: c.id, kind: c.kind, label: c.time ?? '', text: c.text });
+    const timeline = evidence.clues.filter(c => c.kind === 'timeline').map(toEntry)
+        .sort((a, b) => timelineSortKey(a.label).localeCompare(timelineSortKey(b.label)));
+    const physical = evidence.clues.filter(c => c.kind === 'physical').map(toEntry);
+    return [...alibis, ...timeline, ...physical].filter(e => !ids || ids.includes(e.id));
+};
@@ -0,0 +1,53 @@
+import type { Character, Vote } from '../types';
+import type { Winner } from './engine';
+import { teamOf } from './roles';
+
+/**
+ * Hot-seat play: several people share one screen, each seated at a colleague, and pass the
+ * device around for anything private. One person is the ordinary single-player game.
+ */
+export const MAX_HUMAN_PLAYERS = 4;
+
+export const getHumans = (characters: Character[]): Character[] =>
+    characters.filter(c => c.isPlayer);
+
+export const isHotSeat = (characters: Character[]): boolean => getHumans(characters).length > 1;
+
+/**
+ * Picks `count` distinct seats out of `castSize`, returned in seat order. A `preferred` seat
+ * (the villain's, for a player who asked to play them) is always taken first.
+ */
+export const pickHumanSeats = (castSize: number, count: number, random: () => number, preferred: number | null = null): number[] => {
+    const free = Array.from({ length: castSize }, (_, i) => i).filter(i => i !== preferred);
+    const seats = preferred !== null && preferred >= 0 ? [preferred] : [];
+    while (seats.length < Math.min(count, castSize) && free.length > 0) {
+        seats.push(free.splice(Math.floor(random() * free.length), 1)[0]);
+    }
+    return seats.sort((a, b) => a - b);
+};
+
+/**
+ * Whose turn it is to type after `current`: the next active human in seat order, wrapping
+ * around. Returns the first active human when `current` is unknown or has been fired.
+ */
+export const nextSpeaker = (characters: Character[], current: string | null): string | null => {
+    const active = getHumans(characters).filter(c => c.status === 'active');
+    if (active.length === 0) return null;
+    const index = active.findIndex(c => c.name === current);
+    return active[(index + 1) % active.length].name;
+};
+
+/** Active humans who haven't cast their secret vote yet, in seat order. */
+export const pendingHumanVoters = (characters: Character[], votes: Vote[]): Character[] =>
+    getHumans(characters).filter(c => c.status === 'active' && !votes.some(v => v.voter === c.name));
+
+export interface PlayerResult {
+    name: string;
+    role: Character['role'];
+    won: boolean;
+    fired: boolean;
+}
+
+/** Each human's result once a side has won, for the end screen. */
+export const getPlayerResults = (characters: Character[], winner: Winner): PlayerResult[] =>
+    getHumans(characters).map(c => ({ name: c.name, role: c.role, won: teamOf(c) === winner, fired: c.status === 'voted_out' }));
@@ -0,0 +1,155 @@
+import type { Character, Message, Vote } from '../types';
+import { mentionsCharacter } from './names';
+import { getHumans } from './hotSeat';
+import type { NightIncident } from './night';
+
+/** Longest single remembered line; longer statements are cut with an ellipsis. */
+const MAX_NOTE_LENGTH = 120;
+/** Only the most recent round summaries are kept. */
+const MAX_ROUND_NOTES = 5;
+/** Cap on stored statements per list, so saves stay small however long a game runs. */
+const MAX_STORED_NOTES = 40;
+/** Default size of a formatted memory, in characters (roughly 500-800 tokens of Korean text). */
+export const MEMORY_BUDGET = 1500;
+
+/**
+ * What one colleague remembers about the case. Summaries are built from the conversation as it
+ * happens rather than re-read from the chat log, so they survive across rounds.
+ */
+export interface CharacterMemory {
+    /** Their own statements, oldest first. */
+    said: string[];
+    /** What others said to or about them, plus what the people asked the room, as "speaker: text". */
+    heard: string[];
+    /** How suspicious each colleague looks to them, from accusations they've heard. */
+    suspicion: { [name: string]: number };
+    /** One line per finished round: the votes and who was fired. */
+    rounds: string[];
+}
+
+export type MemoryBank = { [name: string]: CharacterMemory };
+
+const emptyMemory = (): CharacterMemory => ({ said: [], heard: [], suspicion: {}, rounds: [] });
+
+const truncate = (text: string) =>
+    text.length > MAX_NOTE_LENGTH ? `${text.slice(0, MAX_NOTE_LENGTH - 1)}…` : text;
+
+export const createMemoryBank = (characters: Character[]): MemoryBank =>
+    Object.fromEntries(characters.filter(c => !c.isPlayer).map(c => [c.name, emptyMemory()]));
+
+/**
+ * Records a player message and the replies to it in every active colleague's memory.
+ * Everyone is in the room, but each colleague only keeps what concerns them: what they said,
+ * what was said to or about them, and who is being accused. Accusations from any of the
+ * people weigh more than the colleagues' own.
+ */
+export const rememberExchange = (bank: MemoryBank, characters: Character[], exchange: Message[]): MemoryBank => {
+    const humans = getHumans(characters).map(c => c.name);
+    const next: MemoryBank = { ...bank };
+
+    characters.filter(c => c.status === 'active' && !c.isPlayer).forEach(character => {
+        const memory = next[character.name] ?? emptyMemory();
+        const said = [...memory.said];
+        const heard = [...memory.heard];
+        const suspicion = { ...memory.suspicion };
+
+        exchange.filter(m => m.sender !== 'system').forEach(message => {
+            if (message.sender === character.name) {
+                said.push(truncate(message.text));
+                return;
+            }
+            const isPlayer = humans.includes(message.sender);
+            const concernsMe = message.addressees?.includes(character.name)
+                || mentionsCharacter(message.text, character.name)
+                || (isPlayer && !message.addressees?.length);
+            if (concernsMe) heard.push(truncate(`${message.sender}: ${message.text}`));
+
+            characters
+                .filter(c => c.status === 'active' && c.name !== character.name && c.name !== message.sender)
+                .forEach(c => {
+                    if (mentionsCharacter(message.text, c.name)) {
+                        suspicion[c.name] = (suspicion[c.name] ?? 0) + (isPlayer ? 1.5 : 1);
+                    }
+                });
+        });
+
+        next[character.name] = {
+            ...memory,
+            said: said.slice(-MAX_STORED_NOTES),
+            heard: heard.slice(-MAX_STORED_NOTES),
+            suspicion,
+        };
+    });
+    return next;
+};
+
+/**
+ * Passes an anonymous tip about `target` to everyone else, who hear it and grow more suspicious.
+ */
+export const rememberTip = (bank: MemoryBank, target: string, tip: string): MemoryBank =>
+    Object.fromEntries(Object.entries(bank).map(([name, memory]) => (name === target
+        ? [name, memory]
+        : [name, {
+            ...memory,
+            heard: [...memory.heard, truncate(`익명 제보: ${tip}`)].slice(-MAX_STORED_NOTES),
+            suspicion: { ...memory.suspicion, [target]: (memory.suspicion[target] ?? 0) + 2 },
+        }])));
+
+/**
+ * Lets everyone but the target see what a framing turned up overnight, which makes the target
+ * look as bad as a pointed accusation would.
+ */
+export const rememberIncident = (bank: MemoryBank, incident: NightIncident): MemoryBank => {
+    if (incident.effect !== 'frame' || !incident.target) return bank;
+    const { target } = incident;
+    return Object.fromEntries(Object.entries(bank).map(([name, memory]) => (name === target
+        ? [name, memory]
+        : [name, { ...memory, suspicion: { ...memory.suspicion, [target]: (memory.suspicion[target] ?? 0) + 1.5 } }])));
+};
+
+/**
+ * Adds a round summary to every colleague's memory once a ballot is settled. A fired colleague
+ * drops out of everyone's suspicions, since the game only continues if they were innocent.
+ */
+export const rememberBallot = (bank: MemoryBank, round: number, votes: Vote[], firedName: string | null): MemoryBank => {
+    const voteSummary = votes.map(v => `${v.voter}→${v.votedFor ?? 'abstained'}`).join(', ');
+    const note = `Round ${round}: votes ${voteSummary || 'none'}. ${firedName ? `${firedName} was fired.` : 'Nobody was fired.'}`;
+    return Object.fromEntries(Object.entries(bank).map(([name, memory]) => {
+        const { [firedName ?? '']: _fired, ...suspicion } = memory.suspicion;
+        return [name, { ...memory, suspicion, rounds: [...memory.rounds, note].slice(-MAX_ROUND_NOTES) }];
+    }));
+};
+
+/**
+ * Renders a memory for a prompt within `budget` characters. Round notes and suspicions are
+ * always kept; when the conversation gets long the oldest lines are dropped first.
+ */
+export const formatMemory = (memory: CharacterMemory | undefined, budget: number = MEMORY_BUDGET): string => {
+    if (!memory) return '- Nothing yet.';
+    const suspects = Object.entries(memory.suspicion)
+        .filter(([, score]) => score > 0)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([name, score]) => `${name} (${score})`);
+
+    const fixed = [
+        ...memory.rounds.map(r => `- ${r}`),
+        `- Most suspicious to you so far: ${suspects.length > 0 ? suspects.join(', ') : 'no one yet'}`,
+    ];
+    let said = memory.said;
+    let heard = memory.heard;
+    const render = () => [
+        ...fixed,
+        ...(said.length > 0 ? ['- You have said:', ...said.map(s => `  - ${s}`)] : []),
+        ...(heard.length > 0 ? ['- You have heard:', ...heard.map(h => `  - ${h}`)] : []),
+    ].join('\n');
+
+    let text = render();
+    // Their own claims matter most for staying consistent, so they get two lines for every line of hearsay.
+    while (text.length > budget && (said.length > 0 || heard.length > 0)) {
+        if (said.length === 0 || heard.length * 2 > said.length) heard = heard.slice(1);
+        else said = said.slice(1);
+        text = render();
+    }
+    return text;
+};
@@ -0,0 +1,8 @@
+/** Names a player might use for a colleague: "김민준 대리", "김민준" or "민준". */
+export const aliasesOf = (name: string): string[] => {
+    const fullName = name.split(' ')[0];
+    return [name, fullName, fullName.slice(1)].filter(alias => alias.length >= 2);
+};
+
+export const mentionsCharacter = (text: string, name: string): boolean =>
+    aliasesOf(name).some(alias => text.includes(alias));
@@ -0,0 +1,75 @@
+import type { Character, Vote } from '../types';
+import type { UndecidedReason, VoteOutcome } from './engine';
+import { formatRoleReveal } from './roles';
+
+export const undecidedReasons: { [reason in UndecidedReason]: string } = {
+    tie: '투표가 동점으로 끝났습니다!',
+    no_votes: '아무도 지목되지 않았습니다.',
+    no_majority: '과반수의 표를 얻은 사람이 없습니다.',
+};
+
+/**
+ * Who the narrator is talking to. A lone player is "you"; when several people share the game
+ * nobody is, and the villain's side gets no lines of its own.
+ */
+export interface Audience {
+    /** A lone player who is the villain. */
+    asVillain: boolean;
+    /** Several people share the game. */
+    shared: boolean;
+}
+
+/** Announces one vote as it is revealed, with the colleague's stated reason if they gave one. */
+export const narrateVote = (vote: Vote): string => {
+    if (!vote.votedFor) return `${vote.voter}님이 기권했습니다.`;
+    return vote.reason
+        ? `${vote.voter}님이 ${vote.votedFor}님을 지목했습니다: "${vote.reason}"`
+        : `${vote.voter}님이 ${vote.votedFor}님을 지목했습니다.`;
+};
+
+/** Announces a ballot that leaves the game going, before the office goes dark. */
+export const narrateNextRound = (outcome: VoteOutcome, fired: Character | null): string =>
+    outcome.kind === 'undecided'
+        ? `${undecidedReasons[outcome.reason]} 아무도 해고되지 않은 채 퇴근 시간이 되었습니다. 불 꺼진 사무실에 누군가 남아 있는 것 같은데...`
+        : `${formatRoleReveal(fired)} 어느덧 퇴근 시간입니다. 불 꺼진 사무실에 누군가 남아 있는 것 같은데...`;
+
+/**
+ * The closing lines of a ballot that ended the game, before the confession. An undecided
+ * ballot the villain walks away from gets a second line, which is read after a pause.
+ */
+export const narrateGameOver = (
+    outcome: VoteOutcome,
+    fired: Character | null,
+    villain: Character,
+    roundLimit: number,
+    { asVillain, shared }: Audience
+): string[] => {
+    switch (outcome.kind) {
+        case 'undecided':
+            // Nobody was singled out and the rules let the villain walk away.
+            return asVillain
+                ? [`${undecidedReasons[outcome.reason]} 아무도 당신을 특정하지 못했습니다. 빌런의 승리입니다!`, '동료들은 끝내 당신의 정체를 알아채지 못했습니다.']
+                : [`${undecidedReasons[outcome.reason]} 빌런을 잡지 못했으므로, 시민들의 패배입니다...`, `진짜 빌런은 ${villain.name}이었습니다!`];
+        case 'villain_caught':
+            return [fired.isPlayer && !shared
+                ? `...그리고 밝혀진 진실은, 당신이 바로 오피스 빌런이었습니다! 덜미를 잡혔네요.`
+                : `축하합니다! ${fired.name}은(는) 진짜 오피스 빌런이었습니다!`];
+        case 'player_fired':
+            // An innocent player was voted out and nobody is left to carry on.
+            return [shared
+                ? `안타깝네요... 마지막으로 남은 플레이어 ${fired.name}님까지 해고되었습니다. 진짜 빌런은 ${villain.name}이었습니다!`
+                : `안타깝네요... 당신은 빌런이 아니었지만, 동료들에게 지목당했습니다. 진짜 빌런은 ${villain.name}이었습니다!`];
+        case 'villain_survives':
+            return [asVillain
+                ? `${formatRoleReveal(fired)} 이제 ${outcome.remainingCount}명만 남았습니다. 아무도 당신을 막을 수 없습니다. 빌런의 승리입니다!`
+                : `안타깝네요... ${formatRoleReveal(fired)} 이제 ${outcome.remainingCount}명만 남아 빌런의 승리로 끝났습니다. 진짜 빌런은 ${villain.name}이었습니다!`];
+        case 'out_of_rounds': {
+            const reveal = fired ? `${formatRoleReveal(fired)} ` : '';
+            return [asVillain
+                ? `${reveal}정해진 ${roundLimit}라운드가 모두 지났습니다. 끝까지 정체를 숨긴 당신의 승리입니다!`
+                : `${reveal}정해진 ${roundLimit}라운드가 모두 지났습니다. 빌런을 잡지 못했으므로, 시민들의 패배입니다... 진짜 빌런은 ${villain.name}이었습니다!`];
+        }
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,129 @@
+import type { Character } from '../types';
+import type { Clue, Evidence } from '../pregeneratedContent';
+import type { MemoryBank } from './memory';
+import { isVillainSide } from './roles';
+import { hashString } from '../services/random';
+
+/**
+ * What the villain does to the colleague who worries them most: plant something in their desk,
+ * or bury them in paperwork so they sit out the next discussion.
+ */
+export type NightEffect = 'frame' | 'silence';
+
+/**
+ * A follow-up sabotage committed after hours, between one ballot and the next discussion.
+ */
+export interface NightIncident {
+    /** The round whose ballot came before this night. */
+    round: number;
+    /** The new incident, announced at the start of the next round. */
+    text: string;
+    effect: NightEffect | null;
+    /** The colleague framed or silenced. */
+    target: string | null;
+    /** Narration of the effect, shown below the incident. */
+    aftermath: string;
+    /** Published with the announcement, so everyone can discuss it. */
+    clue: Clue | null;
+}
+
+const FOLLOW_UP_SABOTAGES = [
+    '밤사이 회의실 화이트보드에 적혀 있던 분기 계획이 전부 지워지고, "다음은 누구?"라는 낙서만 남았다.',
+    '탕비실 커피 원두가 전부 디카페인으로 바뀌어 있다.',
+    '공용 프린터 용지함마다 이면지가 거꾸로 채워져 있어 아침 출력물이 전부 엉망이 됐다.',
+    '사내 메신저 공지방 이름이 밤사이 "퇴사 준비방"으로 바뀌어 있다.',
+    '팀 공유 캘린더에 아무도 잡은 적 없는 오전 8시 전체 회의가 매일 반복으로 등록돼 있다.',
+    '사무실 화분에 누군가 에너지 드링크를 부어 놓았다.',
+    '모든 의자의 높이가 가장 낮게 내려가 있다.',
+];
+
+const aftermathFor = (effect: NightEffect, target: string): string => (effect === 'frame'
+    ? `게다가 ${target}님 책상 서랍에서 사건과 관련된 물건이 발견됐습니다.`
+    : `${target}님 앞으로 "긴급 경위서 제출" 지시가 내려와, 이번 토론에는 참여할 수 없습니다.`);
+
+/**
+ * The colleague the villain most wants out of the way: whoever suspects them most, going by
+ * memories. The player and the villain's own side are never targeted.
+ */
+const chooseNightTarget = (villain: Character, characters: Character[], memories: MemoryBank): string | null => {
+    const candidates = characters.filter(c => c.status === 'active' && !c.isPlayer && !isVillainSide(c));
+    if (candidates.length === 0) return null;
+    const threat = (c: Character) =>
+        (memories[c.name]?.suspicion[villain.name] ?? 0) + (hashString(`${villain.name}~${c.name}`) % 100) / 1000;
+    return candidates.reduce((best, c) => (threat(c) > threat(best) ? c : best)).name;
+};
+
+/**
+ * Plans what the villain does on the night after `round`. A framing plants a clue pointing at
+ * the target; otherwise the badge log gives away that the villain was in, alongside one decoy
+ * (never the player, who would know at once that they went home).
+ */
+export const planNightIncident = (
+    characters: Character[],
+    round: number,
+    memories: MemoryBank,
+    previous: NightIncident[],
+    random: () => number = Math.random
+): NightIncident | null => {
+    const villain = characters.find(c => c.role === 'villain' && c.status === 'active');
+    if (!villain) return null;
+
+    const unused = FOLLOW_UP_SABOTAGES.filter(text => !previous.some(i => i.text === text));
+    const pool = unused.length > 0 ? unused : FOLLOW_UP_SABOTAGES;
+    const text = pool[Math.floor(random() * pool.length)];
+    const target = chooseNightTarget(villain, characters, memories);
+    const effect: NightEffect | null = target ? (random() < 0.5 ? 'frame' : 'silence') : null;
+    const time = `${round}라운드 후 밤`;
+
+    let clue: Clue | null = null;
+    if (effect === 'frame') {
+        clue = {
+            id: `night-${round}-planted`,
+            kind: 'physical',
+            text: `${target}님 책상 서랍에서 사건 현장의 물건이 나왔다. 본인이 넣었는지, 누가 넣어 둔 것인지는 알 수 없다.`,
+            knownBy: [],
+            keywords: ['서랍', '물건', target],
+            implicates: target,
+        };
+    } else {
+        const decoys = characters.filter(c => c.status === 'active' && !c.isPlayer && !isVillainSide(c));
+        if (decoys.length > 0) {
+            const decoy = decoys[Math.floor(random() * decoys.length)].name;
+            const pair = random() < 0.5 ? [villain.name, decoy] : [decoy, villain.name];
+            clue = {
+                id: `night-${round}-badge`,
+                kind: 'timeline',
+                time,
+                text: `경비실 출입 기록에 밤 10시 이후 찍힌 출입증은 ${pair.join(', ')} 두 명뿐이다.`,
+                knownBy: [],
+                keywords: ['출입', '경비', '밤', '야근'],
+                implicates: villain.name,
+            };
+        }
+    }
+
+    return {
+        round,
+        text,
+        effect,
+        target,
+        aftermath: effect && target ? aftermathFor(effect, target) : '다행히 다친 사람은 없지만, 빌런은 아직 사무실 안에 있습니다.',
+        clue,
+    };
+};
+
+/**
+ * Colleagues kept out of the current round's discussion by the night before it.
+ */
+export const getSilenced = (incidents: NightIncident[], round: number): string[] =>
+    incidents.filter(i => i.round === round - 1 && i.effect === 'silence' && i.target).map(i => i.target);
+
+/**
+ * The scenario's evidence plus the clues left by every night so far. The authored evidence is
+ * never modified, so exporting the scenario stays clean.
+ */
+export const withNightClues = (evidence: Evidence | undefined, incidents: NightIncident[]): Evidence | undefined => {
+    const clues = incidents.map(i => i.clue).filter(Boolean);
+    if (clues.length === 0) return evidence;
+    return { alibis: evidence?.alibis ?? {}, clues: [...(evidence?.clues ?? []), ...clues] };
+};
@@ -0,0 +1,174 @@
+import type { Character, Role } from '../types';
+import type { BallotRecord, Winner } from './engine';
+import { isVillainSide, teamOf, ROLES } from './roles';
+import type { Difficulty } from './difficulty';
+
+/** What one finished solo game adds to the player's profile. */
+export interface GameRecord {
+    finishedAt: number;
+    /** The scenario the game was dealt from, from `scenarioIdOf`; its stats are kept together under it. */
+    scenarioId: string;
+    /** The sabotage as it was told in this game, shown on the stats screen. */
+    scenario: string;
+    role: Role;
+    won: boolean;
+    /** The round the game ended in. */
+    rounds: number;
+    /** Ballots cast, runoffs included. */
+    ballots: number;
+    /** Votes the player cast for someone rather than abstaining. */
+    votesCast: number;
+    /** How many of those named someone on the villain's side. */
+    votesOnVillainSide: number;
+    /** Innocent colleagues fired on a ballot where the player voted for them. */
+    wronglyFired: string[];
+    villainFiredInRound: number | null;
+    /** Colleagues still in the office at the end, the player included. */
+    finalActive: number;
+    /** How many of those were not on the villain's side. */
+    finalInnocents: number;
+    daily: boolean;
+    difficulty: Difficulty;
+}
+
+export const createGameRecord = (
+    player: Character,
+    characters: Character[],
+    ballots: BallotRecord[],
+    winner: Winner,
+    round: number,
+    scenarioId: string,
+    scenario: string,
+    daily: boolean,
+    difficulty: Difficulty
+): GameRecord => {
+    const isVillainSideName = (name: string | null) => characters.some(c => c.name === name && isVillainSide(c));
+    const playerVotes = ballots.flatMap(b => b.votes.filter(v => v.voter === player.name && v.votedFor !== null));
+    const villain = characters.find(c => c.role === 'villain');
+    return {
+        finishedAt: Date.now(),
+        scenarioId,
+        scenario,
+        role: player.role,
+        won: teamOf(player) === winner,
+        rounds: round,
+        ballots: ballots.length,
+        votesCast: playerVotes.length,
+        votesOnVillainSide: playerVotes.filter(v => isVillainSideName(v.votedFor)).length,
+        wronglyFired: ballots
+            .filter(b => b.votedOut && !isVillainSideName(b.votedOut) && b.votes.some(v => v.voter === player.name && v.votedFor === b.votedOut))
+            .map(b => b.votedOut),
+        villainFiredInRound: ballots.find(b => villain && b.votedOut === villain.name)?.round ?? null,
+        finalActive: characters.filter(c => c.status === 'active').length,
+        finalInnocents: characters.filter(c => c.status === 'active' && !isVillainSide(c)).length,
+        daily,
+        difficulty,
+    };
+};
+
+const isDetectiveGame = (record: GameRecord) => ROLES[record.role].team === 'citizens';
+
+export interface SideStats {
+    played: number;
+    won: number;
+}
+
+export interface Stats {
+    played: number;
+    detective: SideStats;
+    villain: SideStats;
+    averageRounds: number;
+    /** Share of the player's votes as a detective that named the villain's side, or `null` before any. */
+    voteAccuracy: number | null;
+    wronglyFired: number;
+}
+
+/** Totals over a set of games; the stats screen shows them overall and per scenario. */
+export const computeStats = (games: GameRecord[]): Stats => {
+    const detectiveGames = games.filter(isDetectiveGame);
+    const villainGames = games.filter(g => !isDetectiveGame(g));
+    const votesCast = detectiveGames.reduce((sum, g) => sum + g.votesCast, 0);
+    return {
+        played: games.length,
+        detective: { played: detectiveGames.length, won: detectiveGames.filter(g => g.won).length },
+        villain: { played: villainGames.length, won: villainGames.filter(g => g.won).length },
+        averageRounds: games.length > 0 ? games.reduce((sum, g) => sum + g.rounds, 0) / games.length : 0,
+        voteAccuracy: votesCast > 0 ? detectiveGames.reduce((sum, g) => sum + g.votesOnVillainSide, 0) / votesCast : null,
+        wronglyFired: games.reduce((sum, g) => sum + g.wronglyFired.length, 0),
+    };
+};
+
+export interface Achievement {
+    id: string;
+    icon: string;
+    title: string;
+    description: string;
+    /** `games` is every recorded game, newest first, with the one just finished at the front. */
+    isEarned: (games: GameRecord[]) => boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first_catch',
+        icon: '🕵️',
+        title: '첫 검거',
+        description: '탐정으로 처음 승리하기',
+        isEarned: games => games.some(g => isDetectiveGame(g) && g.won),
+    },
+    {
+        id: 'round_one_catch',
+        icon: '⚡',
+        title: '전광석화',
+        description: '1라운드에 빌런 해고하기',
+        isEarned: games => games.some(g => isDetectiveGame(g) && g.villainFiredInRound === 1),
+    },
+    {
+        id: 'flawless',
+        icon: '🎯',
+        title: '완벽한 수사',
+        description: '모든 표를 빌런 편에 던지고 억울한 해고 없이 승리하기',
+        isEarned: games => games.some(g => isDetectiveGame(g) && g.won && g.votesCast > 0 && g.votesOnVillainSide === g.votesCast && g.wronglyFired.length === 0),
+    },
+    {
+        id: 'first_villain_win',
+        icon: '😈',
+        title: '완전 범죄',
+        description: '빌런으로 처음 승리하기',
+        isEarned: games => games.some(g => g.role === 'villain' && g.won),
+    },
+    {
+        id: 'last_one_standing',
+        icon: '🥊',
+        title: '최후의 1대1',
+        description: '빌런으로 끝까지 살아남아 동료 한 명과 1대1 만들기',
+        isEarned: games => games.some(g => g.role === 'villain' && g.won && g.finalInnocents === 1),
+    },
+    {
+        id: 'wrong_person',
+        icon: '😅',
+        title: '억울한 해고',
+        description: '내가 지목한 무고한 동료가 해고되기',
+        isEarned: games => games.some(g => g.wronglyFired.length > 0),
+    },
+    {
+        id: 'hat_trick',
+        icon: '🔥',
+        title: '3연승',
+        description: '세 판 연속으로 승리하기',
+        isEarned: games => games.length >= 3 && games.slice(0, 3).every(g => g.won),
+    },
+    {
+        id: 'daily_regular',
+        icon: '📅',
+        title: '오늘의 사건',
+        description: '오늘의 사건 끝까지 해결하기',
+        isEarned: games => games.some(g => g.daily),
+    },
+    {
+        id: 'veteran',
+        icon: '🏅',
+        title: '베테랑',
+        description: '게임 10판 하기',
+        isEarned: games => games.length >= 10,
+    },
+];
@@ -0,0 +1,166 @@
+import type { Character, Role } from '../types';
+import type { PregeneratedCharacter } from '../pregeneratedContent';
+import type { MemoryBank } from './memory';
+import { hashString } from '../services/random';
+
+export type Team = 'citizens' | 'villain';
+
+export interface RoleInfo {
+    team: Team;
+    /** Shown on cards and in the role reveal. */
+    label: string;
+    /** Told to the player when they are dealt this role. */
+    briefing: string;
+    /** Narrated when someone with this role is fired. */
+    firedReveal: string;
+}
+
+/** `{name}` in `firedReveal` is replaced with the fired colleague's name. */
+export const ROLES: { [role in Role]: RoleInfo } = {
+    villain: {
+        team: 'villain',
+        label: '빌런',
+        briefing: '당신이 바로 이번 사건의 범인입니다. 들키지 않고 살아남으세요.',
+        firedReveal: '{name}님은 진짜 오피스 빌런이었습니다!',
+    },
+    accomplice: {
+        team: 'villain',
+        label: '공범',
+        briefing: '당신은 빌런의 공범입니다. 빌런이 끝까지 살아남으면 함께 승리합니다.',
+        firedReveal: '{name}님은 빌런을 감싸던 공범이었습니다! 하지만 진짜 빌런은 아직 남아있습니다.',
+    },
+    investigator: {
+        team: 'citizens',
+        label: '인사팀 조사관',
+        briefing: '당신은 인사팀 조사관입니다. 라운드마다 한 명의 인사 기록을 몰래 조회해 빌런 편인지 확인할 수 있습니다.',
+        firedReveal: '{name}님은 인사팀 조사관이었습니다. 유능한 조사관을 잃었네요...',
+    },
+    gossip: {
+        team: 'citizens',
+        label: '소문통',
+        briefing: '당신은 사내 소문통입니다. 탕비실에서 범인에 대한 소문을 주워들었습니다. 정확하지는 않으니 잘 활용하세요.',
+        firedReveal: '{name}님은 사내 소문통이었습니다. 이제 탕비실이 조용해지겠네요...',
+    },
+    employee: {
+        team: 'citizens',
+        label: '평사원',
+        briefing: '당신은 평범한 직원입니다. 동료들과 대화하여 빌런을 찾아내세요.',
+        firedReveal: '...하지만 {name}님은 빌런이 아니었습니다! 아직 빌런이 남아있습니다.',
+    },
+};
+
+export interface RoleOptions {
+    accomplice: boolean;
+    investigator: boolean;
+    gossip: boolean;
+    /** Seat the player as the villain instead of at random. */
+    playAsVillain: boolean;
+}
+
+export const DEFAULT_ROLE_OPTIONS: RoleOptions = { accomplice: true, investigator: true, gossip: true, playAsVillain: false };
+
+/** Smaller casts can't spare a second villain without the office losing its majority. */
+export const MIN_CAST_FOR_ACCOMPLICE = 5;
+
+export interface InvestigationResult {
+    round: number;
+    investigator: string;
+    target: string;
+    isVillainSide: boolean;
+}
+
+/** An anonymous tip the player, as the villain, slipped in against a colleague. */
+export interface PlantedDoubt {
+    round: number;
+    target: string;
+}
+
+/**
+ * Private knowledge handed out by special roles over the game.
+ */
+export interface RoleState {
+    investigations: InvestigationResult[];
+    /** The gossip's rumour: the villain and one innocent, in no particular order. */
+    rumor: string[] | null;
+    doubts: PlantedDoubt[];
+}
+
+export const initialRoleState: RoleState = { investigations: [], rumor: null, doubts: [] };
+
+export const teamOf = (character: Character): Team => ROLES[character.role].team;
+
+export const isVillainSide = (character: Character): boolean => teamOf(character) === 'villain';
+
+export const formatRoleReveal = (character: Character): string =>
+    ROLES[character.role].firedReveal.split('{name}').join(character.name);
+
+/** The end-of-game line that reveals everyone's secret role. */
+export const formatRoleSummary = (characters: Character[]): string =>
+    `역할 공개 — ${characters.map(c => `${c.name}: ${ROLES[c.role].label}`).join(', ')}`;
+
+/**
+ * Deals roles to a cast. The villain is whoever the scenario marks; the accomplice is always
+ * an AI colleague, while the investigator and gossip may land on a player too.
+ */
+export const assignRoles = (
+    cast: PregeneratedCharacter[],
+    playerIndexes: number[],
+    options: RoleOptions,
+    random: () => number = Math.random
+): Role[] => {
+    const roles: Role[] = cast.map(c => (c.isVillain ? 'villain' : 'employee'));
+    const pick = (eligible: (index: number) => boolean): number | null => {
+        const indexes = roles.map((_, i) => i).filter(i => roles[i] === 'employee' && eligible(i));
+        return indexes.length > 0 ? indexes[Math.floor(random() * indexes.length)] : null;
+    };
+    const deal = (role: Role, eligible: (index: number) => boolean = () => true) => {
+        const index = pick(eligible);
+        if (index !== null) roles[index] = role;
+    };
+
+    if (options.accomplice && cast.length >= MIN_CAST_FOR_ACCOMPLICE) deal('accomplice', i => !playerIndexes.includes(i));
+    if (options.investigator) deal('investigator');
+    if (options.gossip) deal('gossip');
+    return roles;
+};
+
+/**
+ * The gossip's rumour names the villain alongside one random innocent.
+ */
+export const createRumor = (characters: Character[], random: () => number = Math.random): string[] | null => {
+    const villain = characters.find(c => c.role === 'villain');
+    const gossip = characters.find(c => c.role === 'gossip');
+    const decoys = characters.filter(c => !isVillainSide(c) && c.name !== gossip?.name);
+    if (!villain || !gossip || decoys.length === 0) return null;
+    const decoy = decoys[Math.floor(random() * decoys.length)].name;
+    return random() < 0.5 ? [villain.name, decoy] : [decoy, villain.name];
+};
+
+export const hasInvestigatedThisRound = (roleState: RoleState, round: number): boolean =>
+    roleState.investigations.some(i => i.round === round);
+
+export const investigate = (roleState: RoleState, characters: Character[], investigator: string, targetName: string, round: number): RoleState => {
+    const target = characters.find(c => c.name === targetName);
+    if (!target || hasInvestigatedThisRound(roleState, round)) return roleState;
+    return {
+        ...roleState,
+        investigations: [...roleState.investigations, { round, investigator, target: targetName, isVillainSide: isVillainSide(target) }],
+    };
+};
+
+/**
+ * Who an AI investigator looks into: the colleague they suspect most among those not yet checked.
+ */
+export const chooseInvestigationTarget = (
+    investigator: Character,
+    characters: Character[],
+    roleState: RoleState,
+    memories: MemoryBank
+): string | null => {
+    const checked = roleState.investigations.map(i => i.target);
+    const candidates = characters.filter(c => c.status === 'active' && c.name !== investigator.name && !checked.includes(c.name));
+    if (candidates.length === 0) return null;
+    const suspicion = memories[investigator.name]?.suspicion ?? {};
+    const score = (c: Character) => (suspicion[c.name] ?? 0) + (hashString(`${investigator.name}?${c.name}`) % 100) / 1000;
+    return candidates.reduce((best, c) => (score(c) > score(best) ? c : best)).name;
+};
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Character, Message, Role } from '../types';
+import { initialEngineState, EngineAction, EngineState } from './engine';
+import { DiscussionLimits } from './discussion';
+import type { MemoryBank } from './memory';
+import type { NightIncident } from './night';
+import { checkDiscussionLimits, clockAlarms, clockForRound, secondsLeftOn, RoundShell } from './round';
+
+const person = (name: string, role: Role = 'employee', isPlayer = false): Character => ({
+    name,
+    position: '사원',
+    personality: '',
+    role,
+    status: 'active',
+    imageUrl: null,
+    isPlayer,
+    votes: 0,
+    visualDescription: '',
+});
+
+const office = (): Character[] => [person('나', 'employee', true), person('빌런', 'villain'), person('가'), person('나래')];
+
+const discussing = (limits: DiscussionLimits, extra: Partial<EngineState> = {}): EngineState =>
+    ({ ...initialEngineState, phase: 'discussion', characters: office(), limits, ...extra });
+
+/** A shell that only records what the round did. */
+const recorder = () => {
+    const actions: EngineAction[] = [];
+    const posted: Message[] = [];
+    let memories: MemoryBank = {};
+    const shell: RoundShell = {
+        dispatch: action => { actions.push(action); },
+        post: (...messages) => { posted.push(...messages); },
+        note: (to, text) => ({ sender: 'system', text, isPrivate: true, addressees: [to] }),
+        updateMemories: update => { memories = update(memories); },
+        revealEvidence: vi.fn(),
+        setTyping: vi.fn(),
+    };
+    return { shell, actions, posted, memories: () => memories };
+};
+
+const NOW = 1_000_000;
+
+describe('clockForRound', () => {
+    it('runs no clock without a time limit', () => {
+        expect(clockForRound(null, discussing({ seconds: 0, questions: 5 }), NOW)).toBeNull();
+    });
+
+    it('starts a full clock for a new round', () => {
+        const state = discussing({ seconds: 120, questions: 0 }, { round: 2 });
+        expect(clockForRound(null, state, NOW)).toEqual({ round: 2, endsAt: NOW + 120_000 });
+        expect(clockForRound({ round: 1, endsAt: NOW - 5_000 }, state, NOW)).toEqual({ round: 2, endsAt: NOW + 120_000 });
+    });
+
+    it('keeps the running clock while the round lasts', () => {
+        const clock = { round: 2, endsAt: NOW + 30_000 };
+        expect(clockForRound(clock, discussing({ seconds: 120, questions: 0 }, { round: 2 }), NOW + 60_000)).toBe(clock);
+    });
+});
+
+describe('secondsLeftOn', () => {
+    const clock = { round: 1, endsAt: NOW + 30_000 };
+
+    it('rounds the time left up to whole seconds and stops at zero', () => {
+        expect(secondsLeftOn(clock, 1, NOW)).toBe(30);
+        expect(secondsLeftOn(clock, 1, NOW + 29_001)).toBe(1);
+        expect(secondsLeftOn(clock, 1, NOW + 45_000)).toBe(0);
+    });
+
+    it('has nothing to say about another round', () => {
+        expect(secondsLeftOn(clock, 2, NOW)).toBeNull();
+        expect(secondsLeftOn(null, 1, NOW)).toBeNull();
+    });
+});
+
+describe('clockAlarms', () => {
+    it('rings as the colleagues start to hurry and as the time runs out', () => {
+        expect(clockAlarms({ round: 1, endsAt: NOW + 60_000 }, NOW)).toEqual([40_000, 60_000]);
+        expect(clockAlarms({ round: 1, endsAt: NOW + 10_000 }, NOW)).toEqual([0, 10_000]);
+        expect(clockAlarms({ round: 1, endsAt: NOW - 10_000 }, NOW)).toEqual([0, 0]);
+    });
+});
+
+describe('checkDiscussionLimits', () => {
+    it('does nothing while no limit is near', () => {
+        const { shell, actions, posted } = recorder();
+        expect(checkDiscussionLimits(discussing({ seconds: 120, questions: 5 }, { questionsAsked: 2 }), 90, null, {}, shell)).toBeNull();
+        expect(checkDiscussionLimits(discussing({ seconds: 0, questions: 0 }, { questionsAsked: 40 }), null, null, {}, shell)).toBeNull();
+        expect(actions).toEqual([]);
+        expect(posted).toEqual([]);
+    });
+
+    it('opens the vote when the time runs out', () => {
+        const { shell, actions, posted } = recorder();
+        expect(checkDiscussionLimits(discussing({ seconds: 60, questions: 0 }), 0, 1, {}, shell)).toBe(1);
+        expect(actions).toEqual([{ type: 'voting_opened' }]);
+        expect(posted).toEqual([{ sender: 'system', text: '⏰ 토론 시간이 끝났습니다. 투표를 시작합니다!' }]);
+    });
+
+    it('opens the vote when the questions run out', () => {
+        const { shell, actions, posted } = recorder();
+        checkDiscussionLimits(discussing({ seconds: 0, questions: 3 }, { questionsAsked: 3 }), null, null, {}, shell);
+        expect(actions).toEqual([{ type: 'voting_opened' }]);
+        expect(posted[0].text).toBe('⏰ 이번 라운드의 질문을 모두 썼습니다. 투표를 시작합니다!');
+    });
+
+    it('has a colleague press for a decision once per round as a limit runs low', () => {
+        const { shell, actions, posted, memories } = recorder();
+        const state = discussing({ seconds: 60, questions: 0 }, { round: 2 });
+        expect(checkDiscussionLimits(state, 20, 1, {}, shell)).toBe(2);
+        expect(actions).toEqual([]);
+        expect(posted).toHaveLength(1);
+        expect(['빌런', '가', '나래']).toContain(posted[0].sender);
+        expect(posted[0].text).toMatch(/^벌써 시간이 얼마 안 남았어요\./);
+        expect(memories()[posted[0].sender].said).toHaveLength(1);
+
+        expect(checkDiscussionLimits(state, 10, 2, memories(), shell)).toBe(2);
+        expect(posted).toHaveLength(1);
+    });
+
+    it('warns on the last question too', () => {
+        const { shell, posted } = recorder();
+        checkDiscussionLimits(discussing({ seconds: 0, questions: 3 }, { questionsAsked: 2 }), null, null, {}, shell);
+        expect(posted[0].text).toMatch(/^이제 질문 하나 정도밖에 못 하겠네요\./);
+    });
+
+    it('leaves the hurrying to colleagues who were not silenced overnight', () => {
+        const { shell, posted } = recorder();
+        const silenced = ['빌런', '가'].map((target): NightIncident => ({ round: 1, text: '', effect: 'silence', target, aftermath: '', clue: null }));
+        const state = discussing({ seconds: 60, questions: 0 }, { round: 2, incidents: silenced });
+        checkDiscussionLimits(state, 15, null, {}, shell);
+        expect(posted[0].sender).toBe('나래');
+    });
+});
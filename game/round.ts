@@ -0,0 +1,315 @@
+import type { Character, Message, Vote } from '../types';
+import { getCharacterResponses, getVoteAndConfession, editImageToRemoveCharacter } from '../services/geminiService';
+import type { CaseDetails } from '../services/providers';
+import { DEFENSE_REQUEST } from '../services/prompts';
+import { isAbortError } from '../services/aiRequests';
+import { createRandom, deriveSeed } from '../services/random';
+import { validateAiVotes, ballotResolved, votedOutName, getVillain, BallotContext, EngineAction, EngineState } from './engine';
+import { discoverEvidence, listEvidence } from './evidence';
+import { rememberExchange, rememberBallot, rememberIncident, MemoryBank } from './memory';
+import { investigate, hasInvestigatedThisRound, chooseInvestigationTarget, formatRoleSummary, RoleState } from './roles';
+import { planNightIncident, getSilenced } from './night';
+import { getHumans } from './hotSeat';
+import { undecidedReasons, narrateVote, narrateNextRound, narrateGameOver } from './narration';
+import { HURRY_SECONDS, questionsLeftOf, limitRunningOut, limitReached, narrateDiscussionOver, createHurryRemark } from './discussion';
+
+/**
+ * The steps of a round that call the AI, take time or run on a clock: the colleagues' replies,
+ * the ballot and its runoff, the discussion limits and the night. The single-device game and
+ * the room server both play them; each only supplies a `RoundShell` over its own state.
+ */
+
+/** How long the office stays dark before the next morning's announcement. */
+export const NIGHT_MS = 2500;
+
+const pause = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+/** The colleague whose reply is coming in, with what has arrived so far. */
+export interface Typing {
+    name: string;
+    text: string;
+}
+
+/** Where a round's steps leave their results. */
+export interface RoundShell {
+    dispatch(action: EngineAction): void;
+    post(...messages: Message[]): void;
+    /** A private line for one person. */
+    note(to: string, text: string): Message;
+    updateMemories(update: (memories: MemoryBank) => MemoryBank): void;
+    revealEvidence(ids: string[]): void;
+    setTyping(typing: Typing | null): void;
+}
+
+/** What the AI colleagues are told about the game while they answer or vote. */
+export interface RoundContext {
+    characters: Character[];
+    sabotage: string;
+    /** The chat as the AI hears it. */
+    history: Message[];
+    details: CaseDetails;
+}
+
+/** An AI investigator's quiet check at the start of each round's discussion; `roleState` is returned unchanged when there is none to run. */
+export const runInvestigatorCheck = (characters: Character[], round: number, roleState: RoleState, memories: MemoryBank): RoleState => {
+    const investigator = characters.find(c => c.role === 'investigator' && c.status === 'active' && !c.isPlayer);
+    if (!investigator || hasInvestigatedThisRound(roleState, round)) return roleState;
+    const target = chooseInvestigationTarget(investigator, characters, roleState, memories);
+    return target ? investigate(roleState, characters, investigator.name, target, round) : roleState;
+};
+
+/**
+ * Puts `question` to `responders` and posts their replies as they come in, each clue noted once
+ * its source has spoken. Resolves to the replies given before it finished or `signal` cut it
+ * off, and the colleagues who couldn't be reached even after retrying.
+ */
+export const hearReplies = async (
+    question: Message,
+    responders: Character[],
+    { characters, sabotage, history, details }: RoundContext,
+    clueReveals: number | null,
+    shell: RoundShell,
+    signal: AbortSignal
+): Promise<{ replies: Message[]; unreached: string[] }> => {
+    const discovered = discoverEvidence(details.evidence, question.text, responders, characters, details.revealedEvidence ?? [], clueReveals);
+    const entries = listEvidence(details.evidence, discovered.map(d => d.id));
+    const replies: Message[] = [];
+    const unreached: string[] = [];
+    try {
+        let typed = false;
+        for await (const event of getCharacterResponses(question.text, responders, question.addressees ?? [], characters, sabotage, history, question.sender, details, signal)) {
+            if (event.kind === 'typing') {
+                typed = true;
+                shell.setTyping({ name: event.name, text: event.text });
+                continue;
+            }
+            if (event.kind === 'failed') {
+                typed = false;
+                shell.setTyping(null);
+                unreached.push(event.name);
+                continue;
+            }
+            // A reply that arrived all at once still gets a moment of "typing".
+            if (!typed) {
+                shell.setTyping({ name: event.name, text: '' });
+                await pause(250 + Math.random() * 300);
+                if (signal.aborted) break;
+            }
+            typed = false;
+            const reply: Message = { sender: event.name, text: event.response };
+            replies.push(reply);
+            const found = discovered.filter(d => d.source === event.name);
+            const notes: Message[] = found
+                .map(d => entries.find(e => e.id === d.id))
+                .filter(Boolean)
+                .map(entry => ({ sender: 'system', text: `🔎 수사 노트에 추가됨 (${event.name}): ${entry.text}` }));
+            shell.setTyping(null);
+            shell.revealEvidence(found.map(d => d.id));
+            shell.post(reply, ...notes);
+        }
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
+        shell.post({ sender: 'system', text: `Error: ${errorMessage}` });
+    }
+    return { replies, unreached: signal.aborted ? [] : unreached };
+};
+
+/** When this round's discussion runs out of time (ms since the epoch). */
+export interface DiscussionClock {
+    round: number;
+    endsAt: number;
+}
+
+/**
+ * The clock for the round in `state`: the running one while the round lasts, so a failed ballot
+ * goes back to the same countdown, or a full one for a new round. `null` without a timer.
+ */
+export const clockForRound = (clock: DiscussionClock | null, state: EngineState, now: number = Date.now()): DiscussionClock | null => {
+    if (state.limits.seconds === 0) return null;
+    return clock?.round === state.round ? clock : { round: state.round, endsAt: now + state.limits.seconds * 1000 };
+};
+
+export const secondsLeftOn = (clock: DiscussionClock | null, round: number, now: number = Date.now()): number | null =>
+    clock?.round === round ? Math.max(0, Math.ceil((clock.endsAt - now) / 1000)) : null;
+
+/** How long until the limits are worth checking again: as the colleagues start to hurry, and as the time runs out. */
+export const clockAlarms = (clock: DiscussionClock, now: number = Date.now()): number[] => {
+    const untilEnd = Math.max(0, clock.endsAt - now);
+    return [Math.max(0, untilEnd - HURRY_SECONDS * 1000), untilEnd];
+};
+
+/**
+ * Opens the vote once the time or the questions have run out; until then a colleague presses
+ * for a decision once per round as either runs low. Call it only while nobody is answering.
+ * Returns the round the colleagues last pressed in, to pass back in as `hurriedRound`.
+ */
+export const checkDiscussionLimits = (
+    state: EngineState,
+    secondsLeft: number | null,
+    hurriedRound: number | null,
+    memories: MemoryBank,
+    shell: RoundShell
+): number | null => {
+    const questionsLeft = questionsLeftOf(state.limits, state.questionsAsked);
+    const reached = limitReached(secondsLeft, questionsLeft);
+    if (reached) {
+        shell.dispatch({ type: 'voting_opened' });
+        shell.post({ sender: 'system', text: narrateDiscussionOver(reached) });
+        return hurriedRound;
+    }
+    const runningOut = limitRunningOut(secondsLeft, questionsLeft);
+    if (!runningOut || hurriedRound === state.round) return hurriedRound;
+    const silenced = getSilenced(state.incidents, state.round);
+    const remark = createHurryRemark(state.characters.filter(c => !silenced.includes(c.name)), state.characters, memories, state.round, runningOut);
+    if (remark) {
+        shell.updateMemories(prev => rememberExchange(prev, state.characters, [remark]));
+        shell.post(remark);
+    }
+    return state.round;
+};
+
+/** The villain strikes again after hours; the incident is announced as the next round begins. */
+export const endNight = (state: EngineState, seed: number, memories: MemoryBank, shell: RoundShell): void => {
+    const night = state.round - 1;
+    const incident = planNightIncident(state.characters, night, memories, state.incidents, createRandom(deriveSeed(seed, `night-${night}`)));
+    shell.dispatch({ type: 'night_ended', incident });
+    if (!incident) return;
+    const villainPlayer = state.characters.find(c => c.isPlayer && c.role === 'villain');
+    if (incident.clue) shell.revealEvidence([incident.clue.id]);
+    shell.updateMemories(prev => rememberIncident(prev, incident));
+    shell.post(
+        { sender: 'system', text: `☀️ 다음 날 아침, 또 사건이 터졌습니다!\n\n"${incident.text}"\n\n${incident.aftermath}`, isSpecial: true },
+        ...(villainPlayer ? [shell.note(villainPlayer.name, '🌙 어젯밤 일은 당신의 소행입니다. 아무도 눈치채지 못하게 하세요.')] : []),
+        ...(incident.clue ? [{ sender: 'system', text: `🔎 수사 노트에 추가됨: ${incident.clue.text}` }] : []),
+    );
+};
+
+export interface BallotShell extends RoundShell {
+    /** Points at who a vote went to while it is read out, then at nobody (`null`). */
+    pointAt?(vote: Vote | null): void;
+    /** The scene picture has been redrawn without the fired colleague. */
+    sceneEdited(fired: string, imageUrl: string): void;
+    /** Human runoff finalists who may still say a word in their defense before the second ballot. */
+    setDefenders(names: string[]): void;
+}
+
+export interface BallotRound extends RoundContext {
+    context: BallotContext;
+    scene: { imageUrl: string | null; cast?: string[] };
+}
+
+/** `failed` leaves the game back at the vote, so the same ballots can be counted again. */
+export type BallotRun = 'counted' | 'failed' | 'cancelled';
+
+/**
+ * Counts a ballot once the people have voted: the AI colleagues vote, each vote is read out,
+ * and the result is narrated. A tie heads to a runoff after the finalists' defenses; a firing
+ * redraws the scene without them; the end of the game brings the villain's confession.
+ */
+export const runBallot = async (playerVotes: Vote[], round: BallotRound, shell: BallotShell, signal: AbortSignal): Promise<BallotRun> => {
+    const { characters, sabotage, history, details, context, scene } = round;
+    const villain = getVillain(characters);
+    if (!villain || playerVotes.length === 0) return 'cancelled';
+    shell.dispatch({ type: 'ballot_started' });
+    shell.setDefenders([]);
+    shell.post({ sender: 'system', text: '투표가 집계 중입니다...' });
+
+    try {
+        const { runoff, rules } = context;
+        // The AI only hears the first seat's vote, as it would alone; the others stay secret until the reveal.
+        const playerVote = playerVotes[0];
+        const { votes: aiVotes, confession } = await getVoteAndConfession(characters, sabotage, history, playerVote, { ...details, ...(runoff ? { candidates: runoff } : {}) }, signal);
+        // Drops duplicates and votes from fired or human colleagues.
+        const allVotes = [...playerVotes, ...validateAiVotes(characters, aiVotes, runoff)];
+
+        for (const vote of allVotes) {
+            shell.pointAt?.(vote);
+            await pause(800);
+            shell.dispatch({ type: 'vote_cast', vote });
+            shell.post({ sender: 'system', text: narrateVote(vote) });
+            // Leave time to read a colleague's reason before the next vote.
+            if (vote.reason) await pause(1700);
+            shell.pointAt?.(null);
+            await pause(200);
+        }
+        await pause(1500);
+
+        // The engine applies the rules; here we only narrate the result.
+        const resolved = ballotResolved(characters, allVotes, context);
+        shell.dispatch(resolved);
+        const { outcome, winner } = resolved.result;
+        const firedName = votedOutName(outcome);
+        const firedCharacter = characters.find(c => c.name === firedName) ?? null;
+        shell.updateMemories(prev => rememberBallot(prev, context.round, allVotes, firedName));
+        const humans = getHumans(characters);
+        const shared = humans.length > 1;
+
+        if (outcome.kind === 'runoff') {
+            // The finalists defend themselves, then everyone votes again.
+            shell.post({
+                sender: 'system',
+                text: `${undecidedReasons[outcome.reason]} ${outcome.candidates.join(', ')}님의 최후 변론을 듣고 결선 투표를 진행합니다.`,
+                isSpecial: true,
+            });
+            const aiFinalists = characters.filter(c => outcome.candidates.includes(c.name) && !c.isPlayer);
+            for await (const event of getCharacterResponses(DEFENSE_REQUEST, aiFinalists, aiFinalists.map(c => c.name), characters, sabotage, history, playerVote.voter, details, signal)) {
+                if (event.kind === 'typing') {
+                    shell.setTyping({ name: event.name, text: event.text });
+                    continue;
+                }
+                shell.setTyping(null);
+                // A finalist who can't be reached says nothing rather than holding up the runoff.
+                shell.post({ sender: event.name, text: event.kind === 'reply' ? event.response : '...' });
+            }
+            const humanFinalists = humans.filter(c => outcome.candidates.includes(c.name)).map(c => c.name);
+            if (humanFinalists.length > 0) {
+                shell.post(shared
+                    ? { sender: 'system', text: `${humanFinalists.join(', ')}님도 결선 후보입니다. 투표 전에 한마디씩 변론을 남길 수 있습니다.` }
+                    : { sender: 'system', text: '당신도 결선 후보입니다. 투표 전에 한마디 변론을 남길 수 있습니다.', isPrivate: true });
+                shell.setDefenders(humanFinalists);
+            }
+            shell.dispatch({ type: 'round_concluded' });
+            return 'counted';
+        }
+
+        if (firedCharacter) {
+            shell.post({ sender: 'system', text: `투표 결과, ${firedCharacter.name}님이 가장 많은 표를 받아 해고되었습니다...` });
+            // Colleagues dealt in from other scenarios aren't in this scene's picture.
+            const isInScene = !scene.cast || scene.cast.includes(firedCharacter.name);
+            if (scene.imageUrl && isInScene && firedCharacter.visualDescription) {
+                // Not awaited, so the game goes on while the picture is redrawn; a failure only leaves the old scene.
+                editImageToRemoveCharacter(scene.imageUrl, firedCharacter.visualDescription, signal)
+                    .then(newImageUrl => {
+                        if (newImageUrl) shell.sceneEdited(firedCharacter.name, newImageUrl);
+                    })
+                    .catch(error => console.warn("Could not show the edited scene.", error));
+            }
+            await pause(2000);
+        }
+
+        if (!winner) {
+            shell.post({ sender: 'system', text: narrateNextRound(outcome, firedCharacter), isSpecial: true });
+        } else {
+            // Hot-seat narration can't address "you", so villain-player lines are for a lone player only.
+            const asVillain = !shared && humans[0]?.role === 'villain';
+            const [headline, ...aftermath] = narrateGameOver(outcome, firedCharacter, villain, rules.roundLimit, { asVillain, shared });
+            shell.post({ sender: 'system', text: headline, isSpecial: true });
+            if (aftermath.length > 0) await pause(2000);
+            shell.post(
+                ...aftermath.map(text => ({ sender: 'system', text, isSpecial: true })),
+                { sender: villain.name, text: `[자백] ${confession}` },
+                { sender: 'system', text: formatRoleSummary(characters) },
+            );
+        }
+        shell.dispatch({ type: 'round_concluded' });
+        return 'counted';
+    } catch (e) {
+        if (isAbortError(e)) return 'cancelled';
+        console.error("Ballot failed:", e);
+        // Back to the vote with the ballots kept, so it can be counted again.
+        shell.dispatch({ type: 'ballot_cancelled' });
+        return 'failed';
+    } finally {
+        shell.setTyping(null);
+    }
+};
@@ -0,0 +1,83 @@
+import type { Character, Message } from '../types';
+import type { Evidence } from '../pregeneratedContent';
+import { mentionsCharacter } from './names';
+import { getHumans } from './hotSeat';
+
+/** Above this score the colleagues stop taking the player's word for things. */
+export const SCRUTINY_THRESHOLD = 2;
+
+/** Words that turn naming a colleague into blaming them. */
+const ACCUSATION_KEYWORDS = ['수상', '범인', '빌런', '의심', '거짓말', '네가 했', '당신이 했'];
+
+/**
+ * How much the player's own conduct invites questions, with the reasons in plain English for
+ * the prompts. It is built only from public information, so colleagues never learn the
+ * player's role from it.
+ */
+export interface Scrutiny {
+    score: number;
+    reasons: string[];
+}
+
+/**
+ * Judges the player on what they have said and what has come out: uncovered evidence pointing
+ * at them, details of a clue nobody has brought up yet ("guilty knowledge"), spreading blame
+ * over many colleagues, or hammering on one.
+ */
+export const assessScrutiny = (
+    player: Character,
+    characters: Character[],
+    chatHistory: Message[],
+    sabotage: string,
+    evidence: Evidence | undefined,
+    revealed: string[] = []
+): Scrutiny => {
+    const reasons: string[] = [];
+    let score = 0;
+    const said = chatHistory.filter(m => m.sender === player.name).map(m => m.text);
+    const firstToSay = (word: string) => chatHistory.find(m => m.sender !== 'system' && m.text.includes(word))?.sender;
+    const isName = (word: string) => characters.some(c => mentionsCharacter(word, c.name));
+
+    (evidence?.clues ?? []).filter(c => c.implicates === player.name).forEach(clue => {
+        if (revealed.includes(clue.id)) {
+            score += 2;
+            reasons.push(`uncovered evidence points at them: "${clue.text}"`);
+            return;
+        }
+        if (clue.knownBy.includes(player.name)) return;
+        // One common word proves nothing; two details of the same unrevealed clue are a slip.
+        const slips = clue.keywords.filter(k => k.length >= 2 && !isName(k) && !sabotage.includes(k) && firstToSay(k) === player.name);
+        if (slips.length >= 2) {
+            score += 1.5;
+            reasons.push(`they mentioned ${slips.map(k => `"${k}"`).join(' and ')} before anyone had brought it up`);
+        }
+    });
+
+    const others = characters.filter(c => c.name !== player.name && c.status === 'active');
+    const blaming = said.filter(t => ACCUSATION_KEYWORDS.some(k => t.includes(k)));
+    const accusations = others.map(c => ({ name: c.name, count: blaming.filter(t => mentionsCharacter(t, c.name)).length }));
+    const accused = accusations.filter(a => a.count > 0);
+    if (accused.length >= 3) {
+        score += 1;
+        reasons.push(`they keep pointing fingers at different people (${accused.map(a => a.name).join(', ')})`);
+    }
+    const fixation = accusations.find(a => a.count >= 3);
+    if (fixation) {
+        score += 1;
+        reasons.push(`they keep pushing blame onto ${fixation.name}`);
+    }
+
+    return { score, reasons };
+};
+
+/** `assessScrutiny` for each person still in the game; with several, each is judged on their own words. */
+export const assessHumans = (
+    characters: Character[],
+    chatHistory: Message[],
+    sabotage: string,
+    evidence: Evidence | undefined,
+    revealed: string[] = []
+): { player: Character; scrutiny: Scrutiny }[] =>
+    getHumans(characters)
+        .filter(player => player.status === 'active')
+        .map(player => ({ player, scrutiny: assessScrutiny(player, characters, chatHistory, sabotage, evidence, revealed) }));
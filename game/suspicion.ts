@@ -0,0 +1,37 @@
+import type { Character } from '../types';
+import type { MemoryBank } from './memory';
+
+/** The raw suspicion at which a colleague counts as half convinced. */
+const HALF_CONVINCED = 3;
+
+/** One colleague's suspicion of another, squashed into 0 (none) to 1 (certain). */
+export const suspicionLevel = (score: number): number => (score > 0 ? score / (score + HALF_CONVINCED) : 0);
+
+/** How the room is leaning on one colleague: the average level, and who holds it. */
+export interface SuspicionReading {
+    level: number;
+    /** Each AI colleague's own level, most suspicious first. */
+    suspectedBy: { name: string; level: number }[];
+}
+
+/**
+ * Reads every active colleague's standing from the AI colleagues' memories. Those suspicions
+ * come only from what was said in the open, anonymous tips and framings, so the reading gives
+ * away nobody's role and is safe to show everyone.
+ */
+export const readTheRoom = (memories: MemoryBank, characters: Character[]): { [name: string]: SuspicionReading } => {
+    const active = characters.filter(c => c.status === 'active');
+    const observers = active.filter(c => !c.isPlayer && memories[c.name]);
+    return Object.fromEntries(active.map(target => {
+        const suspectedBy = observers
+            .filter(o => o.name !== target.name)
+            .map(o => ({ name: o.name, level: suspicionLevel(memories[o.name].suspicion[target.name] ?? 0) }))
+            .sort((a, b) => b.level - a.level);
+        const level = suspectedBy.length > 0 ? suspectedBy.reduce((sum, s) => sum + s.level, 0) / suspectedBy.length : 0;
+        return [target.name, { level, suspectedBy }];
+    }));
+};
+
+/** Puts a level into words for the prompts. */
+export const describeSuspicionLevel = (level: number): string =>
+    level >= 0.6 ? 'strongly suspect' : level >= 0.3 ? 'somewhat suspect' : level > 0 ? 'slightly suspect' : 'have no reason to suspect';
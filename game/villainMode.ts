@@ -0,0 +1,109 @@
+import type { Character } from '../types';
+import type { Evidence, ScenarioScript } from '../pregeneratedContent';
+import type { BallotRecord } from './engine';
+import { isVillainSide, RoleState } from './roles';
+
+/**
+ * The anonymous tips the player can plant, one per round. `{target}` is the framed colleague.
+ */
+const DOUBT_TIPS = [
+    '{target}님이 사건 직전에 현장 근처에서 통화하는 걸 봤다는 쪽지가 제보함에 들어왔습니다.',
+    '{target}님 메신저 상태가 사건 시각에 "자리 비움"이었다는 익명 제보가 들어왔습니다.',
+    '{target}님이 요즘 회사에 불만이 많았다는 익명 쪽지가 돌고 있습니다.',
+];
+
+/**
+ * Private notes for a player dealt the villain: the motive they will confess at the end, the
+ * cover story they are supposed to keep, and who might have seen something.
+ */
+export const getVillainBriefing = (
+    player: Character,
+    script: ScenarioScript | undefined,
+    evidence: Evidence | undefined
+): string[] => {
+    const witnesses = (evidence?.clues ?? [])
+        .filter(c => c.implicates === player.name && c.knownBy.length > 0)
+        .map(c => `${c.knownBy.join(', ')}님${c.time ? ` (${c.time} 무렵)` : ''}`);
+    return [
+        script?.confession
+            ? `🎭 당신의 속마음: "${script.confession}"`
+            : '🎭 당신이 왜 그랬는지는 당신만 알고 있습니다. 끝까지 숨기세요.',
+        evidence?.alibis[player.name]
+            ? `🗣️ 당신의 알리바이(거짓말): ${evidence.alibis[player.name]} 말이 바뀌지 않게 조심하세요.`
+            : '🗣️ 준비된 알리바이가 없습니다. 그 시간에 어디 있었는지 그럴듯하게 지어내세요.',
+        ...(witnesses.length > 0 ? [`👀 당신을 봤을지도 모르는 사람: ${witnesses.join(' / ')}`] : []),
+        '🗯️ 라운드마다 한 번, 동료 카드의 "의심 심기"로 익명 제보를 넣어 다른 사람에게 의심을 돌릴 수 있습니다.',
+    ];
+};
+
+export const hasPlantedDoubtThisRound = (roleState: RoleState, round: number): boolean =>
+    roleState.doubts.some(d => d.round === round);
+
+/**
+ * Records a planted doubt and returns the tip text announced to the room, or `null` when the
+ * villain has already used this round's tip or the target can't be framed (themselves included).
+ */
+export const plantDoubt = (
+    roleState: RoleState,
+    characters: Character[],
+    targetName: string,
+    round: number
+): { roleState: RoleState; tip: string | null } => {
+    const target = characters.find(c => c.name === targetName);
+    if (!target || target.role === 'villain' || target.status !== 'active' || hasPlantedDoubtThisRound(roleState, round)) {
+        return { roleState, tip: null };
+    }
+    const tip = DOUBT_TIPS[roleState.doubts.length % DOUBT_TIPS.length].split('{target}').join(targetName);
+    return { roleState: { ...roleState, doubts: [...roleState.doubts, { round, target: targetName }] }, tip };
+};
+
+export interface DeceptionReport {
+    /** 0-100. */
+    score: number;
+    grade: 'S' | 'A' | 'B' | 'C' | 'D';
+    title: string;
+    roundsSurvived: number;
+    votesAgainst: number;
+    innocentsFired: string[];
+    /** Colleagues the player planted doubt on who were later fired. */
+    doubtsLanded: string[];
+    /** Uncovered clues pointing at the player. */
+    cluesAgainst: number;
+}
+
+const GRADES: { min: number; grade: DeceptionReport['grade']; title: string }[] = [
+    { min: 90, grade: 'S', title: '완전범죄' },
+    { min: 70, grade: 'A', title: '타고난 포커페이스' },
+    { min: 50, grade: 'B', title: '아슬아슬한 연기' },
+    { min: 30, grade: 'C', title: '어딘가 수상한 사람' },
+    { min: 0, grade: 'D', title: '들통난 빌런' },
+];
+
+/**
+ * Scores how well the player deceived the office: winning counts most, every innocent fired and
+ * every tip that stuck adds to it, and each vote or uncovered clue against them takes away.
+ */
+export const scoreDeception = (
+    player: Character,
+    characters: Character[],
+    ballots: BallotRecord[],
+    roleState: RoleState,
+    evidence: Evidence | undefined,
+    revealed: string[],
+    won: boolean
+): DeceptionReport => {
+    const votesAgainst = ballots.reduce((sum, b) => sum + b.votes.filter(v => v.votedFor === player.name).length, 0);
+    const fired = ballots.map(b => b.votedOut).filter(Boolean);
+    const innocentsFired = fired.filter(name => characters.some(c => c.name === name && !isVillainSide(c)));
+    const doubtsLanded = roleState.doubts.map(d => d.target).filter(name => innocentsFired.includes(name));
+    const cluesAgainst = (evidence?.clues ?? [])
+        .filter(c => revealed.includes(c.id) && c.implicates === player.name)
+        .length;
+    const roundsSurvived = ballots.filter(b => b.votedOut !== player.name).length;
+
+    const raw = (won ? 50 : 0) + innocentsFired.length * 10 + doubtsLanded.length * 10 + roundsSurvived * 5
+        - votesAgainst * 3 - cluesAgainst * 5;
+    const score = Math.max(0, Math.min(100, raw));
+    const { grade, title } = GRADES.find(g => score >= g.min);
+    return { score, grade, title, roundsSurvived, votesAgainst, innocentsFired, doubtsLanded, cluesAgainst };
+};
@@ -0,0 +1,44 @@
+/**
+ * How a ballot is decided and when the game ends. Chosen on the welcome screen and kept with
+ * the game, so a saved game resumes under the rules it started with.
+ */
+export interface VoteRules {
+    /** `plurality`: the most votes fires. `majority`: only more than half of the voters does. */
+    threshold: 'plurality' | 'majority';
+    /** An undecided ballot goes to a runoff between the leaders after a short defense. */
+    runoff: boolean;
+    /** What an undecided ballot (after any runoff) means: nobody is fired, or the villain escapes. */
+    onUndecided: 'next_round' | 'villain_wins';
+    /** Whether the player may abstain. */
+    allowAbstain: boolean;
+    /** The villain's side wins once fewer than this many citizens remain after a firing. */
+    minCitizens: number;
+    /** The villain's side wins if still free after this many rounds; 0 for no limit. */
+    roundLimit: number;
+}
+
+export const DEFAULT_VOTE_RULES: VoteRules = {
+    threshold: 'plurality',
+    runoff: true,
+    onUndecided: 'next_round',
+    allowAbstain: true,
+    minCitizens: 2,
+    roundLimit: 0,
+};
+
+/** The rules the game used before they became configurable: any tie or empty ballot loses. */
+export const CLASSIC_VOTE_RULES: VoteRules = {
+    threshold: 'plurality',
+    runoff: false,
+    onUndecided: 'villain_wins',
+    allowAbstain: false,
+    minCitizens: 2,
+    roundLimit: 0,
+};
+
+/**
+ * Whether `top` votes settle the ballot. Majority counts everyone eligible to vote, so
+ * abstaining works against a firing.
+ */
+export const isDecisive = (rules: VoteRules, top: number, voterCount: number): boolean =>
+    top > 0 && (rules.threshold === 'plurality' || top > voterCount / 2);
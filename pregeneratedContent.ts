@@ -1,5 +1,7 @@
 // This file contains pre-generated game scenarios to eliminate loading times.
 // Each game set includes a sabotage plot, a scene image, and a cast of characters with their portraits.
+// Each set also carries an authored script so the offline NPC mode can run without any AI provider,
+// and structured evidence so the investigation is grounded in facts the characters agree on.
 // NOTE: All placeholder image data has been replaced with unique, valid pixel art base64 strings.
 
 export interface PregeneratedCharacter {
@@ -11,10 +13,53 @@ export interface PregeneratedCharacter {
   imageUrl: string;
 }
 
+/**
+ * Lines a character can say in offline mode. Accusations use `{target}` as a placeholder
+ * for the colleague being accused.
+ */
+export interface ScriptedLines {
+  alibi: string[];
+  deflection: string[];
+  accusation: string[];
+}
+
+export interface ScenarioScript {
+  /** The villain's confession, revealed at the end of the game. */
+  confession: string;
+  /** Line banks keyed by character name. */
+  lines: { [characterName: string]: ScriptedLines };
+}
+
+export interface Clue {
+  id: string;
+  kind: 'timeline' | 'physical';
+  /** Time of day for timeline events, e.g. "08:50" or "어제 21:30". */
+  time?: string;
+  text: string;
+  /** Characters who know this clue and can reveal it when asked. */
+  knownBy: string[];
+  /** Words in the player's question that lead someone who knows the clue to reveal it. */
+  keywords: string[];
+  /** The character this clue points towards, if any. Villains keep quiet about clues against them. */
+  implicates?: string;
+}
+
+export interface Evidence {
+  /** What each character claims they were doing, keyed by character name. */
+  alibis: { [characterName: string]: string };
+  clues: Clue[];
+}
+
 export interface GameSet {
+  /** Tells scenarios apart on the player's record, however each deal rewrote the text; see `scenarioIdOf`. */
+  id?: string;
   sabotage: string;
   sceneImageUrl: string;
   characters: PregeneratedCharacter[];
+  /** Who is drawn in `sceneImageUrl`, when that is not the whole cast (e.g. a cast mixed from several sets). */
+  sceneCast?: string[];
+  script?: ScenarioScript;
+  evidence?: Evidence;
 }
 
 export const pregeneratedGameSets: GameSet[] = [
@@ -27,7 +72,46 @@ export const pregeneratedGameSets: GameSet[] = [
       { name: "이서연 사원", position: "디자인팀", personality: "폰트에 민감한", isVillain: false, visualDescription: "a stylish woman with short bob hair, looking annoyed", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAK9JREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "박현우 과장", position: "영업팀", personality: "호탕하고 유쾌한", isVillain: false, visualDescription: "a laughing man with a friendly smile and slightly messy hair", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALZJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "최지아 팀장", position: "인사팀", personality: "원칙을 중시하는", isVillain: false, visualDescription: "a woman with her hair in a bun, wearing a sharp blazer, looking stern", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKtJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-    ]
+    ],
+    script: {
+      confession: "궁서체야말로 보고서의 품격입니다. 가벼운 고딕체로는 제 진심이 전달되지 않는다고 생각했어요. 모든 문서가 진지해지길 바랐을 뿐입니다.",
+      lines: {
+        "김민준 대리": {
+          alibi: ["저는 아침 내내 분기 보고서를 검토하고 있었습니다. 프린터 근처엔 출력물 찾으러 잠깐 간 것뿐입니다.", "어제 야근할 때도 저는 제 자리에만 있었습니다. 진지하게 말씀드리는 겁니다."],
+          deflection: ["궁서체가 나쁜 폰트는 아니지 않습니까? 오히려 보고서가 한결 진중해졌습니다.", "폰트 설정 같은 건 전문가가 아니면 바꾸기도 어렵습니다. 저는 그런 데 관심 없습니다."],
+          accusation: ["솔직히 폰트 얘기만 나오면 제일 민감해지는 분이 {target} 아닙니까?", "{target}, 아까 프린터 설정 화면을 한참 보고 계시던데요."]
+        },
+        "이서연 사원": {
+          alibi: ["저는 출근하자마자 시안 작업하느라 모니터에서 눈을 뗀 적이 없어요.", "궁서체라니, 제가 그랬다면 차라리 폰트 라이선스부터 확인했을 거예요."],
+          deflection: ["저를 의심하시는 건 이해하지만, 저라면 절대 궁서체는 안 골라요.", "폰트 좋아한다고 범인은 아니잖아요."],
+          accusation: ["보고서가 '근엄해지는' 걸 제일 반길 사람이 누굴까요? 저는 {target}이(가) 떠올라요.", "{target}, 요즘 출력물 스타일에 유난히 신경 쓰시던데요?"]
+        },
+        "박현우 과장": {
+          alibi: ["하하, 저는 오전 내내 거래처랑 통화하느라 바빴어요! 프린터는 구경도 못 했습니다.", "저는 출력은 다 후배한테 맡겨요. 설정 바꾸는 법도 모릅니다, 하하!"],
+          deflection: ["에이, 제가 그런 장난을 칠 사람으로 보여요? 전 장난을 쳐도 대놓고 칩니다!", "궁서체요? 저는 뭐가 바뀐지도 몰랐어요, 하하."],
+          accusation: ["아까 {target}이(가) 출력물 보면서 흐뭇하게 웃던데, 좀 수상하지 않아요?", "{target}, 솔직하게 말해봐요. 궁서체 좋아하죠?"]
+        },
+        "최지아 팀장": {
+          alibi: ["저는 오전에 인사위원회 회의에 참석했습니다. 회의록으로 확인 가능합니다.", "규정상 공용 장비 설정은 총무 승인 없이 바꿀 수 없습니다. 저는 그 절차를 누구보다 잘 압니다."],
+          deflection: ["원칙대로 조사합시다. 근거 없는 추측은 곤란합니다.", "저를 의심하신다면 절차에 따라 증거를 제시해 주세요."],
+          accusation: ["{target}, 오늘 아침 출력 기록부터 확인해 봐야겠습니다.", "{target}, 오늘 프린터 근처에 계셨던 시간을 정확히 말씀해 주시죠."]
+        }
+      }
+    },
+    evidence: {
+      alibis: {
+        "김민준 대리": "08:30부터 10:00까지 자리에서 분기 보고서를 검토했다고 주장한다.",
+        "이서연 사원": "출근하자마자 자리에서 시안 작업을 했다고 한다.",
+        "박현우 과장": "오전 내내 거래처와 통화했다고 한다.",
+        "최지아 팀장": "오전에는 인사위원회 회의에 참석했다고 한다."
+      },
+      clues: [
+        { id: "printer-back", kind: "timeline", time: "08:50", text: "누군가 프린터 앞에서 설정 메뉴를 한참 누르고 있었다. 뒷모습만 보였는데, 머리를 단정하게 빗어 넘긴 남자였다.", knownBy: ["이서연 사원"], keywords: ["프린터", "아침", "오전", "봤", "목격"], implicates: "김민준 대리" },
+        { id: "first-print", kind: "timeline", time: "09:10", text: "출력 기록상 궁서체로 나온 첫 문서는 마케팅팀 주간 보고서였다.", knownBy: ["최지아 팀장"], keywords: ["출력", "기록", "보고서", "처음", "첫"], implicates: "김민준 대리" },
+        { id: "postit", kind: "physical", text: "프린터 옆에 '진지함이 곧 품격'이라고 적힌 포스트잇이 붙어 있었다.", knownBy: ["박현우 과장"], keywords: ["포스트잇", "메모", "흔적", "프린터 옆"], implicates: "김민준 대리" },
+        { id: "font-book", kind: "physical", text: "이서연 사원의 책상 위에 궁서체가 포함된 폰트 견본집이 펼쳐져 있었다.", knownBy: ["김민준 대리", "박현우 과장"], keywords: ["폰트", "책상", "견본", "디자인"], implicates: "이서연 사원" }
+      ]
+    }
   },
   // Set 2: Desktop Wallpaper Sabotage
   {
@@ -38,7 +122,46 @@ export const pregeneratedGameSets: GameSet[] = [
       { name: "윤태영 대리", position: "기획팀", personality: "CEO에게 잘 보이고 싶은", isVillain: true, visualDescription: "a man in a crisp shirt, with an overly enthusiastic smile", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAK9JREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "한지민 과장", position: "재무팀", personality: "숫자에 밝고 꼼꼼한", isVillain: false, visualDescription: "a woman with sharp eyes and a calculator on her desk, looking suspicious", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALZJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "강동현 부장", position: "총무팀", personality: "느긋하고 여유로운", isVillain: false, visualDescription: "an older man leaning back in his chair with a cup of tea", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKtJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-    ]
+    ],
+    script: {
+      confession: "CEO님께서 지나가다 제 모니터를 보고 미소 지으시는 상상을 했어요. 어차피 할 거면 모두가 함께 충성심을 보여야 공평하잖아요!",
+      lines: {
+        "정다은 사원": {
+          alibi: ["저는 오전에 프린터 드라이버 업데이트 티켓 처리하고 있었어요. 로그 다 남아 있어요.", "바탕화면 일괄 변경은 관리자 권한이 필요해요. 저는 어제 휴가였고요."],
+          deflection: ["IT팀이라고 다 의심받는 건 좀 억울해요.", "제가 했다면 훨씬 깔끔하게 했을 거예요. 이건 아마추어 솜씨예요."],
+          accusation: ["그룹 정책 로그를 보니 {target} 계정으로 접속한 흔적이 있어요.", "{target}, 어제 저한테 바탕화면 바꾸는 법 물어보셨죠?"]
+        },
+        "윤태영 대리": {
+          alibi: ["저는 어제 CEO님 보고 자료 준비하느라 정신없었습니다! 다른 데 신경 쓸 틈이 없었어요.", "저는 아침 일찍 와서 CEO님 일정만 챙기고 있었습니다."],
+          deflection: ["근데 솔직히 CEO님 사진 보니까 힘이 나지 않으세요? 범인도 나쁜 뜻은 아니었을 거예요.", "저요? 저는 컴퓨터 설정 같은 거 잘 몰라요. 정말이에요."],
+          accusation: ["IT 권한이 있는 사람이 제일 쉽게 할 수 있지 않을까요? {target} 쪽이 수상한데요.", "{target}, 아까 CEO님 사진 파일 어디서 구했는지 얘기하시던데요?"]
+        },
+        "한지민 과장": {
+          alibi: ["저는 오전 내내 월말 정산을 하고 있었습니다. 엑셀 저장 기록이 증거예요.", "숫자 맞추는 것만으로도 바빠요. 바탕화면 바꿀 시간은 없습니다."],
+          deflection: ["저는 근거 없이 움직이지 않아요. 저를 의심하려면 숫자로 보여주세요.", "꼼꼼한 성격이라고 범인은 아니죠."],
+          accusation: ["계산해 보면 어제 마지막으로 퇴근한 사람은 {target}이에요.", "{target}, CEO님 사진 해상도가 너무 좋던데 원본은 어디서 났어요?"]
+        },
+        "강동현 부장": {
+          alibi: ["허허, 나는 어제 차 마시고 일찍 퇴근했어요.", "나는 컴퓨터 켜는 것도 막내가 도와줘요. 허허."],
+          deflection: ["다들 너무 흥분하지 말고 차 한 잔씩 하면서 얘기합시다.", "바탕화면이야 뭐, 며칠 지나면 다들 익숙해지겠지요."],
+          accusation: ["내가 보기엔 {target}이(가) 요즘 유난히 CEO님 얘기를 많이 하던데.", "{target}, 어제 늦게까지 남아 있지 않았나?"]
+        }
+      }
+    },
+    evidence: {
+      alibis: {
+        "정다은 사원": "어제는 휴가였고, 오늘 아침엔 IT 티켓을 처리했다고 한다.",
+        "윤태영 대리": "어제 저녁 CEO 보고 자료 때문에 야근했지만 자기 자리를 떠나지 않았다고 주장한다.",
+        "한지민 과장": "오전 내내 월말 정산을 했다고 한다.",
+        "강동현 부장": "어제 18시에 퇴근했다고 한다."
+      },
+      clues: [
+        { id: "admin-login", kind: "timeline", time: "어제 21:30", text: "IT 관리자 PC에 누군가 로그인했다. 그 시간 야근자 명단에는 기획팀 직원 한 명뿐이었다.", knownBy: ["정다은 사원"], keywords: ["로그", "관리자", "기록", "밤", "야근", "어제"], implicates: "윤태영 대리" },
+        { id: "ceo-photo", kind: "physical", text: "바탕화면의 CEO 사진은 인트라넷에 없는 고화질 원본이었다. 지난주 기획팀이 CEO 인터뷰 자료로 받은 파일이다.", knownBy: ["한지민 과장"], keywords: ["사진", "원본", "화질", "파일"], implicates: "윤태영 대리" },
+        { id: "password-note", kind: "physical", text: "정다은 사원의 모니터 옆에 관리자 비밀번호가 적힌 포스트잇이 붙어 있다.", knownBy: ["강동현 부장", "윤태영 대리"], keywords: ["비밀번호", "포스트잇", "권한", "IT"], implicates: "정다은 사원" },
+        { id: "scheduled-policy", kind: "timeline", time: "08:00", text: "출근해 보니 모두의 바탕화면이 바뀌어 있었다. 그룹 정책은 전날 밤에 예약 적용된 것이었다.", knownBy: ["정다은 사원", "강동현 부장"], keywords: ["출근", "언제", "시간", "바탕화면", "아침"] }
+      ]
+    }
   },
   // Set 3: Meeting Room Name Sabotage
   {
@@ -49,7 +172,46 @@ export const pregeneratedGameSets: GameSet[] = [
       { name: "문성호 대리", position: "개발팀", personality: "장난기가 많은", isVillain: true, visualDescription: "a young man with a mischievous grin and a hoodie", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKpJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "오수진 과장", position: "법무팀", personality: "항상 심각한", isVillain: false, visualDescription: "a woman with a stern expression, adjusting her glasses", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALFJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
       { name: "임철민 팀장", position: "영업2팀", personality: "회의를 자주 잡는", isVillain: false, visualDescription: "a man pointing at a chart, looking frustrated", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKhJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-    ]
+    ],
+    script: {
+      confession: "다들 회의가 너무 많아서요... 가짜 예약으로 회의실을 다 막아버리면 조금은 쉴 수 있을 줄 알았죠. 'CEO님과의 비밀 티타임'은 그냥 재미로 넣었어요.",
+      lines: {
+        "송예리 사원": {
+          alibi: ["저는 CEO님 실제 일정을 관리하느라 예약 시스템을 볼 틈도 없었어요.", "가짜 티타임 때문에 제 캘린더가 엉망이 됐어요. 피해자는 저예요!"],
+          deflection: ["저를 의심하시면 CEO님 일정은 누가 챙기나요?", "저는 일정에 거짓말을 넣는 건 상상도 못 해요."],
+          accusation: ["예약자 이름이 전부 지워져 있었는데, 그런 장난을 할 줄 아는 사람은 {target}밖에 없어요.", "{target}, 어제 예약 시스템 화면 캡처해서 웃고 계시던데요?"]
+        },
+        "문성호 대리": {
+          alibi: ["저는 어제 배포 때문에 서버 로그만 보고 있었어요. 진짜로요.", "저 오전엔 코드 리뷰하고 있었어요. 예약 시스템은 들어가 본 적도 없어요."],
+          deflection: ["에이, 제가 장난은 좋아해도 이렇게 티 나게는 안 하죠. ㅎㅎ", "근데 'CEO님과의 비밀 티타임'은 좀 웃기지 않아요? 누군지 몰라도 센스는 있네요."],
+          accusation: ["회의실을 제일 많이 잡는 분이 {target}이잖아요. 자작극 아닐까요?", "{target}, 예약 시스템 관리자 비밀번호 알고 계시죠?"]
+        },
+        "오수진 과장": {
+          alibi: ["저는 계약서 검토 때문에 오전 내내 자리에 있었습니다.", "허위 예약은 업무방해에 해당할 수 있습니다. 저는 그런 리스크를 감수하지 않습니다."],
+          deflection: ["법적으로 말씀드리면, 정황만으로 저를 범인으로 볼 수는 없습니다.", "심각한 얼굴이라고 죄가 있는 건 아닙니다."],
+          accusation: ["예약 접속 기록을 확인해 보면 {target}이(가) 나올 가능성이 높아 보입니다.", "{target}, 이번 일이 재미있다고 생각하시는 것 같군요. 심각한 문제입니다."]
+        },
+        "임철민 팀장": {
+          alibi: ["제 회의가 전부 취소돼서 제가 제일 큰 피해자입니다!", "저는 어제 외근이라 예약 시스템에 접속할 수가 없었어요."],
+          deflection: ["제가 회의를 좋아하는 건 맞지만, 가짜 회의는 싫어합니다.", "회의 많이 잡는다고 다 의심하시면 곤란하죠."],
+          accusation: ["회의 싫어하는 사람이 범인입니다. {target}, 제 회의 때마다 한숨 쉬셨죠?", "{target}이(가) 아까 '회의실이 없어서 다행'이라고 하던데요."]
+        }
+      }
+    },
+    evidence: {
+      alibis: {
+        "송예리 사원": "오전 내내 CEO의 실제 일정을 조율하느라 통화 중이었다고 한다.",
+        "문성호 대리": "오전에는 코드 리뷰를 했고 예약 시스템에는 접속한 적도 없다고 주장한다.",
+        "오수진 과장": "계약서 검토 때문에 오전 내내 자리에 있었다고 한다.",
+        "임철민 팀장": "어제 하루 종일 외근이었다고 한다."
+      },
+      clues: [
+        { id: "bulk-booking", kind: "timeline", time: "10:15", text: "가짜 예약 20건이 1분 만에 한꺼번에 등록되었다. 손으로는 불가능한 속도다.", knownBy: ["송예리 사원"], keywords: ["예약", "언제", "시간", "한꺼번", "등록"], implicates: "문성호 대리" },
+        { id: "api-log", kind: "physical", text: "예약 시스템 접속 기록에 개발팀 테스트 서버의 IP가 찍혀 있다.", knownBy: ["오수진 과장"], keywords: ["기록", "로그", "IP", "서버", "접속"], implicates: "문성호 대리" },
+        { id: "frequent-booker", kind: "physical", text: "임철민 팀장은 지난주에만 회의실을 15번 예약했다.", knownBy: ["송예리 사원", "문성호 대리"], keywords: ["회의", "자주", "많이", "팀장"], implicates: "임철민 팀장" },
+        { id: "giggle", kind: "timeline", time: "10:20", text: "후드티를 입은 누군가가 모니터를 보며 키득거리는 소리가 들렸다.", knownBy: ["오수진 과장"], keywords: ["웃", "소리", "봤", "들었", "목격"], implicates: "문성호 대리" }
+      ]
+    }
   },
   // Set 4: Wi-Fi Password
   {
@@ -60,7 +222,46 @@ export const pregeneratedGameSets: GameSet[] = [
         { name: "차범근 대리", position: "기획팀", personality: "아부를 잘하는", isVillain: true, visualDescription: "a man giving a thumbs up with a wide, slightly fake smile", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKpJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
         { name: "유재이 과장", position: "콘텐츠팀", personality: "마감이 급한", isVillain: false, visualDescription: "a woman looking stressed, with messy hair and holding a tablet", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALFJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
         { name: "하동훈 부장", position: "인사팀", personality: "분위기 파악이 빠른", isVillain: false, visualDescription: "a man with crossed arms, looking thoughtfully at the ceiling", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKhJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-    ]
+    ],
+    script: {
+      confession: "부장님께서 와이파이 연결하실 때마다 제 마음을 알아주실 줄 알았어요. 'ilovemyboss1234'... 진심을 담은 비밀번호였습니다.",
+      lines: {
+        "나희선 사원": {
+          alibi: ["저는 어제 보안 점검 보고서 쓰느라 공유기 근처에도 안 갔어요.", "제가 바꿨다면 특수문자 포함 16자리로 했을 거예요. 이건 너무 약해요."],
+          deflection: ["비밀번호 전문가라서 오히려 이런 허술한 비밀번호는 못 만들어요.", "공유기 관리자 페이지는 누구나 들어갈 수 있게 돼 있었어요. 저만 의심하지 마세요."],
+          accusation: ["공유기 접속 기록에 {target}의 노트북 이름이 찍혀 있었어요.", "{target}, 'boss'라는 단어 좋아하시잖아요."]
+        },
+        "차범근 대리": {
+          alibi: ["저는 어제 부장님 보고서 챙기느라 야근했어요. 부장님도 아실 거예요!", "저 공유기가 어디 있는지도 몰라요. 진짜예요."],
+          deflection: ["근데 비밀번호가 뭐 어때서요? 상사를 사랑하는 건 좋은 거잖아요.", "다들 인터넷 없이도 열심히 일하시니 보기 좋네요. 하하."],
+          accusation: ["IT 쪽 아시는 분이 제일 쉽게 바꾸지 않았을까요? {target} 말이에요.", "{target}, 어제 공유기 앞에서 뭔가 만지작거리시던데요?"]
+        },
+        "유재이 과장": {
+          alibi: ["저는 오늘 마감이라 인터넷이 제일 필요한 사람이에요! 제가 왜 끊겠어요?", "어제부터 콘텐츠 업로드만 하고 있었어요. 원고 파일 보실래요?"],
+          deflection: ["저 지금 마감 때문에 제정신이 아니에요. 제발 범인 찾는 건 빨리 끝내요.", "저는 비밀번호도 맨날 까먹는 사람이에요."],
+          accusation: ["{target}이(가) 요즘 상사한테 너무 잘하려고 하던데, 딱 그 사람 비밀번호 같지 않아요?", "{target}, 인터넷 끊겼을 때 혼자 안 당황하셨죠?"]
+        },
+        "하동훈 부장": {
+          alibi: ["나는 어제 면담이 연달아 있었어요. 면담 기록에 다 남아 있습니다.", "내가 비밀번호를 바꿨으면 좀 더 품위 있는 걸로 했겠지요."],
+          deflection: ["분위기를 보니 다들 서로 의심하고 있군요. 차분히 합시다.", "인사팀장이 이런 장난을 하면 큰일 나지요."],
+          accusation: ["분위기를 보면 {target}이(가) 제일 불안해 보이는군요.", "{target}, 아까부터 내 눈을 잘 못 마주치던데."]
+        }
+      }
+    },
+    evidence: {
+      alibis: {
+        "나희선 사원": "어제 보안 점검 보고서를 쓰느라 공유기 근처에 가지 않았다고 한다.",
+        "차범근 대리": "어제 부장님 보고서 때문에 야근했지만 공유기가 어디 있는지도 모른다고 주장한다.",
+        "유재이 과장": "마감 때문에 하루 종일 콘텐츠 업로드만 했다고 한다.",
+        "하동훈 부장": "어제는 면담이 연달아 있었다고 한다."
+      },
+      clues: [
+        { id: "router-login", kind: "timeline", time: "어제 19:40", text: "공유기 관리자 페이지에 기획팀 노트북으로 접속한 기록이 남아 있다.", knownBy: ["나희선 사원"], keywords: ["공유기", "관리자", "접속", "기록", "로그"], implicates: "차범근 대리" },
+        { id: "boss-pen", kind: "physical", text: "탕비실 옆 공유기 위에 '부장님 최고' 스티커가 붙은 볼펜이 놓여 있었다.", knownBy: ["유재이 과장"], keywords: ["볼펜", "물건", "흔적", "탕비실", "공유기 위"], implicates: "차범근 대리" },
+        { id: "password-notice", kind: "physical", text: "나희선 사원은 지난달 와이파이 비밀번호 변경 공지를 직접 작성했다.", knownBy: ["하동훈 부장", "차범근 대리"], keywords: ["비밀번호", "공지", "IT", "바꾸"], implicates: "나희선 사원" },
+        { id: "thumbs-up", kind: "timeline", time: "어제 19:35", text: "야근하던 직원 하나가 탕비실 쪽으로 가다가 엄지를 척 들어 인사했다.", knownBy: ["하동훈 부장"], keywords: ["야근", "어제", "저녁", "봤", "목격"], implicates: "차범근 대리" }
+      ]
+    }
   },
   // Set 5: Chair Height
   {
@@ -71,7 +272,46 @@ export const pregeneratedGameSets: GameSet[] = [
           { name: "왕지현 대리", position: "영업팀", personality: "키가 매우 큰", isVillain: false, visualDescription: "a tall woman whose knees are almost touching her chin, looking uncomfortable", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALdJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
           { name: "길성준 과장", position: "마케팅팀", personality: "허리가 안 좋은", isVillain: false, visualDescription: "a man rubbing his lower back with a pained expression", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAK9JREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
           { name: "엄정화 팀장", position: "고객관리팀", personality: "권위 있는", isVillain: false, visualDescription: "a woman trying to maintain a commanding presence despite her low chair", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKtJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-      ]
+      ],
+      script: {
+        confession: "매일 다리가 붕 뜬 채로 일하는 게 너무 서러웠어요. 딱 하루만이라도 모두가 제 눈높이에서 세상을 보길 바랐습니다.",
+        lines: {
+          "표민수 사원": {
+            alibi: ["저는 아침에 디자인 시안 출력하러 가 있었어요. 의자는 건드리지도 않았어요.", "저는 원래 의자를 제일 낮게 쓰는데, 그게 죄는 아니잖아요?"],
+            deflection: ["근데 오늘 의자 높이 딱 좋지 않아요? 다들 너무 예민하신 것 같아요.", "제가 무슨 힘이 있다고 의자를 다 내려요."],
+            accusation: ["의자를 다 내리면 허리 핑계로 쉴 수 있는 사람이 이득 아닌가요? {target}처럼요.", "{target}, 아까 일찍 출근하셨던데 사무실에서 뭐 하셨어요?"]
+          },
+          "왕지현 대리": {
+            alibi: ["저는 무릎이 턱에 닿아서 지금 제일 고생하는 사람이에요!", "저는 오전에 외근 나갔다 와서 지금 처음 봤어요."],
+            deflection: ["제가 이런 짓을 하면 제일 손해 보는 건 저예요.", "키 크다고 의심받는 건 처음이네요."],
+            accusation: ["솔직히 이 높이가 편한 사람이 범인 아닐까요? {target} 표정이 제일 편해 보여요.", "{target}, 의자에 앉으실 때 전혀 안 불편해 보였어요."]
+          },
+          "길성준 과장": {
+            alibi: ["아이고 허리야... 저는 오늘 아침 물리치료 받고 늦게 왔습니다.", "이 허리로 의자 수십 개를 내렸다고요? 말도 안 됩니다."],
+            deflection: ["저는 지금 범인 찾는 것보다 허리가 더 급합니다.", "마케팅팀이 왜 의자를 건드리겠어요."],
+            accusation: ["{target}, 오늘 유난히 기분 좋아 보이시네요. 이유가 뭐죠?", "제일 일찍 온 사람이 {target} 아니었나요?"]
+          },
+          "엄정화 팀장": {
+            alibi: ["저는 아침 고객 미팅 준비로 회의실에 있었어요.", "제 권위가 이 의자 때문에 땅에 떨어졌습니다. 제가 그랬을 리가요."],
+            deflection: ["팀장인 제가 이런 유치한 장난을 칠 이유가 없죠.", "저를 의심하기 전에 CCTV부터 확인하세요."],
+            accusation: ["{target}, 아까부터 제 눈을 피하는군요.", "상황을 보니 이 높이가 제일 익숙한 사람은 {target}인 것 같네요."]
+          }
+        }
+      },
+      evidence: {
+        alibis: {
+          "표민수 사원": "아침에 시안을 출력하러 프린터에 가 있었다고 주장한다.",
+          "왕지현 대리": "오전에 외근을 나갔다가 방금 복귀했다고 한다.",
+          "길성준 과장": "아침에 물리치료를 받고 늦게 출근했다고 한다.",
+          "엄정화 팀장": "아침에는 고객 미팅 준비로 회의실에 있었다고 한다."
+        },
+        clues: [
+          { id: "first-in", kind: "timeline", time: "07:30", text: "출입 기록상 가장 먼저 출근한 사람은 디자인팀 직원이었다.", knownBy: ["엄정화 팀장"], keywords: ["출입", "출근", "먼저", "일찍", "기록"], implicates: "표민수 사원" },
+          { id: "masking-tape", kind: "physical", text: "의자 레버마다 디자인팀에서 쓰는 색 마스킹테이프 조각이 붙어 있었다.", knownBy: ["왕지현 대리"], keywords: ["의자", "레버", "테이프", "흔적", "증거"], implicates: "표민수 사원" },
+          { id: "low-chair-talk", kind: "physical", text: "길성준 과장은 요즘 허리 때문에 '낮은 의자가 좋다'고 말하고 다녔다.", knownBy: ["표민수 사원", "엄정화 팀장"], keywords: ["허리", "낮은", "과장"], implicates: "길성준 과장" },
+          { id: "abandoned-print", kind: "timeline", time: "08:05", text: "8시 5분에 출력된 디자인 시안이 9시가 넘도록 프린터에 그대로 놓여 있었다.", knownBy: ["길성준 과장"], keywords: ["출력", "프린터", "시안"], implicates: "표민수 사원" }
+        ]
+      }
   },
   // Set 6: Hold Music
   {
@@ -82,6 +322,45 @@ export const pregeneratedGameSets: GameSet[] = [
           { name: "이진욱 대리", position: "해외영업팀", personality: "중요한 전화를 기다리던", isVillain: false, visualDescription: "a man holding a phone receiver with a shocked expression", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKpJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
           { name: "김혜수 과장", position: "홍보팀", personality: "회사의 이미지를 걱정하는", isVillain: false, visualDescription: "a woman with her face in her hands, looking mortified", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAALFJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" },
           { name: "최민식 이사", position: "임원", personality: "클래식 음악을 좋아하는", isVillain: false, visualDescription: "an older, distinguished man looking very displeased with the music", imageUrl: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAAAKhJREFUWEftlskNwDAQA0+nsRIt1WLtWIu1sAILsIGl3IfI/Hl3/h0ksgr0AkTgbmx9APxGkragXwM4NAD2gPsPYDyAxgGw3R0A+wDuP4BTCbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSAXwG0AbANsP8BPLSA3gB+WLcByAPgDgDuAwhA/D7AB+ANoO0H4DmA3wDbXwBuA3D7APwBoAPg/gEgAP0H4AVw+wH4A0AH9u8BBlDxC8A14PoBPA+gA+D+ByBA/y7AAvgGkF8COD/o/w8AAAAASUVORK5CYII=" }
-      ]
+      ],
+      script: {
+        confession: "매일 듣는 통화 연결음이 너무 지루했어요! 고객님들도 신나는 노래 들으면 기분 좋아지실 거예요. 춤추면서 기다리시라고요~",
+        lines: {
+          "강미나 사원": {
+            alibi: ["저는 아침에 비품 정리하느라 창고에 있었어요~", "전화 시스템은 총무팀 공용 계정이라 누구든 들어갈 수 있어요."],
+            deflection: ["근데 노래 좋지 않아요? 분위기 확 살잖아요!", "제가 흥이 많긴 하지만, 회사 전화는 함부로 안 건드려요~"],
+            accusation: ["해외 고객한테 K-POP 알리고 싶다고 한 사람이 {target}이잖아요!", "{target}, 아까 그 노래 흥얼거리시던데요?"]
+          },
+          "이진욱 대리": {
+            alibi: ["저는 해외 바이어 전화를 기다리고 있었어요. 그 노래 때문에 계약이 날아갈 뻔했습니다!", "저는 오전에 화상회의 중이었어요. 녹화본도 있어요."],
+            deflection: ["제가 중요한 전화를 망칠 이유가 없잖아요.", "저도 피해자예요. 바이어가 웃기만 하다 끊었어요."],
+            accusation: ["총무팀 계정에 접근할 수 있는 사람이 범인이겠죠. {target}은(는) 어떠세요?", "{target}, 아까 책상에서 어깨 들썩이시던데요?"]
+          },
+          "김혜수 과장": {
+            alibi: ["저는 아침부터 보도자료 쓰고 있었어요. 회사 이미지가 걱정돼서 이럴 시간이 없어요.", "홍보팀이 회사 이미지를 스스로 망칠 리가 없잖아요."],
+            deflection: ["지금 중요한 건 누가 했냐보다 외부에 알려지지 않는 거예요.", "저를 의심하시면 언론 대응은 누가 하나요?"],
+            accusation: ["{target}, 이 노래 플레이리스트에 있던 거 제가 봤어요.", "회사 분위기를 '살린다'고 자주 말하던 사람, {target} 아니었어요?"]
+          },
+          "최민식 이사": {
+            alibi: ["나는 어제 오페라 공연을 보고 오늘 아침에 출근했네.", "내가 아이돌 노래를 골랐다고? 나는 그 노래 제목도 모르네."],
+            deflection: ["통화 연결음은 마땅히 바흐여야 하네. 나를 의심하는 건 모욕이야.", "임원이 이런 일에 손댈 리가 있겠나."],
+            accusation: ["젊은 직원 중에 흥이 많은 {target}이(가) 수상하군.", "{target}, 자네 자리에서 그 노래가 흘러나오던데?"]
+          }
+        }
+      },
+      evidence: {
+        alibis: {
+          "강미나 사원": "아침에는 창고에서 비품을 정리했다고 주장한다.",
+          "이진욱 대리": "오전 내내 해외 바이어와 화상회의 중이었다고 한다.",
+          "김혜수 과장": "아침부터 보도자료를 쓰고 있었다고 한다.",
+          "최민식 이사": "어제는 오페라 공연을 봤고 오늘 아침에 출근했다고 한다."
+        },
+        clues: [
+          { id: "phone-account", kind: "timeline", time: "09:20", text: "전화 시스템 설정이 총무팀 공용 계정으로 변경되었다.", knownBy: ["이진욱 대리"], keywords: ["전화", "시스템", "계정", "설정", "기록"], implicates: "강미나 사원" },
+          { id: "empty-ledger", kind: "physical", text: "창고 비품 장부의 오늘 아침 기록란이 비어 있다.", knownBy: ["김혜수 과장"], keywords: ["창고", "비품", "장부"], implicates: "강미나 사원" },
+          { id: "playlist", kind: "physical", text: "김혜수 과장의 업무용 플레이리스트에 그 아이돌 곡이 들어 있다.", knownBy: ["강미나 사원", "이진욱 대리"], keywords: ["플레이리스트", "아이돌", "곡", "노래"], implicates: "김혜수 과장" },
+          { id: "shoulder-dance", kind: "timeline", time: "09:25", text: "총무팀 자리 쪽에서 같은 노래가 흘러나왔고, 누군가 어깨를 들썩이고 있었다.", knownBy: ["최민식 이사"], keywords: ["소리", "들었", "봤", "춤", "목격"], implicates: "강미나 사원" }
+        ]
+      }
   }
 ];
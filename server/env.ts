@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Reads `.env.local` (the file Vite reads for the browser build) into `process.env`, without
+ * overriding anything already set in the shell. The server then sees the same `GEMINI_API_KEY`
+ * and `AI_PROVIDER` as the build, but keeps the key to itself.
+ */
+export const loadServerEnv = (root: string = process.cwd()) => {
+    const file = path.join(root, '.env.local');
+    if (fs.existsSync(file)) {
+        for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+            const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+            if (!match || process.env[match[1]] !== undefined) continue;
+            process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+        }
+    }
+    process.env.API_KEY ||= process.env.GEMINI_API_KEY ?? '';
+    // A browser build that asks the server for replies must not send the server to itself.
+    if (process.env.AI_PROVIDER?.trim().toLowerCase() === 'server') {
+        process.env.AI_PROVIDER = process.env.SERVER_AI_PROVIDER ?? '';
+    }
+};
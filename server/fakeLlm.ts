@@ -0,0 +1,98 @@
+import http from 'http';
+
+/**
+ * A stand-in for an OpenAI-compatible model server that misbehaves on purpose, for trying out
+ * the request layer's retries, time-outs and cancellation without a real model:
+ *
+ *     npm run fake-llm
+ *     AI_PROVIDER=local LOCAL_LLM_URL=http://localhost:11435/v1 npm run dev
+ *
+ * `FAKE_LLM_RATE_LIMIT` and `FAKE_LLM_HANG` are the shares of requests answered with a 429 or
+ * never answered at all; `FAKE_LLM_DELAY_MS` is how long a normal answer takes.
+ */
+
+const PORT = Number(process.env.FAKE_LLM_PORT) || 11435;
+const RATE_LIMIT = Number(process.env.FAKE_LLM_RATE_LIMIT ?? 0.3);
+const HANG = Number(process.env.FAKE_LLM_HANG ?? 0.1);
+const DELAY_MS = Number(process.env.FAKE_LLM_DELAY_MS ?? 400);
+
+const lines = [
+    "저는 그 시간에 회의실에 있었어요. 다른 분들도 보셨을 거예요.",
+    "글쎄요, 저는 아무것도 못 봤는데요. 왜 저한테 물어보세요?",
+    "아까 복도에서 누가 서성이는 건 봤어요. 얼굴은 잘 못 봤지만요.",
+    "솔직히 다들 조금씩 수상해요. 알리바이부터 맞춰 보죠.",
+];
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/** Votes for one of the names the vote prompt allows, so the game can count the ballot. */
+const voteFor = (prompt: string): string => {
+    const names = prompt.match(/vote for exactly one of: (.+?)\. Never/)?.[1]?.split(', ') ?? [];
+    return JSON.stringify({ votedFor: names.length > 0 ? pick(names) : '', reason: '말이 계속 바뀌는 게 마음에 걸려요.' });
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+/** The parts of an OpenAI chat completion request the fake server looks at. */
+interface ChatRequest {
+    messages?: { content?: string }[];
+    response_format?: { type?: string };
+    stream?: boolean;
+}
+
+let served = 0;
+
+const server = http.createServer(async (req, res) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+        res.writeHead(404).end();
+        return;
+    }
+    let request: ChatRequest;
+    try {
+        request = JSON.parse(await readBody(req));
+        if (typeof request !== 'object' || request === null) throw new Error('Not a JSON object.');
+    } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'Request body is not a JSON object.' } }));
+        return;
+    }
+    const id = ++served;
+    const roll = Math.random();
+    if (roll < RATE_LIMIT) {
+        console.log(`#${id} → 429`);
+        res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '1' }).end(JSON.stringify({ error: { message: 'Rate limit reached.' } }));
+        return;
+    }
+    if (roll < RATE_LIMIT + HANG) {
+        // Never answers; the client has to time out, or cancel, on its own.
+        console.log(`#${id} → hang`);
+        res.on('close', () => console.log(`#${id} closed by the client`));
+        return;
+    }
+
+    const prompt = request.messages?.[0]?.content ?? '';
+    const content = request.response_format?.type === 'json_object' ? voteFor(prompt) : pick(lines);
+    await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    if (res.destroyed) return;
+    console.log(`#${id} → 200${request.stream ? ' (stream)' : ''}`);
+
+    if (!request.stream) {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const word of content.split(/(?<= )/)) {
+        if (res.destroyed) return;
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        await new Promise(resolve => setTimeout(resolve, 60));
+    }
+    res.end('data: [DONE]\n\n');
+});
+
+server.listen(PORT, () => {
+    console.log(`Fake model server on http://localhost:${PORT}/v1 (429: ${RATE_LIMIT * 100}%, hang: ${HANG * 100}%)`);
+});
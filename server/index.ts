@@ -0,0 +1,210 @@
+import http from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { loadServerEnv } from './env';
+import { createRoomRegistry, RoomClient } from './rooms';
+import { getDialogueProvider, streamCharacterResponse } from '../services/providers';
+import { isAbortError, isRetryable } from '../services/aiRequests';
+import type { CharacterResponseRequest, CharacterVoteRequest, ConfessionRequest } from '../services/providers/types';
+import type { ClientMessage } from '../services/roomProtocol';
+
+loadServerEnv();
+
+const PORT = Number(process.env.ROOM_SERVER_PORT) || 8787;
+/**
+ * Only this machine can reach the server unless `ROOM_SERVER_HOST` says otherwise (`0.0.0.0` for
+ * every interface), since the dialogue endpoint spends the server's API key.
+ */
+const HOST = process.env.ROOM_SERVER_HOST?.trim() || '127.0.0.1';
+/** Scene images travel as data URLs, so the dialogue endpoint takes fairly large bodies. */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+/** The Vite dev server, which is where the app runs unless `ROOM_ALLOWED_ORIGINS` lists others. */
+const DEV_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173'];
+/** Browsers allowed to connect, comma-separated. */
+const allowedOrigins = (process.env.ROOM_ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean);
+if (allowedOrigins.length === 0) allowedOrigins.push(...DEV_ORIGINS);
+
+/** Requests without an origin don't come from a web page, so there is no page to trust or refuse. */
+const isAllowedOrigin = (origin: string | undefined): boolean => !origin || allowedOrigins.includes(origin);
+
+/** An error in what the browser sent, answered with `status` rather than blamed on the provider. */
+const clientError = (status: number, message: string): Error => Object.assign(new Error(message), { clientStatus: status });
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(clientError(413, 'Request body too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const readJson = async (req: http.IncomingMessage): Promise<unknown> => {
+    const body = await readBody(req);
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw clientError(400, 'Request body is not valid JSON.');
+    }
+};
+
+type FieldKind = 'string' | 'object' | 'array';
+
+/**
+ * A check that a parsed body has the fields a provider request can't do without. It doesn't
+ * vouch for every field, only that the provider won't be handed something of the wrong shape.
+ */
+const shapeOf = <Request>(fields: { [field: string]: FieldKind }) => (body: unknown): body is Request => {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return false;
+    return Object.entries(fields).every(([field, kind]) => {
+        const value: unknown = (body as { [field: string]: unknown })[field];
+        return kind === 'array' ? Array.isArray(value) : typeof value === kind && value !== null;
+    });
+};
+
+const isCharacterResponseRequest = shapeOf<CharacterResponseRequest>({ character: 'object', characters: 'array', sabotage: 'string', chatHistory: 'array', userInput: 'string' });
+const isCharacterVoteRequest = shapeOf<CharacterVoteRequest>({ voter: 'object', characters: 'array', sabotage: 'string', chatHistory: 'array', playerVote: 'object' });
+const isConfessionRequest = shapeOf<ConfessionRequest>({ villain: 'object', sabotage: 'string', chatHistory: 'array' });
+const isImageEditRequest = shapeOf<{ imageDataUrl: string; characterDescription: string }>({ imageDataUrl: 'string', characterDescription: 'string' });
+
+const expectRequest = <Request>(body: unknown, isRequest: (body: unknown) => body is Request): Request => {
+    if (!isRequest(body)) throw clientError(400, 'Request body is missing required fields.');
+    return body;
+};
+
+/**
+ * The server's own provider, answering for browsers built with `AI_PROVIDER=server` so the
+ * API key never has to be in their bundle. The browser's request layer does the retrying.
+ */
+const dialogueMethods: { [method: string]: (body: unknown, signal: AbortSignal) => Promise<unknown> } = {
+    'character-response': async (body, signal) =>
+        ({ response: await getDialogueProvider().getCharacterResponse(expectRequest(body, isCharacterResponseRequest), signal) }),
+    'character-vote': (body, signal) => getDialogueProvider().getCharacterVote(expectRequest(body, isCharacterVoteRequest), signal),
+    'confession': async (body, signal) =>
+        ({ confession: await getDialogueProvider().getConfession(expectRequest(body, isConfessionRequest), signal) }),
+    'edit-image': async (body, signal) => {
+        const { imageDataUrl, characterDescription } = expectRequest(body, isImageEditRequest);
+        return { imageDataUrl: await getDialogueProvider().editImageToRemoveCharacter(imageDataUrl, characterDescription, signal) };
+    },
+};
+
+/**
+ * The browser's own mistakes keep their 4xx. A rate limit or overload is passed on with its
+ * status so the browser backs off; anything else is a 502.
+ */
+const statusFor = (error: unknown): number => {
+    const { status, clientStatus } = (error ?? {}) as { status?: unknown; clientStatus?: unknown };
+    if (typeof clientStatus === 'number') return clientStatus;
+    if (!isRetryable(error)) return 502;
+    return typeof status === 'number' ? status : 503;
+};
+
+const sendError = (res: http.ServerResponse, error: unknown) => {
+    const { retryAfterMs } = (error ?? {}) as { retryAfterMs?: unknown };
+    res.writeHead(statusFor(error), {
+        'Content-Type': 'application/json',
+        ...(typeof retryAfterMs === 'number' ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : {}),
+    }).end(JSON.stringify({ error: error instanceof Error ? error.message : 'Request failed.' }));
+};
+
+/** Methods answered as plain text written out while it is generated; closing the request stops generation. */
+const streamingMethods: { [method: string]: (body: unknown, signal: AbortSignal) => AsyncIterable<string> } = {
+    'character-response-stream': (body, signal) => streamCharacterResponse(getDialogueProvider(), expectRequest(body, isCharacterResponseRequest), signal),
+};
+
+const handleStream = async (method: string, req: http.IncomingMessage, res: http.ServerResponse) => {
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+        const body = await readJson(req);
+        for await (const chunk of streamingMethods[method](body, controller.signal)) {
+            if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.write(chunk);
+        }
+        if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end();
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`Dialogue stream "${method}" failed:`, error);
+        if (res.headersSent) {
+            res.destroy();
+        } else {
+            sendError(res, error);
+        }
+    }
+};
+
+const handleHttp = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin)) {
+        res.writeHead(403).end();
+        return;
+    }
+    if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Access-Control-Allow-Methods': 'POST', 'Access-Control-Allow-Headers': 'Content-Type' }).end();
+        return;
+    }
+    const method = req.url?.match(/^\/api\/dialogue\/([a-z-]+)$/)?.[1];
+    if (req.method !== 'POST' || !method || !(dialogueMethods[method] || streamingMethods[method])) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('오피스 빌런 room server');
+        return;
+    }
+    if (streamingMethods[method]) {
+        await handleStream(method, req, res);
+        return;
+    }
+    // The browser gave up on this call (reset, interrupted or timed out), so stop generating it.
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+        const result = await dialogueMethods[method](await readJson(req), controller.signal);
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(result));
+    } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        console.error(`Dialogue request "${method}" failed:`, error);
+        sendError(res, error);
+    }
+};
+
+const server = http.createServer(handleHttp);
+const wss = new WebSocketServer({ server, verifyClient: ({ origin }) => isAllowedOrigin(origin) });
+const registry = createRoomRegistry();
+
+wss.on('connection', (socket: WebSocket) => {
+    const client: RoomClient = {
+        send: message => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+    };
+    socket.on('message', data => {
+        let message: ClientMessage;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            client.send({ type: 'error', message: '잘못된 요청입니다.' });
+            return;
+        }
+        try {
+            registry.handle(client, message);
+        } catch (error) {
+            console.error('Room message failed:', error);
+            client.send({ type: 'error', message: '요청을 처리하지 못했습니다.' });
+        }
+    });
+    socket.on('close', () => registry.leave(client));
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`Room server listening on http://${HOST}:${PORT} (AI provider: ${getDialogueProvider().id})`);
+    console.log(`Accepting browsers from ${allowedOrigins.join(', ')}`);
+});
@@ -0,0 +1,260 @@
+import { randomBytes } from 'crypto';
+import type { ClientMessage, RoomGameOptions, RoomView, ServerMessage } from '../services/roomProtocol';
+import { MAX_HUMAN_PLAYERS } from '../game/hotSeat';
+import { DEFAULT_CAST_OPTIONS, MIN_DRAWN_CAST, MAX_DRAWN_CAST } from '../game/cast';
+import { DEFAULT_ROLE_OPTIONS } from '../game/roles';
+import { DEFAULT_VOTE_RULES } from '../game/voteRules';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES } from '../game/difficulty';
+import { DEFAULT_DISCUSSION_LIMITS, DISCUSSION_QUESTIONS, DISCUSSION_SECONDS } from '../game/discussion';
+import { createGameSession, GameSession } from './session';
+
+/** Letters that survive being read aloud: no I, L, O or U. */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 4;
+const MAX_NAME_LENGTH = 12;
+/** The longest question or defense a person may send; anything past it is cut off. */
+const MAX_MESSAGE_LENGTH = 500;
+/** A room nobody is connected to is closed after this long. */
+const IDLE_ROOM_MS = 10 * 60 * 1000;
+
+/** The longest round limit a case code can hold. */
+const MAX_ROUND_LIMIT = 7;
+
+/** One browser connection, as far as the rooms are concerned. */
+export interface RoomClient {
+    send(message: ServerMessage): void;
+}
+
+interface Member {
+    name: string;
+    client: RoomClient | null;
+    /** The colleague this person plays in the current game. */
+    seat: string | null;
+    /** Given only to this person's browser, which shows it to take the seat back after a dropped connection. */
+    token: string;
+}
+
+interface Room {
+    code: string;
+    /** In join order; the first connected member is the host. */
+    members: Member[];
+    session: GameSession | null;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+type Fields = { [field: string]: unknown };
+
+const fieldsOf = (value: unknown): Fields => (typeof value === 'object' && value !== null ? value as Fields : {});
+
+const flag = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+const oneOf = <T>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    (allowed as readonly unknown[]).includes(value) ? value as T : fallback;
+
+const wholeNumber = (value: unknown, min: number, max: number, fallback: number): number =>
+    Number.isInteger(value) ? Math.min(max, Math.max(min, value as number)) : fallback;
+
+const messageText = (value: unknown): string => (typeof value === 'string' ? value.slice(0, MAX_MESSAGE_LENGTH) : '');
+
+/** The names in a list from the client; the session keeps only those of active colleagues (see `resolveAddressees`). */
+const nameList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : [];
+
+/**
+ * The host's options, held to what the welcome screen offers: anything missing or of the wrong
+ * type falls back to the default, and numbers are clamped into range.
+ */
+const readGameOptions = (raw: unknown): RoomGameOptions => {
+    const { cast, roles, rules, difficulty, limits } = fieldsOf(raw);
+    const castFields = fieldsOf(cast);
+    const roleFields = fieldsOf(roles);
+    const ruleFields = fieldsOf(rules);
+    const limitFields = fieldsOf(limits);
+    const size = wholeNumber(castFields.size, 0, MAX_DRAWN_CAST, DEFAULT_CAST_OPTIONS.size);
+    return {
+        cast: {
+            // 0 keeps the scenario's own cast; anything else deals at least the smallest cast.
+            size: size === 0 ? 0 : Math.max(MIN_DRAWN_CAST, size),
+            randomVillain: flag(castFields.randomVillain, DEFAULT_CAST_OPTIONS.randomVillain),
+        },
+        roles: {
+            accomplice: flag(roleFields.accomplice, DEFAULT_ROLE_OPTIONS.accomplice),
+            investigator: flag(roleFields.investigator, DEFAULT_ROLE_OPTIONS.investigator),
+            gossip: flag(roleFields.gossip, DEFAULT_ROLE_OPTIONS.gossip),
+            playAsVillain: flag(roleFields.playAsVillain, DEFAULT_ROLE_OPTIONS.playAsVillain),
+        },
+        rules: {
+            threshold: oneOf(ruleFields.threshold, ['plurality', 'majority'] as const, DEFAULT_VOTE_RULES.threshold),
+            runoff: flag(ruleFields.runoff, DEFAULT_VOTE_RULES.runoff),
+            onUndecided: oneOf(ruleFields.onUndecided, ['next_round', 'villain_wins'] as const, DEFAULT_VOTE_RULES.onUndecided),
+            allowAbstain: flag(ruleFields.allowAbstain, DEFAULT_VOTE_RULES.allowAbstain),
+            minCitizens: wholeNumber(ruleFields.minCitizens, 1, 3, DEFAULT_VOTE_RULES.minCitizens),
+            roundLimit: wholeNumber(ruleFields.roundLimit, 0, MAX_ROUND_LIMIT, DEFAULT_VOTE_RULES.roundLimit),
+        },
+        difficulty: oneOf(difficulty, Object.keys(DIFFICULTIES) as (keyof typeof DIFFICULTIES)[], DEFAULT_DIFFICULTY),
+        limits: {
+            seconds: oneOf(limitFields.seconds, DISCUSSION_SECONDS, DEFAULT_DISCUSSION_LIMITS.seconds),
+            questions: oneOf(limitFields.questions, DISCUSSION_QUESTIONS, DEFAULT_DISCUSSION_LIMITS.questions),
+        },
+    };
+};
+
+/**
+ * Keeps the open rooms and routes each client message to its room's game. People join by code
+ * and a name; coming back with the same name and the rejoin token after a dropped connection
+ * takes the seat back.
+ */
+export const createRoomRegistry = () => {
+    const rooms = new Map<string, Room>();
+    const membership = new Map<RoomClient, { room: Room; member: Member }>();
+
+    const newCode = (): string => {
+        let code: string;
+        do {
+            code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+        } while (rooms.has(code));
+        return code;
+    };
+
+    const newMember = (name: string): Member => ({ name, client: null, seat: null, token: randomBytes(16).toString('hex') });
+
+    const hostOf = (room: Room): Member | null => room.members.find(m => m.client) ?? null;
+
+    const isPlaying = (room: Room): boolean => !!room.session && !room.session.isOver();
+
+    const viewOf = (room: Room, member: Member): RoomView => {
+        const host = hostOf(room);
+        return {
+            code: room.code,
+            players: room.members.map(m => ({ name: m.name, seat: m.seat, isHost: m === host, connected: !!m.client })),
+            you: member.name,
+            rejoinToken: member.token,
+            game: room.session && member.seat ? room.session.viewFor(member.seat) : null,
+        };
+    };
+
+    const broadcast = (room: Room) => {
+        room.members.forEach(member => member.client?.send({ type: 'room', room: viewOf(room, member) }));
+    };
+
+    const closeRoom = (room: Room) => {
+        room.session?.dispose();
+        rooms.delete(room.code);
+    };
+
+    /** Lets the game know who is gone, and closes the room once everyone is. */
+    const updatePresence = (room: Room) => {
+        room.session?.setAway(room.members.filter(m => !m.client && m.seat).map(m => m.seat));
+        if (room.idleTimer) clearTimeout(room.idleTimer);
+        room.idleTimer = null;
+        if (room.members.every(m => !m.client)) {
+            room.idleTimer = setTimeout(() => closeRoom(room), IDLE_ROOM_MS);
+            room.idleTimer.unref?.();
+        }
+        broadcast(room);
+    };
+
+    const enter = (client: RoomClient, room: Room, member: Member) => {
+        member.client = client;
+        membership.set(client, { room, member });
+        updatePresence(room);
+    };
+
+    /** Drops the client from its room: a lobby forgets them, a game keeps their seat for a rejoin. */
+    const leave = (client: RoomClient) => {
+        const entry = membership.get(client);
+        if (!entry) return;
+        membership.delete(client);
+        const { room, member } = entry;
+        if (member.client !== client) return;
+        member.client = null;
+        if (!isPlaying(room)) room.members = room.members.filter(m => m !== member);
+        if (room.members.length === 0) {
+            closeRoom(room);
+            return;
+        }
+        updatePresence(room);
+    };
+
+    const cleanName = (name: unknown): string | null => {
+        const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+        return trimmed || null;
+    };
+
+    const fail = (client: RoomClient, message: string) => client.send({ type: 'error', message });
+
+    const handle = (client: RoomClient, message: ClientMessage) => {
+        const entry = membership.get(client);
+
+        if (message.type === 'create_room' || message.type === 'join_room') {
+            const name = cleanName(message.name);
+            if (!name) return fail(client, '이름을 입력해 주세요.');
+            if (entry) leave(client);
+
+            if (message.type === 'create_room') {
+                const room: Room = { code: newCode(), members: [], session: null, idleTimer: null };
+                const member = newMember(name);
+                room.members.push(member);
+                rooms.set(room.code, room);
+                return enter(client, room, member);
+            }
+
+            const room = rooms.get(String(message.code).trim().toUpperCase());
+            if (!room) return fail(client, '방을 찾을 수 없습니다. 코드를 확인해 주세요.');
+            const existing = room.members.find(m => m.name === name);
+            if (existing) {
+                // Without the token this is someone else who picked the same name.
+                if (existing.client || message.token !== existing.token) return fail(client, '이 방에 같은 이름이 이미 있습니다.');
+                return enter(client, room, existing);
+            }
+            if (isPlaying(room)) return fail(client, '이미 게임이 진행 중인 방입니다.');
+            if (room.members.length >= MAX_HUMAN_PLAYERS) return fail(client, `방이 가득 찼습니다. (최대 ${MAX_HUMAN_PLAYERS}명)`);
+            const member = newMember(name);
+            room.members.push(member);
+            return enter(client, room, member);
+        }
+
+        if (!entry) return fail(client, '먼저 방에 들어가 주세요.');
+        const { room, member } = entry;
+        const { session } = room;
+
+        switch (message.type) {
+            case 'leave_room':
+                leave(client);
+                client.send({ type: 'left' });
+                return;
+            case 'start_game': {
+                if (member !== hostOf(room)) return fail(client, '방장만 게임을 시작할 수 있습니다.');
+                if (isPlaying(room)) return;
+                // Whoever left during the last game gives up their place in the next one.
+                room.members = room.members.filter(m => m.client);
+                session?.dispose();
+                const next = createGameSession(readGameOptions(message.options), room.members.map(m => m.name), () => broadcast(room));
+                room.session = next;
+                room.members.forEach((m, i) => { m.seat = next.seats[i] ?? null; });
+                broadcast(room);
+                return;
+            }
+        }
+
+        if (!session || !member.seat) return;
+        switch (message.type) {
+            case 'begin_discussion':
+                return session.beginDiscussion();
+            case 'say':
+                return session.say(member.seat, messageText(message.text), nameList(message.addressees));
+            case 'open_voting':
+                return session.openVoting(member.seat);
+            case 'vote':
+                return session.vote(member.seat, message.votedFor ?? null);
+            case 'defend':
+                return session.defend(member.seat, messageText(message.text));
+            case 'use_ability':
+                return session.useAbility(member.seat, message.target);
+            case 'retry':
+                return session.retry(member.seat);
+        }
+    };
+
+    return { handle, leave };
+};
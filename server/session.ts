@@ -0,0 +1,433 @@
+import type { Character, Message, Vote } from '../types';
+import { pregeneratedGameSets, Evidence } from '../pregeneratedContent';
+import { getPregeneratedGameSetup } from '../services/geminiService';
+import { createRandom, newSeed } from '../services/random';
+import type { RoomGameOptions, SeatView } from '../services/roomProtocol';
+import { gameReducer, initialEngineState, isValidVote, ballotContextOf, EngineAction } from '../game/engine';
+import {
+    NIGHT_MS, runInvestigatorCheck, hearReplies, clockForRound, secondsLeftOn, clockAlarms, checkDiscussionLimits, endNight, runBallot,
+    BallotShell, DiscussionClock, Typing,
+} from '../game/round';
+import { alibiEvidenceId, countQuestionedClues } from '../game/evidence';
+import { resolveAddressees, selectResponders } from '../game/addressing';
+import { createMemoryBank, rememberExchange, rememberTip } from '../game/memory';
+import { readTheRoom } from '../game/suspicion';
+import { ROLES, investigate, hasInvestigatedThisRound } from '../game/roles';
+import { getSilenced, withNightClues } from '../game/night';
+import { hasPlantedDoubtThisRound, plantDoubt } from '../game/villainMode';
+import { encodeCaseCode, CaseSetup } from '../game/caseCode';
+import { dealCase, getBriefingLines } from '../game/deal';
+import { describeDifficulty, getDifficulty } from '../game/difficulty';
+import { getHumans, pendingHumanVoters, getPlayerResults } from '../game/hotSeat';
+import { questionsLeftOf } from '../game/discussion';
+
+/**
+ * The room's game, played by the rules of the single-device game: the same engine, the same
+ * AI calls and the same narration. Invalid actions (out of turn, a fired seat, a second vote)
+ * are ignored, as the engine ignores them.
+ */
+export interface GameSession {
+    /** The colleagues the people play, in the order their names were given. */
+    readonly seats: string[];
+    isOver(): boolean;
+    viewFor(seat: string): SeatView;
+    beginDiscussion(): void;
+    say(seat: string, text: string, addressees: string[]): void;
+    openVoting(seat: string): void;
+    vote(seat: string, votedFor: string | null): void;
+    defend(seat: string, text: string): void;
+    useAbility(seat: string, target: string): void;
+    /** Runs again whatever the AI couldn't answer: the last question's missing replies, or a failed ballot. */
+    retry(seat: string): void;
+    /** Seats whose person has lost the connection; the ballot doesn't wait for them. */
+    setAway(seats: string[]): void;
+    dispose(): void;
+}
+
+/**
+ * Blanks out what nobody has uncovered yet, keeping the entries so the notes can still count them.
+ */
+const maskEvidence = (evidence: Evidence | undefined, revealed: string[]): Evidence | null => {
+    if (!evidence) return null;
+    return {
+        alibis: Object.fromEntries(Object.entries(evidence.alibis).map(([name, text]) => [name, revealed.includes(alibiEvidenceId(name)) ? text : ''])),
+        clues: evidence.clues.map(c => (revealed.includes(c.id) ? { ...c, knownBy: [], keywords: [], implicates: undefined } : { id: c.id, kind: c.kind, text: '', knownBy: [], keywords: [] })),
+    };
+};
+
+/**
+ * Deals a game for `people`, who take the human seats in the order given, and runs it.
+ * `onChange` is called whenever anyone's view may have changed.
+ */
+export const createGameSession = (options: RoomGameOptions, people: string[], onChange: () => void): GameSession => {
+    const pool = pregeneratedGameSets;
+    // Everyone needs a seat and a few AI colleagues to question, which a scenario's own cast may not have.
+    const minCast = people.length + 2;
+    const size = options.cast.size === 0 && pool.every(g => g.characters.length >= minCast) ? 0 : Math.max(options.cast.size, minCast);
+    const setup: CaseSetup = {
+        seed: newSeed(),
+        cast: { ...options.cast, size },
+        // Nobody can ask to be the villain when several people share the game.
+        roles: { ...options.roles, playAsVillain: options.roles.playAsVillain && people.length === 1 },
+        rules: options.rules,
+        players: people.length,
+        difficulty: options.difficulty,
+    };
+    const { clueReveals } = getDifficulty(setup.difficulty);
+    const random = createRandom(setup.seed);
+    const dealt = dealCase(getPregeneratedGameSetup(pool, random), pool, setup, random);
+    const { gameSet } = dealt;
+    const humans = getHumans(dealt.characters);
+    const shared = humans.length > 1;
+    const caseCode = encodeCaseCode(setup);
+
+    let engine = gameReducer(gameReducer(initialEngineState, { type: 'setup_started' }), { type: 'game_started', characters: dealt.characters, rules: setup.rules, limits: options.limits });
+    let messages: Message[] = [];
+    let sceneImageUrl = gameSet.sceneImageUrl;
+    let revealedEvidence: string[] = [];
+    let memories = createMemoryBank(dealt.characters);
+    let roleState = dealt.roleState;
+    /** Secret votes cast so far in the open ballot. */
+    let humanVotes: Vote[] = [];
+    let defenders: string[] = [];
+    let away: string[] = [];
+    let busy = false;
+    /** Stops the colleagues' answers in progress; set while they are answering. */
+    let answering: AbortController | null = null;
+    /** The colleague whose reply is coming in, with what has arrived so far. */
+    let typing: Typing | null = null;
+    /** Colleagues the last question never reached, even after retrying. */
+    let unanswered: { question: Message; names: string[] } | null = null;
+    /** The votes of a ballot that couldn't be counted, kept so it can be run again. */
+    let failedBallot: Vote[] | null = null;
+    /** Cancels the game's outstanding AI calls (ballot, confession, scene edits) once it is disposed. */
+    const requests = new AbortController();
+    let nightTimer: ReturnType<typeof setTimeout> | null = null;
+    /** When this round's discussion runs out of time. */
+    let clock: DiscussionClock | null = null;
+    let clockTimers: ReturnType<typeof setTimeout>[] = [];
+    /** The round in which a colleague last warned that the discussion is nearly over. */
+    let hurriedRound: number | null = null;
+    let disposed = false;
+
+    const note = (to: string, text: string): Message => ({ sender: 'system', text, isPrivate: true, privateTo: to });
+
+    const post = (...added: Message[]) => {
+        messages = [...messages, ...added];
+        changed();
+    };
+
+    const changed = () => {
+        if (!disposed) onChange();
+    };
+
+    const caseDetails = () => ({
+        script: gameSet.script,
+        evidence: withNightClues(gameSet.evidence, engine.incidents),
+        revealedEvidence,
+        memories,
+        roleState,
+        incidents: engine.incidents,
+        difficulty: setup.difficulty,
+    });
+
+    /** What the AI hears: everything said in the open, none of anyone's private notes. */
+    const openHistory = () => messages.filter(m => !m.privateTo);
+
+    const activeHuman = (seat: string): Character | null =>
+        engine.characters.find(c => c.name === seat && c.isPlayer && c.status === 'active') ?? null;
+
+    const dispatch = (action: EngineAction) => {
+        const before = engine.phase;
+        engine = gameReducer(engine, action);
+        if (engine.phase === before) return;
+        if (engine.phase !== 'discussion') unanswered = null;
+        if (engine.phase === 'discussion') {
+            roleState = runInvestigatorCheck(engine.characters, engine.round, roleState, memories);
+            startClock();
+        }
+        if (engine.phase === 'night') nightTimer = setTimeout(morning, NIGHT_MS);
+        if (engine.phase === 'voting') humanVotes = [];
+    };
+
+    const morning = () => {
+        nightTimer = null;
+        if (!disposed && engine.phase === 'night') endNight(engine, setup.seed, memories, shell);
+    };
+
+    /** How the shared round steps (replies, ballots, limits, nights) reach the session's state. */
+    const shell: BallotShell = {
+        dispatch: action => {
+            dispatch(action);
+            changed();
+        },
+        post,
+        note,
+        updateMemories: update => { memories = update(memories); },
+        revealEvidence: ids => { revealedEvidence = [...revealedEvidence, ...ids.filter(id => !revealedEvidence.includes(id))]; },
+        setTyping: next => {
+            typing = next;
+            changed();
+        },
+        sceneEdited: (fired, imageUrl) => {
+            sceneImageUrl = imageUrl;
+            messages = messages.map(msg => (msg.isSpecial ? { ...msg, imageUrl } : msg));
+            changed();
+        },
+        setDefenders: names => { defenders = names; },
+    };
+
+    /**
+     * Starts the round's clock with its discussion, or picks it up again when a failed ballot
+     * sends the room back to talking. The timers only wake `checkLimits`.
+     */
+    const startClock = () => {
+        clock = clockForRound(clock, engine);
+        clockTimers.forEach(clearTimeout);
+        clockTimers = clock ? clockAlarms(clock).map(ms => setTimeout(checkLimits, ms)) : [];
+    };
+
+    /** Cuts the colleagues off: finished replies stay, the one being typed is dropped. */
+    const interrupt = () => {
+        answering?.abort();
+        answering = null;
+        typing = null;
+    };
+
+    /** Waits while the colleagues are answering or a ballot is being counted. */
+    const checkLimits = () => {
+        if (disposed || busy || answering || engine.phase !== 'discussion') return;
+        hurriedRound = checkDiscussionLimits(engine, secondsLeftOn(clock, engine.round), hurriedRound, memories, shell);
+    };
+
+    const pendingVoters = () => pendingHumanVoters(engine.characters, humanVotes).filter(c => !away.includes(c.name));
+
+    /** Counts the ballot once everyone still connected has voted. */
+    const maybeRunBallot = () => {
+        if (engine.phase !== 'voting' || busy || humanVotes.length === 0 || pendingVoters().length > 0) return;
+        const votes = humanVotes;
+        humanVotes = [];
+        countBallot(votes);
+    };
+
+    const countBallot = async (playerVotes: Vote[]) => {
+        busy = true;
+        failedBallot = null;
+        const ballot = {
+            characters: engine.characters,
+            sabotage: gameSet.sabotage,
+            history: openHistory(),
+            details: caseDetails(),
+            context: ballotContextOf(engine),
+            scene: { imageUrl: sceneImageUrl, cast: gameSet.sceneCast },
+        };
+        // Back at the vote after a failure, with the ballots kept so anyone can have them counted again.
+        if (await runBallot(playerVotes, ballot, shell, requests.signal) === 'failed') failedBallot = playerVotes;
+        busy = false;
+        typing = null;
+        changed();
+    };
+
+    /**
+     * Puts `question` to `responders` and posts their replies as they come in. The colleagues
+     * remember `heard` along with whatever was said before the answers finished or were cut
+     * off; anyone who couldn't be reached is kept for a retry.
+     */
+    const ask = async (question: Message, responders: Character[], heard: Message[]) => {
+        const characters = engine.characters;
+        const controller = new AbortController();
+        answering = controller;
+        changed();
+        const { replies, unreached } = await hearReplies(question, responders, { characters, sabotage: gameSet.sabotage, history: openHistory(), details: caseDetails() }, clueReveals, shell, controller.signal);
+        if (unreached.length > 0) unanswered = { question, names: unreached };
+        memories = rememberExchange(memories, characters, [...heard, ...replies]);
+        if (answering === controller) {
+            answering = null;
+            typing = null;
+            changed();
+            checkLimits();
+        }
+    };
+
+    const abilityFor = (seat: string): (SeatView['ability'] & { use: (target: string) => void }) | null => {
+        const user = activeHuman(seat);
+        if (!user || engine.phase !== 'discussion' || busy) return null;
+        const targets = engine.characters.filter(c => c.status === 'active' && c.name !== seat).map(c => c.name);
+        if (user.role === 'investigator' && !hasInvestigatedThisRound(roleState, engine.round)) {
+            return {
+                kind: 'investigate',
+                label: '🔍 인사 기록 조회',
+                targets,
+                use: target => {
+                    roleState = investigate(roleState, engine.characters, seat, target, engine.round);
+                    const result = roleState.investigations[roleState.investigations.length - 1];
+                    post(note(seat, `🔍 인사 기록 조회 결과: ${target}님은 ${result.isVillainSide ? '빌런 편입니다!' : '빌런 편이 아닙니다.'}`));
+                },
+            };
+        }
+        if (user.role === 'villain' && !hasPlantedDoubtThisRound(roleState, engine.round)) {
+            return {
+                kind: 'plant_doubt',
+                label: '🗯️ 의심 심기 (익명 제보)',
+                targets,
+                use: target => {
+                    const { roleState: next, tip } = plantDoubt(roleState, engine.characters, target, engine.round);
+                    if (!tip) return;
+                    roleState = next;
+                    memories = rememberTip(memories, target, tip);
+                    post({ sender: 'system', text: `📮 ${tip}` });
+                },
+            };
+        }
+        return null;
+    };
+
+    const roleLabelFor = (viewer: Character, character: Character): string | null => {
+        const isGameOver = engine.phase === 'game_over_win' || engine.phase === 'game_over_loss';
+        const isKnownAccomplice = viewer.role === 'villain' && character.role === 'accomplice';
+        if (character.name === viewer.name || character.status === 'voted_out' || isGameOver || isKnownAccomplice) {
+            return ROLES[character.role].label;
+        }
+        const cleared = roleState.investigations.find(i => i.investigator === viewer.name && i.target === character.name);
+        return cleared ? (cleared.isVillainSide ? '빌런 편' : '무고함') : null;
+    };
+
+    post(
+        ...humans.flatMap(human => getBriefingLines(human, dealt).map(text => note(human.name, text))),
+        ...(shared ? [{
+            sender: 'system',
+            text: `👥 오늘은 ${humans.length}명이 함께합니다: ${humans.map((h, i) => `${people[i]}(${h.name})`).join(', ')}. 비밀 내용은 본인 화면에만 보입니다.`,
+        }] : []),
+        { sender: 'system', text: `🚨긴급🚨\n\n"${gameSet.sabotage}"\n\n사건이 발생했습니다! 범인은 이 안에 있습니다.`, isSpecial: true, imageUrl: sceneImageUrl },
+        { sender: 'system', text: '동료들과 대화하여 오피스 빌런을 찾아내세요.' },
+        { sender: 'system', text: describeDifficulty(setup.difficulty) },
+        { sender: 'system', text: `🔖 사건 코드: ${caseCode} — 이 코드로 시작하면 같은 사건, 같은 배역이 다시 배정됩니다.` },
+        ...(gameSet.evidence ? [{ sender: 'system', text: '동료들의 알리바이와 목격담은 수사 노트에 기록됩니다. 그 시간에 어디 있었는지, 본 것이 있는지 물어보세요.' }] : []),
+    );
+
+    return {
+        seats: humans.map(h => h.name),
+
+        isOver() {
+            return engine.phase === 'game_over_win' || engine.phase === 'game_over_loss';
+        },
+
+        viewFor(seat) {
+            const viewer = engine.characters.find(c => c.name === seat);
+            const isGameOver = engine.phase === 'game_over_win' || engine.phase === 'game_over_loss';
+            const roleLabels = Object.fromEntries(engine.characters.map(c => [c.name, roleLabelFor(viewer, c)]));
+            const ability = abilityFor(seat);
+            return {
+                phase: engine.phase,
+                round: engine.round,
+                // Roles stay on the server unless this person may know them.
+                characters: engine.characters.map(c => (roleLabels[c.name] === ROLES[c.role].label ? c : { ...c, role: 'employee' })),
+                roleLabels,
+                seat,
+                messages: messages.filter(m => !m.privateTo || m.privateTo === seat),
+                evidence: maskEvidence(withNightClues(gameSet.evidence, engine.incidents), revealedEvidence),
+                revealedEvidence,
+                discussionEndsAt: engine.phase === 'discussion' && clock?.round === engine.round ? clock.endsAt : null,
+                questionsLeft: questionsLeftOf(engine.limits, engine.questionsAsked),
+                cluesLeft: clueReveals === null ? null : Math.max(0, clueReveals - countQuestionedClues(gameSet.evidence, revealedEvidence, engine.characters)),
+                silenced: getSilenced(engine.incidents, engine.round),
+                suspicion: readTheRoom(memories, engine.characters),
+                runoff: engine.runoff,
+                allowAbstain: engine.rules.allowAbstain,
+                hasVoted: humanVotes.some(v => v.voter === seat),
+                waitingFor: engine.phase === 'voting' ? pendingVoters().map(c => c.name) : [],
+                canDefend: engine.phase === 'voting' && defenders.includes(seat),
+                ability: ability && { kind: ability.kind, label: ability.label, targets: ability.targets },
+                busy: busy || engine.phase === 'reveal' || engine.phase === 'night',
+                typing,
+                retry: failedBallot && engine.phase === 'voting' ? { kind: 'ballot' }
+                    : unanswered && engine.phase === 'discussion' ? { kind: 'replies', names: unanswered.names }
+                    : null,
+                caseCode,
+                results: isGameOver && engine.result?.winner ? getPlayerResults(engine.characters, engine.result.winner) : null,
+            };
+        },
+
+        beginDiscussion() {
+            dispatch({ type: 'discussion_started' });
+            changed();
+        },
+
+        say(seat, text, addressees) {
+            const speaker = activeHuman(seat);
+            const userInput = text.trim();
+            if (!speaker || !userInput || busy || engine.phase !== 'discussion' || questionsLeftOf(engine.limits, engine.questionsAsked) === 0) return;
+            const characters = engine.characters;
+            const silenced = getSilenced(engine.incidents, engine.round);
+            const addressed = resolveAddressees(userInput, characters, addressees);
+            const message: Message = { sender: seat, text: userInput, ...(addressed.length > 0 ? { addressees: addressed } : {}) };
+
+            const responders = selectResponders(userInput, characters.filter(c => !silenced.includes(c.name)), addressed);
+            const absent = addressed.filter(name => silenced.includes(name));
+            interrupt();
+            unanswered = null;
+            dispatch({ type: 'question_asked' });
+            post(message, ...(absent.length > 0 ? [{ sender: 'system', text: `${absent.join(', ')}님은 경위서를 쓰느라 자리에 없습니다.` }] : []));
+            ask(message, responders, [message]);
+        },
+
+        retry(seat) {
+            if (!activeHuman(seat) || busy) return;
+            if (failedBallot && engine.phase === 'voting') {
+                countBallot(failedBallot);
+                return;
+            }
+            if (!unanswered || engine.phase !== 'discussion') return;
+            // Only the colleagues who couldn't be reached are asked again, and it isn't a new question.
+            const { question, names } = unanswered;
+            const silenced = getSilenced(engine.incidents, engine.round);
+            interrupt();
+            unanswered = null;
+            ask(question, engine.characters.filter(c => names.includes(c.name) && c.status === 'active' && !silenced.includes(c.name)), []);
+        },
+
+        openVoting(seat) {
+            if (!activeHuman(seat) || busy) return;
+            interrupt();
+            dispatch({ type: 'voting_opened' });
+            changed();
+        },
+
+        vote(seat, votedFor) {
+            if (!activeHuman(seat) || busy || engine.phase !== 'voting' || humanVotes.some(v => v.voter === seat)) return;
+            const vote: Vote = { voter: seat, votedFor };
+            if ((votedFor === null && !engine.rules.allowAbstain) || !isValidVote(engine.characters, vote, engine.runoff)) return;
+            humanVotes = [...humanVotes, vote];
+            defenders = defenders.filter(name => name !== seat);
+            changed();
+            maybeRunBallot();
+        },
+
+        defend(seat, text) {
+            if (engine.phase !== 'voting' || !defenders.includes(seat) || !text.trim()) return;
+            const defense: Message = { sender: seat, text: text.trim() };
+            memories = rememberExchange(memories, engine.characters, [defense]);
+            defenders = defenders.filter(name => name !== seat);
+            post(defense);
+        },
+
+        useAbility(seat, target) {
+            const ability = abilityFor(seat);
+            if (ability?.targets.includes(target)) ability.use(target);
+        },
+
+        setAway(seats) {
+            away = seats;
+            changed();
+            maybeRunBallot();
+        },
+
+        dispose() {
+            disposed = true;
+            interrupt();
+            requests.abort();
+            if (nightTimer) clearTimeout(nightTimer);
+            clockTimers.forEach(clearTimeout);
+        },
+    };
+};
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRequestQueue, formatTimeout, httpError, isAbortError, RequestPolicy } from './aiRequests';
+
+const policy = (overrides: Partial<RequestPolicy> = {}): RequestPolicy =>
+    ({ concurrency: 2, timeoutMs: 1_000, retries: 3, baseDelayMs: 100, maxDelayMs: 1_000, ...overrides });
+
+/** A failed response as a provider would report it, with an optional `Retry-After`. */
+const failure = (status: number, retryAfter?: string): Error =>
+    httpError(`HTTP ${status}`, new Response(null, { status, headers: retryAfter ? { 'Retry-After': retryAfter } : {} }));
+
+/** A task that never settles unless its signal aborts, like a model server that hangs. */
+const hang = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new Error('aborted by the queue')));
+});
+
+/** Settles a rejection handler now, so a rejection that lands while timers advance isn't reported as unhandled. */
+const settle = <T>(promise: Promise<T>) => promise.then(value => ({ value }), (error: unknown) => ({ error }));
+
+describe('createRequestQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // No jitter, so the backoff is exactly the base delay doubled per retry.
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries 429 and 5xx responses with exponential backoff', async () => {
+        const queue = createRequestQueue(policy());
+        const errors = [failure(429), failure(503), failure(500)];
+        const task = vi.fn(async () => {
+            const error = errors.shift();
+            if (error) throw error;
+            return 'answer';
+        });
+        const result = settle(queue.run(task));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(199);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(400);
+        expect(task).toHaveBeenCalledTimes(4);
+        expect(await result).toEqual({ value: 'answer' });
+    });
+
+    it('waits as long as Retry-After asks, up to the maximum delay', async () => {
+        const queue = createRequestQueue(policy({ maxDelayMs: 5_000 }));
+        const errors = [failure(429, '2'), failure(429, '60')];
+        const task = vi.fn(async () => {
+            const error = errors.shift();
+            if (error) throw error;
+            return 'answer';
+        });
+        const result = settle(queue.run(task));
+
+        await vi.advanceTimersByTimeAsync(1_999);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(4_999);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await result).toEqual({ value: 'answer' });
+    });
+
+    it('gives up after the last retry with the last error', async () => {
+        const queue = createRequestQueue(policy({ retries: 2 }));
+        const task = vi.fn(async () => { throw failure(502); });
+        const result = settle(queue.run(task));
+
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(task).toHaveBeenCalledTimes(3);
+        expect(await result).toEqual({ error: expect.objectContaining({ status: 502 }) });
+    });
+
+    it('retries a 408 like a timeout', async () => {
+        const queue = createRequestQueue(policy());
+        const task = vi.fn()
+            .mockRejectedValueOnce(failure(408))
+            .mockResolvedValueOnce('answer');
+        const result = settle(queue.run(task));
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(2);
+        expect(await result).toEqual({ value: 'answer' });
+    });
+
+    it('abandons an attempt that takes too long, aborts it and retries', async () => {
+        const queue = createRequestQueue(policy({ timeoutMs: 250, retries: 1 }));
+        const signals: AbortSignal[] = [];
+        const task = vi.fn((signal: AbortSignal) => {
+            signals.push(signal);
+            return hang(signal);
+        });
+        const result = settle(queue.run(task));
+
+        await vi.advanceTimersByTimeAsync(250);
+        expect(signals[0].aborted).toBe(true);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(250);
+        const { error } = await result as { error: Error & { timedOut?: boolean } };
+        expect(error.timedOut).toBe(true);
+        expect(error.message).toBe('The AI did not answer within 250 ms.');
+    });
+
+    it('does not retry other client errors', async () => {
+        const queue = createRequestQueue(policy());
+        for (const status of [400, 401, 403, 404]) {
+            const task = vi.fn(async () => { throw failure(status); });
+            const result = settle(queue.run(task));
+            await vi.advanceTimersByTimeAsync(10_000);
+            expect(task).toHaveBeenCalledTimes(1);
+            expect(await result).toEqual({ error: expect.objectContaining({ status }) });
+        }
+    });
+
+    it('keeps no more calls in flight than the concurrency allows', async () => {
+        const queue = createRequestQueue(policy({ concurrency: 2 }));
+        const finish: (() => void)[] = [];
+        let inFlight = 0;
+        let most = 0;
+        const task = () => new Promise<void>(resolve => {
+            most = Math.max(most, ++inFlight);
+            finish.push(() => {
+                inFlight--;
+                resolve();
+            });
+        });
+        const results = Array.from({ length: 5 }, () => settle(queue.run(task)));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(finish).toHaveLength(2);
+        finish[0]();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(finish).toHaveLength(3);
+        for (let i = 1; i < 5; i++) {
+            finish[i]();
+            await vi.advanceTimersByTimeAsync(0);
+        }
+        await Promise.all(results);
+        expect(most).toBe(2);
+    });
+
+    it('cancels a call still waiting for a slot without ever starting it', async () => {
+        const queue = createRequestQueue(policy({ concurrency: 1, retries: 0 }));
+        const first = settle(queue.run(hang, { timeoutMs: 10_000 }));
+        const controller = new AbortController();
+        const queued = vi.fn(async () => 'answer');
+        const result = settle(queue.run(queued, { signal: controller.signal }));
+
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        const { error } = await result as { error: unknown };
+        expect(isAbortError(error)).toBe(true);
+        expect(queued).not.toHaveBeenCalled();
+
+        // The cancelled call left the line, so the next one still gets the slot.
+        const next = vi.fn(async () => 'next');
+        const nextResult = settle(queue.run(next));
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(await nextResult).toEqual({ value: 'next' });
+        await first;
+    });
+
+    it('cancels a call in flight, aborts its task and does not retry it', async () => {
+        const queue = createRequestQueue(policy());
+        const controller = new AbortController();
+        let taskSignal: AbortSignal | undefined;
+        const task = vi.fn((signal: AbortSignal) => {
+            taskSignal = signal;
+            return hang(signal);
+        });
+        const result = settle(queue.run(task, { signal: controller.signal }));
+
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        const { error } = await result as { error: unknown };
+        expect(isAbortError(error)).toBe(true);
+        expect(taskSignal?.aborted).toBe(true);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels a call waiting to retry', async () => {
+        const queue = createRequestQueue(policy());
+        const controller = new AbortController();
+        const task = vi.fn(async () => { throw failure(429, '5'); });
+        const result = settle(queue.run(task, { signal: controller.signal }));
+
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        const { error } = await result as { error: unknown };
+        expect(isAbortError(error)).toBe(true);
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('getRequestQueue', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.resetModules();
+    });
+
+    it('takes its concurrency from AI_CONCURRENCY', async () => {
+        vi.stubEnv('AI_CONCURRENCY', '1');
+        vi.resetModules();
+        const { getRequestQueue } = await import('./aiRequests');
+        const queue = getRequestQueue();
+        let finishFirst = () => {};
+        const second = vi.fn(async () => 'second');
+        const first = queue.run(() => new Promise<string>(resolve => { finishFirst = () => resolve('first'); }));
+        const secondResult = queue.run(second);
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(second).not.toHaveBeenCalled();
+        finishFirst();
+        expect(await first).toBe('first');
+        expect(await secondResult).toBe('second');
+        expect(getRequestQueue()).toBe(queue);
+    });
+});
+
+describe('formatTimeout', () => {
+    it('keeps sub-second timeouts in milliseconds', () => {
+        expect(formatTimeout(250)).toBe('250 ms');
+        expect(formatTimeout(999)).toBe('999 ms');
+    });
+
+    it('gives longer timeouts in seconds', () => {
+        expect(formatTimeout(1_000)).toBe('1 second');
+        expect(formatTimeout(1_500)).toBe('1.5 seconds');
+        expect(formatTimeout(30_000)).toBe('30 seconds');
+    });
+});
@@ -0,0 +1,190 @@
+/**
+ * The layer every AI call goes through: only a few calls in flight at once, a time limit on each
+ * attempt, and retries with exponential backoff when the provider is rate limited, overloaded or
+ * too slow. A cancelled call rejects with an `AbortError` straight away and is never retried.
+ */
+
+export interface RequestPolicy {
+    /** Calls allowed in flight at once; the rest wait for a free slot. */
+    concurrency: number;
+    /** How long one attempt may take before it is abandoned (and retried). */
+    timeoutMs: number;
+    /** Attempts after the first one. */
+    retries: number;
+    /** The wait before the first retry, doubled for each one after it. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+    concurrency: 3,
+    timeoutMs: 30_000,
+    retries: 3,
+    baseDelayMs: 1_000,
+    maxDelayMs: 15_000,
+};
+
+export interface RunOptions {
+    /** Cancels the call, including any wait for a slot or a retry. */
+    signal?: AbortSignal;
+    /** Overrides the policy's limit for calls known to be slow. */
+    timeoutMs?: number;
+}
+
+export interface RequestQueue {
+    /** Runs `task` under the policy; the task should stop when its `signal` aborts. */
+    run<T>(task: (signal: AbortSignal) => Promise<T>, options?: RunOptions): Promise<T>;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/** An error for a failed HTTP response that keeps its status and any `Retry-After` for the retry logic. */
+export const httpError = (message: string, response: Response): Error =>
+    Object.assign(new Error(message), { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) });
+
+const abortError = (): Error => new DOMException('The request was cancelled.', 'AbortError');
+
+/** "1.5 seconds" or "250 ms", so a sub-second timeout doesn't read as "0 seconds". */
+export const formatTimeout = (timeoutMs: number): string => {
+    if (timeoutMs < 1000) return `${timeoutMs} ms`;
+    const seconds = Number((timeoutMs / 1000).toFixed(1));
+    return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+};
+
+const timeoutError = (timeoutMs: number): Error =>
+    Object.assign(new Error(`The AI did not answer within ${formatTimeout(timeoutMs)}.`), { timedOut: true });
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: unknown })?.name === 'AbortError';
+
+/** Rate limits, overloads, time-outs and dropped connections are worth another try; anything else would fail again. */
+export const isRetryable = (error: unknown): boolean => {
+    if (isAbortError(error)) return false;
+    const { status, timedOut } = (error ?? {}) as { status?: unknown; timedOut?: unknown };
+    if (timedOut) return true;
+    if (typeof status === 'number') return RETRYABLE_STATUSES.includes(status);
+    const message = error instanceof Error ? error.message : String(error);
+    // fetch reports a dropped connection as a TypeError; Gemini names its quota and overload errors.
+    return (error instanceof TypeError && /fetch/i.test(message)) || /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(message);
+};
+
+/** How long the server asked us to wait, if it did. */
+const retryAfterOf = (error: unknown): number | undefined => {
+    const { retryAfterMs } = (error ?? {}) as { retryAfterMs?: unknown };
+    return typeof retryAfterMs === 'number' ? retryAfterMs : undefined;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const cancel = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+});
+
+export const createRequestQueue = (policy: RequestPolicy = DEFAULT_REQUEST_POLICY): RequestQueue => {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        if (active < policy.concurrency) {
+            active++;
+            return resolve();
+        }
+        const start = () => {
+            signal?.removeEventListener('abort', cancel);
+            active++;
+            resolve();
+        };
+        const cancel = () => {
+            waiting.splice(waiting.indexOf(start), 1);
+            reject(abortError());
+        };
+        waiting.push(start);
+        signal?.addEventListener('abort', cancel, { once: true });
+    });
+
+    const release = () => {
+        active--;
+        waiting.shift()?.();
+    };
+
+    /**
+     * One attempt, raced against its time limit and the caller's signal so that a task which
+     * ignores its signal still can't hold the caller up.
+     */
+    const attempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+        const controller = new AbortController();
+        const cancel = () => controller.abort();
+        signal?.addEventListener('abort', cancel);
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        return new Promise<T>((resolve, reject) => {
+            controller.signal.addEventListener('abort', () => reject(timedOut ? timeoutError(timeoutMs) : abortError()));
+            task(controller.signal).then(resolve, reject);
+        }).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        });
+    };
+
+    return {
+        async run(task, { signal, timeoutMs = policy.timeoutMs } = {}) {
+            for (let retry = 0; ; retry++) {
+                await acquire(signal);
+                let delay: number;
+                try {
+                    return await attempt(task, timeoutMs, signal);
+                } catch (error) {
+                    if (signal?.aborted) throw abortError();
+                    if (retry >= policy.retries || !isRetryable(error)) throw error;
+                    const backoff = policy.baseDelayMs * 2 ** retry * (1 + Math.random() / 4);
+                    delay = Math.min(policy.maxDelayMs, retryAfterOf(error) ?? backoff);
+                    console.warn(`AI call failed; retrying in ${Math.round(delay)}ms.`, error);
+                } finally {
+                    release();
+                }
+                // The slot is given up while waiting, so other calls aren't held back by this one.
+                await wait(delay, signal);
+            }
+        },
+    };
+};
+
+const positive = (value: string | undefined): number | undefined => {
+    const number = Number(value);
+    return value && Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+let sharedQueue: RequestQueue | null = null;
+
+/**
+ * The queue all of this app's AI calls share, created on first use so that the room server has
+ * read `.env.local` by then. `AI_TIMEOUT_MS` and `AI_CONCURRENCY` override the defaults.
+ */
+export const getRequestQueue = (): RequestQueue => {
+    if (!sharedQueue) {
+        sharedQueue = createRequestQueue({
+            ...DEFAULT_REQUEST_POLICY,
+            timeoutMs: positive(process.env.AI_TIMEOUT_MS) ?? DEFAULT_REQUEST_POLICY.timeoutMs,
+            concurrency: positive(process.env.AI_CONCURRENCY) ?? DEFAULT_REQUEST_POLICY.concurrency,
+        });
+    }
+    return sharedQueue;
+};
@@ -0,0 +1,74 @@
+import type { CaseFile, CaseEvent } from '../game/caseFile';
+import { getDifficulty } from '../game/difficulty';
+
+export type CaseFileFormat = 'markdown' | 'json';
+
+const winnerLabel = (caseFile: CaseFile) => (caseFile.winner === 'citizens' ? '시민 팀 승리' : '빌런 팀 승리');
+
+const formatEvent = (event: CaseEvent): string | null => {
+    switch (event.kind) {
+        case 'message': {
+            const { sender, text, privateTo, isPrivate, addressees } = event.message;
+            const quoted = text.split('\n').join('\n> ');
+            if (sender === 'system') {
+                const audience = privateTo ? ` (${privateTo}에게만)` : isPrivate ? ' (비공개)' : '';
+                return `> ${quoted}${audience}`;
+            }
+            return `**${sender}**${addressees?.length ? ` → ${addressees.join(', ')}` : ''}: ${text.split('\n').join('  \n')}`;
+        }
+        case 'vote':
+            return `- 🗳️ ${event.vote.voter} → ${event.vote.votedFor ?? '기권'}${event.vote.reason ? ` — "${event.vote.reason}"` : ''}`;
+        case 'fired':
+            return `**🔥 ${event.round}라운드: ${event.name}님 해고**`;
+        case 'scene':
+            return null;
+    }
+};
+
+/**
+ * Renders a case file as Markdown for pasting into team chat. Scene images are left out; the
+ * JSON export is the one to keep for the full record.
+ */
+export const formatCaseFileMarkdown = (caseFile: CaseFile): string => [
+    '# 오피스 빌런 사건 파일',
+    '',
+    `- **사건**: ${caseFile.sabotage}`,
+    ...(caseFile.caseCode ? [`- **사건 코드**: ${caseFile.caseCode}`] : []),
+    `- **난이도**: ${getDifficulty(caseFile.difficulty).label}`,
+    `- **결과**: ${winnerLabel(caseFile)} (${caseFile.rounds}라운드)`,
+    `- **종료 시각**: ${new Date(caseFile.finishedAt).toLocaleString('ko-KR')}`,
+    '',
+    '## 등장인물',
+    '',
+    '| 이름 | 직책 | 역할 | 결과 |',
+    '| --- | --- | --- | --- |',
+    ...caseFile.cast.map(c =>
+        `| ${c.name}${c.isPlayer ? ' (플레이어)' : ''} | ${c.position} | ${c.roleLabel} | ${c.firedInRound ? `${c.firedInRound}라운드 해고` : '생존'} |`),
+    '',
+    '## 기록',
+    '',
+    ...caseFile.events.map(formatEvent).filter((line): line is string => line !== null).flatMap(line => [line, '']),
+].join('\n');
+
+/** The case file as JSON, without the image data that would make it too big to share. */
+export const formatCaseFileJson = (caseFile: CaseFile): string => JSON.stringify({
+    ...caseFile,
+    cast: caseFile.cast.map(c => ({ ...c, imageUrl: null })),
+    events: caseFile.events.map(e => (e.kind === 'scene' ? { ...e, imageUrl: null } : e)),
+}, null, 2);
+
+/**
+ * Offers the case file as a `.md` or `.json` download.
+ */
+export const downloadCaseFile = (caseFile: CaseFile, format: CaseFileFormat): void => {
+    const isMarkdown = format === 'markdown';
+    const blob = new Blob([isMarkdown ? formatCaseFileMarkdown(caseFile) : formatCaseFileJson(caseFile)], {
+        type: isMarkdown ? 'text/markdown' : 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `office-villain-${caseFile.caseCode ?? caseFile.finishedAt.slice(0, 10)}.${isMarkdown ? 'md' : 'json'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,50 @@
+const DAILY_RESULTS_KEY = 'office-villain:daily';
+/** Old days are dropped beyond this many, so the record can't grow without bound. */
+const MAX_DAILY_RESULTS = 30;
+
+export interface DailyResult {
+    /** The day the case belongs to, e.g. `2026-10-19`. */
+    dailyKey: string;
+    won: boolean;
+    /** Ballots cast before the game ended, runoffs included. */
+    ballots: number;
+    /** Colleagues fired who were not on the villain's side. */
+    innocentsFired: number;
+}
+
+const readResults = (): DailyResult[] => {
+    try {
+        const json = localStorage.getItem(DAILY_RESULTS_KEY);
+        const stored: unknown = json ? JSON.parse(json) : [];
+        return Array.isArray(stored) ? stored.filter(r => typeof r?.dailyKey === 'string') : [];
+    } catch (error) {
+        console.warn("Could not read daily case results.", error);
+        return [];
+    }
+};
+
+export const getDailyResult = (dailyKey: string): DailyResult | null =>
+    readResults().find(r => r.dailyKey === dailyKey) ?? null;
+
+/**
+ * Keeps the first finish of each day's case; replays after that don't overwrite it, so the
+ * result the team compares is the honest first attempt.
+ */
+export const recordDailyResult = (result: DailyResult): void => {
+    const results = readResults();
+    if (results.some(r => r.dailyKey === result.dailyKey)) return;
+    try {
+        localStorage.setItem(DAILY_RESULTS_KEY, JSON.stringify([result, ...results].slice(0, MAX_DAILY_RESULTS)));
+    } catch (error) {
+        console.warn("Could not save daily case result.", error);
+    }
+};
+
+/**
+ * A spoiler-free summary to paste into the team chat. Everyone is dealt the same seat, so it
+ * leaves out names and roles.
+ */
+export const formatDailyShare = (result: DailyResult): string => [
+    `🕵️ 오피스 빌런 · 오늘의 사건 ${result.dailyKey}`,
+    `${result.won ? '✅ 승리' : '❌ 패배'} · 투표 ${result.ballots}회 · 억울한 해고 ${result.innocentsFired}명`,
+].join('\n');
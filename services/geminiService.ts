@@ -1,229 +1,171 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { Character, Message } from '../types';
-import { pregeneratedGameSets, GameSet } from '../pregeneratedContent';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const voteAndConfessionSchema = {
-    type: Type.OBJECT,
-    properties: {
-        votes: {
-            type: Type.ARRAY,
-            description: "An array of vote objects, one for each AI character.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    voter: { type: Type.STRING, description: "The name of the AI character who is voting." },
-                    votedFor: { type: Type.STRING, description: "The name of the character they are voting for." }
-                },
-                required: ["voter", "votedFor"]
-            }
-        },
-        confession: {
-            type: Type.STRING,
-            description: "The secret confession of the true villain, explaining their motive for the sabotage. This should be in Korean."
-        }
-    },
-    required: ["votes", "confession"]
-};
+import type { Character, Message, Vote } from '../types';
+import type { GameSet } from '../pregeneratedContent';
+import { getDialogueProvider, streamCharacterResponse, CaseDetails } from './providers';
+import { getRequestQueue, isAbortError } from './aiRequests';
+import { getAvailableGameSets } from './packLibrary';
 
 /**
- * Selects a random pre-generated game set.
+ * Selects a random pre-generated game set, from the built-in and imported scenarios unless
+ * a narrower list is given. Pass a seeded `random` to make the choice reproducible.
  * This is now an instant, local operation with no API calls.
  */
-export const getPregeneratedGameSetup = (): GameSet => {
-    const randomIndex = Math.floor(Math.random() * pregeneratedGameSets.length);
-    const gameSet = pregeneratedGameSets[randomIndex];
+export const getPregeneratedGameSetup = (gameSets: GameSet[] = getAvailableGameSets(), random: () => number = Math.random): GameSet => {
+    const randomIndex = Math.floor(random() * gameSets.length);
+    const gameSet = gameSets[randomIndex];
     // Return a deep copy to prevent mutations from affecting the original data
     return JSON.parse(JSON.stringify(gameSet));
 };
 
 
-export const editImageToRemoveCharacter = async (base64ImageDataWithPrefix: string, characterDescription: string): Promise<string | null> => {
+/** Image edits take far longer than a line of dialogue. */
+const IMAGE_EDIT_TIMEOUT_MS = 90_000;
+
+export const editImageToRemoveCharacter = async (base64ImageDataWithPrefix: string, characterDescription: string, signal?: AbortSignal): Promise<string | null> => {
     if (!base64ImageDataWithPrefix || !characterDescription) return null;
     try {
-        const [prefix, base64Data] = base64ImageDataWithPrefix.split(',');
-        if (!prefix || !base64Data) {
-            throw new Error("Invalid base64 data URL format.");
-        }
-        const mimeType = prefix.match(/:(.*?);/)?.[1] || 'image/png';
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            data: base64Data,
-                            mimeType: mimeType,
-                        },
-                    },
-                    {
-                        text: `Remove the character best described as "${characterDescription}" from this image. Do not change anything else.`,
-                    },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-        
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-            }
-        }
-        return null;
-
+        return await getRequestQueue().run(
+            attempt => getDialogueProvider().editImageToRemoveCharacter(base64ImageDataWithPrefix, characterDescription, attempt),
+            { signal, timeoutMs: IMAGE_EDIT_TIMEOUT_MS }
+        );
     } catch (error) {
-        console.warn("Could not edit image to remove character.", error);
+        if (!isAbortError(error)) console.warn("Could not edit image to remove character.", error);
         return null;
     }
 };
 
+
 /**
- * Creates a tailored, focused prompt for a single character's response.
+ * What `getCharacterResponses` reports: a colleague's reply as it is being typed, then the
+ * finished reply, or `failed` when no answer came even after retrying.
  */
-const createIndividualPromptFor = (
-    character: Character,
-    allCharacters: Character[],
-    sabotage: string,
-    chatHistory: Message[],
-    playerCharacterName: string,
-    userInput: string
-): string => {
-    const characterDescriptions = allCharacters.filter(c => c.status === 'active').map(c => 
-        `- ${c.name} (${c.position}): ${c.personality}.`
-    ).join('\n');
-    
-    const history = chatHistory.slice(-4).map(m => `${m.sender}: ${m.text}`).join('\n');
-
-    return `
-        You are roleplaying as a single character in the game 'Office Villain'. Your persona is defined below. Your goal is to respond to the player's latest message in a way that is consistent with your personality and secret role (innocent or villain).
-
-        **Scenario:** "${sabotage}"
-
-        **All Characters in this scene:**
-        ${characterDescriptions}
-
-        ---
-        **YOUR CHARACTER PROFILE:**
-        - **Name:** ${character.name}
-        - **Position:** ${character.position}
-        - **Personality:** ${character.personality}
-        - **Your Secret Role:** You are **${character.isVillain ? "the VILLAIN" : "INNOCENT"}**.
-        ---
-
-        **Recent Conversation:**
-        ${history}
-        **The Player (${playerCharacterName}) just said:** "${userInput}"
-
-        **Your Task:**
-        Generate a short, conversational response in Korean from the perspective of **${character.name}**.
-        - If you are the VILLAIN, be deceptive. Hint at others, feign ignorance, or create a weak alibi.
-        - If you are INNOCENT, be genuinely helpful or suspicious. Ask questions or share observations.
-        - Your response should be 1-3 sentences.
-        - **Output ONLY the dialogue text. Do NOT include your character name or any JSON formatting.**
-    `;
-};
-
+export type ReplyEvent =
+    | { kind: 'typing'; name: string; text: string }
+    | { kind: 'reply'; name: string; response: string }
+    | { kind: 'failed'; name: string };
 
+/**
+ * Streams replies from `responders` in order. Requests go out in parallel through the request
+ * queue and are buffered; the colleague whose turn it is shows up as `typing` with the text so
+ * far, and each reply is yielded whole once it finishes. A colleague who can't be reached is
+ * reported as `failed` and the others carry on. Aborting `signal`, or leaving the loop, stops
+ * every call.
+ */
 export async function* getCharacterResponses(
     userInput: string,
+    responders: Character[],
+    addressees: string[],
     characters: Character[],
     sabotage: string,
     chatHistory: Message[],
-    playerCharacterName: string
-): AsyncGenerator<{ name: string; response: string }> {
-    const activeAICharacters = characters.filter(c => c.status === 'active' && c.name !== playerCharacterName);
-
-    // Create an array of promises, each one representing an API call for a single character.
-    // The requests are fired off near-simultaneously.
-    const responsePromises = activeAICharacters.map(character => {
-        return (async () => {
-            const prompt = createIndividualPromptFor(character, characters, sabotage, chatHistory, playerCharacterName, userInput);
+    playerCharacterName: string,
+    details: CaseDetails = {},
+    signal?: AbortSignal
+): AsyncGenerator<ReplyEvent> {
+    const provider = getDialogueProvider();
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) abort();
+
+    // Wakes the consumer below whenever any reply changes or the calls are aborted.
+    let wake = () => {};
+    controller.signal.addEventListener('abort', () => wake());
+
+    const replies = responders.map(character => {
+        const reply = { text: '', done: false, failed: false };
+        (async () => {
             try {
-                const response = await ai.models.generateContent({
-                    model: "gemini-2.5-flash",
-                    contents: prompt,
-                    config: {
-                        // For fast, reactive chat, disabling "thinking" is a key optimization.
-                        thinkingConfig: { thinkingBudget: 0 }
-                    },
-                });
-                return { name: character.name, response: response.text.trim() };
+                const request = { ...details, character, characters, sabotage, chatHistory, playerCharacterName, userInput, addressees };
+                await getRequestQueue().run(async attempt => {
+                    // A retry starts the reply over.
+                    reply.text = '';
+                    for await (const chunk of streamCharacterResponse(provider, request, attempt)) {
+                        if (attempt.aborted) return;
+                        reply.text += chunk;
+                        wake();
+                    }
+                }, { signal: controller.signal });
             } catch (error) {
-                console.error(`Error getting response for ${character.name}:`, error);
-                // Return a fallback response on error to avoid breaking the game flow
-                return { name: character.name, response: "..." };
+                if (!controller.signal.aborted) console.error(`Error getting response for ${character.name}:`, error);
+                reply.failed = true;
             }
+            reply.done = true;
+            wake();
         })();
+        return reply;
     });
 
-    // Await each promise in the order they were created.
-    // This maintains the one-by-one conversational flow in the UI.
-    for (const promise of responsePromises) {
-        yield await promise;
+    try {
+        for (const [i, reply] of replies.entries()) {
+            const name = responders[i].name;
+            let shown: string | null = null;
+            while (!controller.signal.aborted) {
+                // Set up the wake-up before looking, so a change in between isn't missed.
+                const changed = new Promise<void>(resolve => { wake = resolve; });
+                if (reply.done) break;
+                if (reply.text !== shown) {
+                    shown = reply.text;
+                    yield { kind: 'typing', name, text: shown };
+                    continue;
+                }
+                await changed;
+            }
+            if (controller.signal.aborted) return;
+            yield reply.failed ? { kind: 'failed', name } : { kind: 'reply', name, response: reply.text.trim() };
+        }
+    } finally {
+        signal?.removeEventListener('abort', abort);
+        abort();
     }
 };
 
+/**
+ * Polls each active AI colleague for their own vote, in parallel, and asks the villain for a
+ * confession to show if they are caught. A colleague whose vote fails even after retrying
+ * simply doesn't vote; only a ballot where nobody could answer is an error, which the caller
+ * can offer to run again. Aborting `signal` rejects with an `AbortError`.
+ */
 export const getVoteAndConfession = async (
     characters: Character[],
     sabotage: string,
     chatHistory: Message[],
-    playerVote: { voter: string; votedFor: string }
-): Promise<{ votes: { voter: string; votedFor: string }[], confession: string }> => {
-    const activeAICharacters = characters.filter(c => c.status === 'active' && !c.isPlayer);
-    const villain = characters.find(c => c.isVillain);
-    const characterDescriptions = characters.map(c => 
-        `- ${c.name} (${c.position}): ${c.personality}. ${c.isVillain ? "Is the VILLAIN." : "Is INNOCENT."}`
-    ).join('\n');
-    const history = chatHistory.slice(-10).map(m => `${m.sender}: ${m.text}`).join('\n');
+    playerVote: Vote,
+    details: CaseDetails & { candidates?: string[] } = {},
+    signal?: AbortSignal
+): Promise<{ votes: Vote[], confession: string }> => {
+    const villain = characters.find(c => c.role === 'villain');
 
     if (!villain) {
         throw new Error("Game error: Villain not found.");
     }
 
-    const prompt = `
-        You are the game master for 'Office Villain'. The discussion is over, and it's time to vote.
-        
-        **Scenario:** "${sabotage}"
-        **Characters:**
-        ${characterDescriptions}
-        **Conversation Summary:**
-        ${history}
-
-        The player, **${playerVote.voter}**, has voted for **${playerVote.votedFor}**.
-
-        **Your Tasks:**
-        1.  **Simulate AI Votes:** For each of the other active characters (${activeAICharacters.map(c => c.name).join(', ')}), decide who they will vote for. Their vote should be a logical (but not perfect) guess based on the conversation. An AI character will not vote for themselves.
-        2.  **Write the Villain's Confession:** Write a short, creative confession in Korean from the true villain, **${villain.name}**. The confession must explain the funny or absurd reason *why* they committed the sabotage: "${sabotage}".
-        3.  **Return JSON:** Provide the AI votes and the villain's confession in the specified JSON format. Ensure the names in the 'votes' array are spelled correctly.
-    `;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: voteAndConfessionSchema,
-            },
-        });
-        const jsonString = response.text.trim();
-        const data = JSON.parse(jsonString);
-        // Ensure the AI didn't return null or invalid data
-        if (!data.votes || !data.confession) {
-            throw new Error("AI returned incomplete data.");
-        }
-        return data;
-    } catch (error) {
-        console.error("Error getting vote results:", error);
+    const provider = getDialogueProvider();
+    const requests = getRequestQueue();
+    const voters = characters.filter(c => c.status === 'active' && !c.isPlayer);
+    const [votes, confession] = await Promise.all([
+        Promise.all(voters.map(async (voter): Promise<Vote | null> => {
+            try {
+                const { votedFor, reason } = await requests.run(
+                    attempt => provider.getCharacterVote({ ...details, voter, characters, sabotage, chatHistory, playerVote }, attempt),
+                    { signal }
+                );
+                return { voter: voter.name, votedFor, ...(reason?.trim() ? { reason: reason.trim() } : {}) };
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                console.error(`Error getting ${voter.name}'s vote:`, error);
+                return null;
+            }
+        })),
+        requests.run(attempt => provider.getConfession({ ...details, villain, sabotage, chatHistory }, attempt), { signal }).catch(error => {
+            if (isAbortError(error)) throw error;
+            console.error("Error getting confession:", error);
+            return details.script?.confession ?? "네, 제가 그랬습니다. 도저히 참을 수가 없었어요. 죄송합니다...";
+        }),
+    ]);
+
+    const cast = votes.filter((vote): vote is Vote => vote !== null);
+    if (voters.length > 0 && cast.length === 0) {
         throw new Error("The AI colleagues are too stressed to vote. Try again.");
     }
-};
\ No newline at end of file
+    return { votes: cast, confession };
+};
@@ -0,0 +1,74 @@
+import { pregeneratedGameSets, GameSet } from '../pregeneratedContent';
+import { validateScenarioPack, createScenarioPack, ScenarioPack } from './scenarioPack';
+
+const CUSTOM_PACKS_KEY = 'office-villain:packs';
+
+/** Scenarios written in the in-app editor are kept together in this pack. */
+export const MY_SCENARIOS_PACK_ID = 'my-scenarios';
+const MY_SCENARIOS_PACK_TITLE = '내가 만든 사건';
+
+/**
+ * Reads imported packs from local storage. Packs are re-validated on read so a hand-edited or
+ * outdated entry is skipped rather than crashing setup.
+ */
+export const listCustomPacks = (): ScenarioPack[] => {
+    try {
+        const json = localStorage.getItem(CUSTOM_PACKS_KEY);
+        const stored: unknown = json ? JSON.parse(json) : [];
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap(raw => validateScenarioPack(raw).pack ?? []);
+    } catch (error) {
+        console.warn("Could not read custom scenario packs.", error);
+        return [];
+    }
+};
+
+const writeCustomPacks = (packs: ScenarioPack[]): boolean => {
+    try {
+        localStorage.setItem(CUSTOM_PACKS_KEY, JSON.stringify(packs));
+        return true;
+    } catch (error) {
+        console.warn("Could not write custom scenario packs.", error);
+        return false;
+    }
+};
+
+/**
+ * Adds a pack, replacing any stored pack with the same id. Returns false when storage is full.
+ */
+export const saveCustomPack = (pack: ScenarioPack): boolean =>
+    writeCustomPacks([...listCustomPacks().filter(p => p.id !== pack.id), pack]);
+
+export const deleteCustomPack = (id: string): void => {
+    writeCustomPacks(listCustomPacks().filter(p => p.id !== id));
+};
+
+/**
+ * Every scenario the game can deal: the built-in sets followed by imported ones.
+ */
+export const getAvailableGameSets = (): GameSet[] =>
+    [...pregeneratedGameSets, ...listCustomPacks().flatMap(p => p.scenarios)];
+
+export const getMyScenarios = (): GameSet[] =>
+    listCustomPacks().find(p => p.id === MY_SCENARIOS_PACK_ID)?.scenarios ?? [];
+
+/**
+ * Stores an edited scenario in the editor's pack, replacing the one at `index` or appending it.
+ * Returns the scenario's index, or `null` when storage is full.
+ */
+export const saveMyScenario = (gameSet: GameSet, index: number | null): number | null => {
+    const scenarios = [...getMyScenarios()];
+    const savedIndex = index !== null && index < scenarios.length ? index : scenarios.length;
+    scenarios[savedIndex] = gameSet;
+    const pack = { ...createScenarioPack(MY_SCENARIOS_PACK_TITLE, scenarios), id: MY_SCENARIOS_PACK_ID };
+    return saveCustomPack(pack) ? savedIndex : null;
+};
+
+export const deleteMyScenario = (index: number): void => {
+    const scenarios = getMyScenarios().filter((_, i) => i !== index);
+    if (scenarios.length === 0) {
+        deleteCustomPack(MY_SCENARIOS_PACK_ID);
+        return;
+    }
+    saveCustomPack({ ...createScenarioPack(MY_SCENARIOS_PACK_TITLE, scenarios), id: MY_SCENARIOS_PACK_ID });
+};
@@ -0,0 +1,77 @@
+import { ACHIEVEMENTS, Achievement, GameRecord } from '../game/profile';
+import { DEFAULT_DIFFICULTY } from '../game/difficulty';
+
+const PROFILE_KEY = 'office-villain:profile';
+/** The oldest games are dropped beyond this many; achievements already earned are kept. */
+const MAX_RECORDED_GAMES = 200;
+
+export interface Profile {
+    /** Newest first. */
+    games: GameRecord[];
+    /** When each achievement was earned, keyed by its id. */
+    achievements: { [id: string]: number };
+}
+
+const emptyProfile = (): Profile => ({ games: [], achievements: {} });
+
+/**
+ * Games recorded before difficulty presets have no difficulty; they were played on normal. Games
+ * recorded before scenario ids are kept together by their sabotage text, as they were then, and
+ * older games that didn't count the innocents left are taken to have had the villain alone.
+ */
+type StoredGame = Omit<GameRecord, 'difficulty' | 'scenarioId' | 'finalInnocents'>
+    & Partial<Pick<GameRecord, 'difficulty' | 'scenarioId' | 'finalInnocents'>>;
+
+const isStoredGame = (game: unknown): game is StoredGame =>
+    typeof (game as { scenario?: unknown } | null)?.scenario === 'string';
+
+export const getProfile = (): Profile => {
+    try {
+        const json = localStorage.getItem(PROFILE_KEY);
+        const stored: { games?: unknown; achievements?: unknown } | null = json ? JSON.parse(json) : null;
+        if (!stored || !Array.isArray(stored.games)) return emptyProfile();
+        return {
+            games: stored.games.filter(isStoredGame).map(game => ({
+                difficulty: DEFAULT_DIFFICULTY,
+                scenarioId: game.scenario,
+                finalInnocents: game.finalActive - 1,
+                ...game,
+            })),
+            achievements: stored.achievements && typeof stored.achievements === 'object' ? stored.achievements as Profile['achievements'] : {},
+        };
+    } catch (error) {
+        console.warn("Could not read the player profile.", error);
+        return emptyProfile();
+    }
+};
+
+const writeProfile = (profile: Profile): void => {
+    try {
+        localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+    } catch (error) {
+        console.warn("Could not save the player profile.", error);
+    }
+};
+
+/**
+ * Adds a finished game to the profile and returns the achievements it unlocked, so the end
+ * screen can announce them.
+ */
+export const recordGame = (record: GameRecord): Achievement[] => {
+    const profile = getProfile();
+    const games = [record, ...profile.games].slice(0, MAX_RECORDED_GAMES);
+    const unlocked = ACHIEVEMENTS.filter(a => !profile.achievements[a.id] && a.isEarned(games));
+    writeProfile({
+        games,
+        achievements: { ...profile.achievements, ...Object.fromEntries(unlocked.map(a => [a.id, record.finishedAt])) },
+    });
+    return unlocked;
+};
+
+export const resetProfile = (): void => {
+    try {
+        localStorage.removeItem(PROFILE_KEY);
+    } catch (error) {
+        console.warn("Could not reset the player profile.", error);
+    }
+};
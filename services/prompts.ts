@@ -0,0 +1,310 @@
+import type { Character, Message, Vote } from '../types';
+import type { CaseDetails } from './providers/types';
+import { getKnownEvidence, getShareableClues, listEvidence } from '../game/evidence';
+import { formatMemory } from '../game/memory';
+import { isVillainSide } from '../game/roles';
+import { assessHumans, SCRUTINY_THRESHOLD } from '../game/scrutiny';
+import { describeSuspicionLevel, suspicionLevel } from '../game/suspicion';
+import { getDifficulty, getVoterDifficulty } from '../game/difficulty';
+
+/** Put to runoff finalists, who answer it as their closing defense. */
+export const DEFENSE_REQUEST = '결선 투표 전에 최후 변론을 해 주세요. 왜 당신이 빌런이 아닌지 한두 문장으로 말해 주세요.';
+
+/** Appends a difficulty preset's extra instruction, which normal leaves empty. */
+const withGuidance = (guidance: string): string => (guidance ? ` ${guidance}` : '');
+
+const formatLine = (m: Message): string =>
+    `${m.sender}${m.addressees?.length ? ` (to ${m.addressees.join(', ')})` : ''}: ${m.text}`;
+
+/**
+ * Tells a character whether the player is questioning them, someone else, or the whole room.
+ */
+const formatAddressing = (character: Character, playerCharacterName: string, addressees: string[] = []): string => {
+    if (addressees.length === 0) return `${playerCharacterName} is speaking to everyone.`;
+    if (addressees.includes(character.name)) {
+        return addressees.length === 1
+            ? `${playerCharacterName} is questioning YOU directly. Answer the question yourself.`
+            : `${playerCharacterName} is questioning you together with ${addressees.filter(n => n !== character.name).join(', ')}.`;
+    }
+    return `${playerCharacterName} is questioning ${addressees.join(', ')}, not you, but you were brought up. Chime in briefly.`;
+};
+
+const formatUncoveredEvidence = ({ evidence, revealedEvidence }: CaseDetails): string => {
+    const entries = listEvidence(evidence, revealedEvidence ?? []);
+    if (entries.length === 0) return '- Nothing yet.';
+    return entries.map(e => `- ${e.kind === 'alibi' ? `${e.label}'s stated whereabouts` : e.label || 'Physical evidence'}: ${e.text}`).join('\n');
+};
+
+/**
+ * The villain's nights so far. The villain knows they did it; a framed colleague knows the
+ * planted item isn't theirs.
+ */
+const formatNightIncidents = ({ incidents }: CaseDetails, character?: Character): string => {
+    if (!incidents?.length) return '- Nothing so far.';
+    return incidents.map(i => {
+        const note = character?.role === 'villain'
+            ? ' (You did this.)'
+            : character && i.effect === 'frame' && i.target === character.name ? " (Someone planted it; it isn't yours.)" : '';
+        return `- Night after round ${i.round}: ${i.text} ${i.aftermath}${note}`;
+    }).join('\n');
+};
+
+/**
+ * Turns doubts about a player's own story into an instruction, one per player whose story has
+ * holes: innocents press them, the villain's side exploits it, or covers for a player on the
+ * same side.
+ */
+const formatPlayerScrutiny = (
+    character: Character,
+    allCharacters: Character[],
+    chatHistory: Message[],
+    sabotage: string,
+    { evidence, revealedEvidence }: CaseDetails
+): string | null => {
+    const lines = assessHumans(allCharacters, chatHistory, sabotage, evidence, revealedEvidence)
+        .filter(({ scrutiny }) => scrutiny.score >= SCRUTINY_THRESHOLD)
+        .map(({ player, scrutiny }) => {
+            const why = scrutiny.reasons.join('; ');
+            if (!isVillainSide(character)) {
+                return `${player.name}'s own story has holes: ${why}. Act like a detective: press them with one pointed question about it.`;
+            }
+            return isVillainSide(player)
+                ? `Your partner ${player.name} is drawing suspicion (${why}). Deflect attention from them without being obvious.`
+                : `${player.name} is drawing suspicion (${why}). Use it to steer the room towards them.`;
+        });
+    return lines.length > 0 ? lines.join('\n        - ') : null;
+};
+
+/**
+ * Spells out a character's secret role and how to play it, including anything their role lets
+ * them know privately.
+ */
+const formatRoleBriefing = (character: Character, allCharacters: Character[], { roleState, difficulty }: CaseDetails): { title: string; behavior: string } => {
+    const villain = allCharacters.find(c => c.role === 'villain');
+    const accomplice = allCharacters.find(c => c.role === 'accomplice');
+    switch (character.role) {
+        case 'villain':
+            return {
+                title: 'the VILLAIN',
+                behavior: `Be deceptive. Hint at others, feign ignorance, or create a weak alibi.${accomplice ? ` ${accomplice.name} is your secret accomplice; don't make it obvious that you protect each other.` : ''}${withGuidance(getDifficulty(difficulty).villainGuidance)}`,
+            };
+        case 'accomplice':
+            return {
+                title: `the ACCOMPLICE of the villain, ${villain?.name}`,
+                behavior: `You did not commit the sabotage, but you want ${villain?.name} to get away with it. Cover for them subtly, steer suspicion onto innocent colleagues, and never admit you know who did it.`,
+            };
+        case 'investigator': {
+            const results = (roleState?.investigations ?? [])
+                .filter(i => i.investigator === character.name)
+                .map(i => `${i.target} is ${i.isVillainSide ? "ON THE VILLAIN'S SIDE" : 'innocent'}`);
+            return {
+                title: 'INNOCENT, and secretly the HR investigator',
+                behavior: `You check one colleague's HR record each round. Your findings so far: ${results.length > 0 ? results.join('; ') : 'none yet'}. Press anyone you found on the villain's side and vouch for those you cleared, without necessarily revealing how you know.`,
+            };
+        }
+        case 'gossip':
+            return {
+                title: 'INNOCENT, and the office gossip',
+                behavior: roleState?.rumor
+                    ? `You overheard in the break room that the culprit is either ${roleState.rumor.join(' or ')}, but not which one. Leak hints about this rumour in a chatty, teasing way without presenting it as fact.`
+                    : 'Be chatty and pass on whatever you have heard about your colleagues.',
+            };
+        default:
+            return { title: 'INNOCENT', behavior: 'Be genuinely helpful or suspicious. Ask questions or share observations.' };
+    }
+};
+
+/**
+ * Lists the facts a character can speak from. The villain's alibi is a cover story, and clues
+ * implicating the villain's side are ones they know about but will not bring up.
+ */
+const formatCharacterKnowledge = (character: Character, allCharacters: Character[], { evidence }: CaseDetails): string => {
+    const { alibi, clues } = getKnownEvidence(evidence, character.name);
+    const shareable = getShareableClues(evidence, character, allCharacters);
+    const lines: string[] = [];
+    if (alibi) {
+        lines.push(character.role === 'villain'
+            ? `- Your cover story (a lie, but stick to it): ${alibi}`
+            : `- Where you were: ${alibi}`);
+    }
+    clues.forEach(c => {
+        const prefix = c.time ? `[${c.time}] ` : '';
+        lines.push(shareable.includes(c)
+            ? `- You know: ${prefix}${c.text}`
+            : `- You know, but must never volunteer: ${prefix}${c.text}`);
+    });
+    return lines.length > 0 ? lines.join('\n') : '- Nothing beyond what everyone has heard.';
+};
+
+/**
+ * Creates a tailored, focused prompt for a single character's response.
+ */
+export const createIndividualPromptFor = (
+    character: Character,
+    allCharacters: Character[],
+    sabotage: string,
+    chatHistory: Message[],
+    playerCharacterName: string,
+    userInput: string,
+    details: CaseDetails & { addressees?: string[] } = {}
+): string => {
+    const characterDescriptions = allCharacters.filter(c => c.status === 'active').map(c =>
+        `- ${c.name} (${c.position}): ${c.personality}.`
+    ).join('\n');
+
+    const history = chatHistory.slice(-4).map(formatLine).join('\n');
+    const role = formatRoleBriefing(character, allCharacters, details);
+    const scrutiny = formatPlayerScrutiny(character, allCharacters, chatHistory, sabotage, details);
+
+    return `
+        You are roleplaying as a single character in the game 'Office Villain'. Your persona is defined below. Your goal is to respond to the player's latest message in a way that is consistent with your personality and secret role.
+
+        **Scenario:** "${sabotage}"
+        **Follow-up Incidents Since Then:**
+        ${formatNightIncidents(details, character)}
+
+        **All Characters in this scene:**
+        ${characterDescriptions}
+
+        ---
+        **YOUR CHARACTER PROFILE:**
+        - **Name:** ${character.name}
+        - **Position:** ${character.position}
+        - **Personality:** ${character.personality}
+        - **Your Secret Role:** You are **${role.title}**.
+        ---
+
+        **What You Know About the Case:**
+        ${formatCharacterKnowledge(character, allCharacters, details)}
+        **Evidence the Team Has Already Uncovered:**
+        ${formatUncoveredEvidence(details)}
+
+        **Your Memory of the Case So Far:**
+        ${formatMemory(details.memories?.[character.name])}
+
+        **Recent Conversation:**
+        ${history}
+        **The Player (${playerCharacterName}) just said:** "${userInput}"
+        ${formatAddressing(character, playerCharacterName, details.addressees)}
+
+        **Your Task:**
+        Generate a short, conversational response in Korean from the perspective of **${character.name}**.
+        - ${role.behavior}${scrutiny ? `\n        - ${scrutiny}` : ''}
+        - Stay consistent with what you have said before, and let your suspicions guide who you question.
+        - If the player's question touches on something you know, share it. Only state facts listed above; never invent sightings or contradict uncovered evidence.
+        - Your response should be 1-3 sentences.
+        - **Output ONLY the dialogue text. Do NOT include your character name or any JSON formatting.**
+    `;
+};
+
+/**
+ * How a voter picks a name. Innocents follow their suspicions; the villain's side picks an
+ * innocent to take the fall and never one of their own.
+ */
+const formatVotingStance = (voter: Character, allCharacters: Character[], details: CaseDetails): string => {
+    const partners = allCharacters.filter(c => c.name !== voter.name && isVillainSide(c)).map(c => c.name);
+    if (isVillainSide(voter)) {
+        return `Vote for an innocent colleague who already draws suspicion, so that you stay hidden. Never vote for ${partners.join(' or ') || 'yourself'}.`;
+    }
+    const stance = voter.role === 'investigator'
+        ? `${formatRoleBriefing(voter, allCharacters, details).behavior} Vote for anyone you found on the villain's side.`
+        : 'Vote for whoever the evidence, the conversation and your memory point to most, in line with how you have been reading the room unless something new changed your mind. You may be wrong; pick your honest best guess.';
+    return `${stance}${withGuidance(getVoterDifficulty(details.difficulty, allCharacters).voterGuidance)}`;
+};
+
+/** Where the voter's own suspicions stand on each colleague they can vote for. */
+const formatRoomReading = (voter: Character, eligible: Character[], details: CaseDetails): string => {
+    const suspicion = details.memories?.[voter.name]?.suspicion ?? {};
+    return eligible
+        .map(c => ({ name: c.name, level: suspicionLevel(suspicion[c.name] ?? 0) }))
+        .sort((a, b) => b.level - a.level)
+        .map(({ name, level }) => `- You ${describeSuspicionLevel(level)} ${name}.`)
+        .join('\n');
+};
+
+/**
+ * Creates one AI colleague's ballot prompt. It holds only what that colleague knows: their own
+ * role, their own memory and the evidence uncovered in the open. Innocents are not told who the
+ * villain is.
+ */
+export const createCharacterVotePromptFor = (
+    voter: Character,
+    allCharacters: Character[],
+    sabotage: string,
+    chatHistory: Message[],
+    playerVote: Vote,
+    details: CaseDetails & { candidates?: string[] } = {}
+): string => {
+    const eligible = allCharacters.filter(c => c.status === 'active' && c.name !== voter.name && (!details.candidates || details.candidates.includes(c.name)));
+    const characterDescriptions = allCharacters.filter(c => c.status === 'active' && c.name !== voter.name).map(c =>
+        `- ${c.name} (${c.position}): ${c.personality}.`
+    ).join('\n');
+    const history = chatHistory.slice(-10).map(formatLine).join('\n');
+    const role = formatRoleBriefing(voter, allCharacters, details);
+    const doubts = isVillainSide(voter) ? [] : assessHumans(allCharacters, chatHistory, sabotage, details.evidence, details.revealedEvidence)
+        .filter(({ scrutiny }) => scrutiny.score >= SCRUTINY_THRESHOLD)
+        .map(({ player, scrutiny }) => `
+        You have your own doubts about ${player.name}: ${scrutiny.reasons.join('; ')}.`);
+
+    return `
+        You are roleplaying as a single character in the game 'Office Villain'. The discussion is over, and everyone now votes on who to fire as the culprit.
+
+        **Scenario:** "${sabotage}"
+        **Follow-up Incidents Since Then:**
+        ${formatNightIncidents(details, voter)}
+
+        **Your Colleagues Still in the Office:**
+        ${characterDescriptions}
+
+        ---
+        **YOUR CHARACTER PROFILE:**
+        - **Name:** ${voter.name}
+        - **Position:** ${voter.position}
+        - **Personality:** ${voter.personality}
+        - **Your Secret Role:** You are **${role.title}**.
+        ---
+
+        **What You Know About the Case:**
+        ${formatCharacterKnowledge(voter, allCharacters, details)}
+        **Evidence the Team Has Uncovered:**
+        ${formatUncoveredEvidence(details)}
+
+        **Your Memory of the Case So Far:**
+        ${formatMemory(details.memories?.[voter.name])}
+
+        **How You Have Been Reading the Room:**
+        ${formatRoomReading(voter, eligible, details)}
+
+        **Recent Conversation:**
+        ${history}
+
+        ${details.candidates ? `This is a RUNOFF after an undecided ballot; only ${details.candidates.join(' and ')} can be voted for.
+        ` : ''}${playerVote.voter} has ${playerVote.votedFor ? `voted for ${playerVote.votedFor}` : 'abstained'}.${doubts.join('')}
+
+        **Your Task:**
+        Cast your vote as **${voter.name}**.
+        - ${formatVotingStance(voter, allCharacters, details)}
+        - You must vote for exactly one of: ${eligible.map(c => c.name).join(', ')}. Never vote for yourself.
+        - Give a one-sentence reason in Korean, said aloud in character as you cast the vote. Base it on something said or uncovered; never reveal your secret role.
+        - Return JSON with "votedFor" (the name, spelled exactly) and "reason".
+    `;
+};
+
+/**
+ * Creates the prompt for the villain's confession, read out once the game is over.
+ */
+export const createConfessionPromptFor = (villain: Character, sabotage: string, details: CaseDetails = {}): string => `
+        You are ${villain.name} (${villain.position}) in the game 'Office Villain'. Your personality: ${villain.personality}.
+        You committed this sabotage: "${sabotage}"
+        **What You Did After Hours:**
+        ${formatNightIncidents(details, villain)}
+
+        The game is over. Write a short, creative confession in Korean (2-3 sentences) explaining the funny or absurd reason *why* you did it.
+        Output ONLY the confession text.
+    `;
+
+/**
+ * Builds the instruction used to remove a fired character from the scene image.
+ */
+export const createRemoveCharacterPrompt = (characterDescription: string): string =>
+    `Remove the character best described as "${characterDescription}" from this image. Do not change anything else.`;
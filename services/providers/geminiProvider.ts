@@ -0,0 +1,110 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { createIndividualPromptFor, createCharacterVotePromptFor, createConfessionPromptFor, createRemoveCharacterPrompt } from '../prompts';
+import type { DialogueProvider, CharacterVote } from './types';
+
+const characterVoteSchema = {
+    type: Type.OBJECT,
+    properties: {
+        votedFor: { type: Type.STRING, description: "The name of the character this colleague votes for." },
+        reason: { type: Type.STRING, description: "A one-sentence justification in Korean, said aloud in character." }
+    },
+    required: ["votedFor", "reason"]
+};
+
+export const createGeminiProvider = (apiKey: string): DialogueProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+
+        async getCharacterResponse({ character, characters, sabotage, chatHistory, playerCharacterName, userInput, ...details }, signal) {
+            const prompt = createIndividualPromptFor(character, characters, sabotage, chatHistory, playerCharacterName, userInput, details);
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: prompt,
+                config: {
+                    // For fast, reactive chat, disabling "thinking" is a key optimization.
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                },
+            });
+            return response.text.trim();
+        },
+
+        async *streamCharacterResponse({ character, characters, sabotage, chatHistory, playerCharacterName, userInput, ...details }, signal) {
+            const prompt = createIndividualPromptFor(character, characters, sabotage, chatHistory, playerCharacterName, userInput, details);
+            const stream = await ai.models.generateContentStream({
+                model: "gemini-2.5-flash",
+                contents: prompt,
+                config: {
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                },
+            });
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        async getCharacterVote({ voter, characters, sabotage, chatHistory, playerVote, ...details }, signal) {
+            const prompt = createCharacterVotePromptFor(voter, characters, sabotage, chatHistory, playerVote, details);
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: characterVoteSchema,
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                },
+            });
+            return JSON.parse(response.text.trim()) as CharacterVote;
+        },
+
+        async getConfession({ villain, sabotage, ...details }, signal) {
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: createConfessionPromptFor(villain, sabotage, details),
+                config: { abortSignal: signal },
+            });
+            return response.text.trim();
+        },
+
+        async editImageToRemoveCharacter(imageDataUrl, characterDescription, signal) {
+            const [prefix, base64Data] = imageDataUrl.split(',');
+            if (!prefix || !base64Data) {
+                throw new Error("Invalid base64 data URL format.");
+            }
+            const mimeType = prefix.match(/:(.*?);/)?.[1] || 'image/png';
+
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash-image-preview',
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64Data,
+                                mimeType: mimeType,
+                            },
+                        },
+                        {
+                            text: createRemoveCharacterPrompt(characterDescription),
+                        },
+                    ],
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+
+            for (const part of response.candidates[0].content.parts) {
+                if (part.inlineData) {
+                    const base64ImageBytes: string = part.inlineData.data;
+                    return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
+                }
+            }
+            return null;
+        },
+    };
+};
@@ -0,0 +1,77 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createMockProvider } from './mockProvider';
+import { createOfflineProvider } from './offlineProvider';
+import { createServerProvider } from './serverProvider';
+import type { CharacterResponseRequest, DialogueProvider, DialogueProviderId } from './types';
+
+export type { DialogueProvider, DialogueProviderId, CaseDetails, CharacterResponseRequest, CharacterVoteRequest, CharacterVote, ConfessionRequest, VoteAndConfession } from './types';
+
+const DEFAULT_LOCAL_LLM_URL = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_LLM_MODEL = 'llama3.1';
+export const DEFAULT_ROOM_SERVER_URL = 'http://localhost:8787';
+
+/**
+ * Reads `AI_PROVIDER` from the environment. Without an explicit choice we use Gemini when a key
+ * is configured and fall back to the mock so the game still runs on machines without one.
+ */
+const resolveProviderId = (): DialogueProviderId => {
+    const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+    if (configured === 'gemini' || configured === 'local' || configured === 'mock' || configured === 'offline' || configured === 'server') {
+        return configured;
+    }
+    if (configured) {
+        console.warn(`Unknown AI_PROVIDER "${configured}". Falling back to the default provider.`);
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+const createProvider = (id: DialogueProviderId): DialogueProvider => {
+    switch (id) {
+        case 'gemini':
+            if (!process.env.API_KEY) {
+                console.warn("AI_PROVIDER is 'gemini' but API_KEY is not set. Using the mock provider instead.");
+                return createMockProvider();
+            }
+            return createGeminiProvider(process.env.API_KEY);
+        case 'local':
+            return createLocalProvider({
+                baseUrl: process.env.LOCAL_LLM_URL || DEFAULT_LOCAL_LLM_URL,
+                model: process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_LLM_MODEL,
+            });
+        case 'mock':
+            return createMockProvider();
+        case 'offline':
+            return createOfflineProvider();
+        case 'server':
+            return createServerProvider(process.env.ROOM_SERVER_URL || DEFAULT_ROOM_SERVER_URL);
+    }
+};
+
+let activeProvider: DialogueProvider | null = null;
+
+/**
+ * Returns the configured provider, creating it on first use so a missing key never fails at import time.
+ */
+export const getDialogueProvider = (): DialogueProvider => {
+    if (!activeProvider) {
+        activeProvider = createProvider(resolveProviderId());
+    }
+    return activeProvider;
+};
+
+/**
+ * A colleague's reply in pieces as it is generated, or in one piece from a provider that can't
+ * stream.
+ */
+export async function* streamCharacterResponse(
+    provider: DialogueProvider,
+    request: CharacterResponseRequest,
+    signal?: AbortSignal
+): AsyncGenerator<string> {
+    if (provider.streamCharacterResponse) {
+        yield* provider.streamCharacterResponse(request, signal);
+        return;
+    }
+    yield await provider.getCharacterResponse(request, signal);
+}
@@ -0,0 +1,104 @@
+import { createIndividualPromptFor, createCharacterVotePromptFor, createConfessionPromptFor } from '../prompts';
+import { httpError } from '../aiRequests';
+import type { DialogueProvider, CharacterVote } from './types';
+
+export interface LocalProviderConfig {
+    /** Base URL of an OpenAI-compatible server, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseUrl: string;
+    model: string;
+}
+
+const voteJsonInstructions = `
+        Respond with a single JSON object and nothing else, shaped exactly like:
+        {"votedFor": "<character name>", "reason": "<one sentence in Korean>"}
+`;
+
+/**
+ * Talks to a local OpenAI-compatible chat completions endpoint (llama.cpp server, Ollama, LM Studio...).
+ * Image editing is not supported by these servers, so the scene image is left untouched.
+ */
+export const createLocalProvider = ({ baseUrl, model }: LocalProviderConfig): DialogueProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const complete = async (prompt: string, jsonMode: boolean, signal?: AbortSignal): Promise<string> => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw httpError(`Local model request failed with status ${response.status}.`, response);
+        }
+        const data = await response.json();
+        const content: unknown = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error("Local model returned no message content.");
+        }
+        return content.trim();
+    };
+
+    /** The same request with `stream: true`; the server answers with server-sent events, one delta each. */
+    async function* streamCompletion(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], stream: true }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            throw httpError(`Local model request failed with status ${response.status}.`, response);
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let pending = '';
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            pending += decoder.decode(value, { stream: true });
+            const lines = pending.split('\n');
+            pending = lines.pop();
+            for (const line of lines) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice('data:'.length).trim();
+                if (data === '[DONE]') return;
+                const delta: unknown = JSON.parse(data)?.choices?.[0]?.delta?.content;
+                if (typeof delta === 'string' && delta) yield delta;
+            }
+        }
+    }
+
+    return {
+        id: 'local',
+
+        async getCharacterResponse({ character, characters, sabotage, chatHistory, playerCharacterName, userInput, ...details }, signal) {
+            const prompt = createIndividualPromptFor(character, characters, sabotage, chatHistory, playerCharacterName, userInput, details);
+            return complete(prompt, false, signal);
+        },
+
+        streamCharacterResponse({ character, characters, sabotage, chatHistory, playerCharacterName, userInput, ...details }, signal) {
+            const prompt = createIndividualPromptFor(character, characters, sabotage, chatHistory, playerCharacterName, userInput, details);
+            return streamCompletion(prompt, signal);
+        },
+
+        async getCharacterVote({ voter, characters, sabotage, chatHistory, playerVote, ...details }, signal) {
+            const prompt = createCharacterVotePromptFor(voter, characters, sabotage, chatHistory, playerVote, details) + voteJsonInstructions;
+            const text = await complete(prompt, true, signal);
+            // Small local models like to wrap JSON in prose or code fences; keep only the object.
+            const jsonString = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+            return JSON.parse(jsonString) as CharacterVote;
+        },
+
+        async getConfession({ villain, sabotage, ...details }, signal) {
+            return complete(createConfessionPromptFor(villain, sabotage, details), false, signal);
+        },
+
+        async editImageToRemoveCharacter() {
+            return null;
+        },
+    };
+};
@@ -0,0 +1,53 @@
+import { hashString } from '../random';
+import type { DialogueProvider } from './types';
+import { isVillainSide } from '../../game/roles';
+
+const innocentLines = [
+    "저는 그때 자리에서 보고서 쓰고 있었어요. 누가 지나갔는지는 잘 모르겠네요.",
+    "솔직히 저도 황당해요. 다들 그 시간에 어디 계셨는지 한 번 정리해 보죠.",
+    "흠... 아까부터 좀 조용한 분이 계신 것 같은데요?",
+    "제가 봤을 땐 평소랑 다를 게 없었는데, 다시 생각해 볼게요.",
+];
+
+const villainLines = [
+    "저요? 저는 하루 종일 회의실에 있었는데요. 다른 분들한테 물어보세요.",
+    "글쎄요, 그런 일에 관심 있는 사람은 따로 있지 않을까요?",
+    "아, 그거 저도 방금 알았어요. 정말 누가 그랬을까요...",
+    "저보다는 아까 그 근처에서 서성이던 분이 더 수상하던데요.",
+];
+
+/**
+ * A deterministic, network-free provider for development and demos without an API key.
+ */
+export const createMockProvider = (): DialogueProvider => ({
+    id: 'mock',
+
+    async getCharacterResponse({ character, chatHistory, userInput }) {
+        const lines = isVillainSide(character) ? villainLines : innocentLines;
+        return lines[hashString(`${character.name}|${chatHistory.length}|${userInput}`) % lines.length];
+    },
+
+    async getCharacterVote({ voter, characters, playerVote, candidates: finalists }) {
+        // The villain's side deflects onto an innocent; innocents side with the player
+        // unless that would mean voting for themselves.
+        const activeCharacters = characters.filter(c => c.status === 'active');
+        const eligible = activeCharacters.filter(c => c.name !== voter.name && (!finalists || finalists.includes(c.name)));
+        const candidates = eligible.some(c => !isVillainSide(voter) || !isVillainSide(c))
+            ? eligible.filter(c => !isVillainSide(voter) || !isVillainSide(c))
+            : eligible;
+        const followsPlayer = !isVillainSide(voter) && playerVote.votedFor !== null && playerVote.votedFor !== voter.name;
+        if (followsPlayer) {
+            return { votedFor: playerVote.votedFor, reason: `${playerVote.voter}님 말을 듣고 보니 저도 그쪽이 의심스러워요.` };
+        }
+        const votedFor = candidates[hashString(voter.name) % candidates.length].name;
+        return { votedFor, reason: `${votedFor}님이 아까부터 말을 자꾸 돌리시더라고요.` };
+    },
+
+    async getConfession({ villain }) {
+        return `네, 제가 그랬습니다. ${villain.personality} 성격 탓에 도저히 참을 수가 없었어요. 죄송합니다...`;
+    },
+
+    async editImageToRemoveCharacter() {
+        return null;
+    },
+});
@@ -0,0 +1,195 @@
+import type { Character, Message, Vote } from '../../types';
+import type { ScriptedLines } from '../../pregeneratedContent';
+import { hashString } from '../random';
+import { mentionsCharacter } from '../../game/names';
+import { discoverEvidence } from '../../game/evidence';
+import { isVillainSide, RoleState } from '../../game/roles';
+import { assessHumans } from '../../game/scrutiny';
+import { getDifficulty, getVoterDifficulty } from '../../game/difficulty';
+import type { NightIncident } from '../../game/night';
+import type { CaseDetails, DialogueProvider } from './types';
+
+/** Used when a scenario ships without a script or a character has no line bank. */
+const fallbackLines: { innocent: ScriptedLines; villain: ScriptedLines } = {
+    innocent: {
+        alibi: ["저는 그 시간에 제 자리에서 일하고 있었어요. 옆자리 분께 물어보셔도 돼요.", "저도 출근해서 보고 깜짝 놀랐어요."],
+        deflection: ["저를 의심하시는 건 알겠지만, 전 정말 아무것도 몰라요.", "증거도 없이 몰아가시면 곤란해요."],
+        accusation: ["솔직히 {target}이(가) 아까부터 좀 수상했어요.", "{target}, 그때 어디 계셨는지 말씀해 주실래요?"],
+    },
+    villain: {
+        alibi: ["저는 오전 내내 회의실에 있었어요. 다른 분들한테 물어보세요.", "저는 그런 데 관심 없어요. 제 일만 하기도 바빠요."],
+        deflection: ["글쎄요, 그런 일에 관심 있는 사람은 따로 있지 않을까요?", "아, 그거 저도 방금 알았어요. 정말 누가 그랬을까요..."],
+        accusation: ["저보다는 {target}이(가) 더 수상하던데요.", "{target}, 아까 그 근처에서 서성이시지 않았어요?"],
+    },
+};
+
+/**
+ * Scores how suspicious each active colleague looks to `observer`. The talk, tips and framings
+ * come from the observer's memory, the same suspicions the character cards show. Without one
+ * (older saves) they are rebuilt from what was said: being named by others raises suspicion
+ * (more so when one of the people does it), pointing fingers at others raises it slightly too, and
+ * anyone framed overnight or named in an anonymous tip looks suspicious to all. Any player whose
+ * own story has holes always looks worse, and the difficulty decides how much the villain's side
+ * gives itself away to innocent observers.
+ */
+const scoreSuspicion = (
+    observer: Character,
+    context: CaseDetails & { characters: Character[]; chatHistory: Message[]; sabotage: string },
+    playerVotedFor?: string
+): Map<string, number> => {
+    const { characters, chatHistory, incidents = [], roleState } = context;
+    const scrutiny = new Map(assessHumans(characters, chatHistory, context.sabotage, context.evidence, context.revealedEvidence)
+        .map(({ player, scrutiny }) => [player.name, scrutiny.score]));
+    const scores = new Map<string, number>();
+    const candidates = characters.filter(c => c.status === 'active' && c.name !== observer.name);
+
+    const remembered = context.memories?.[observer.name]?.suspicion;
+    const exposure = isVillainSide(observer) ? 0 : getVoterDifficulty(context.difficulty, characters).villainExposure;
+
+    for (const candidate of candidates) {
+        let score = 0;
+        if (remembered) {
+            score += remembered[candidate.name] ?? 0;
+        } else {
+            for (const message of chatHistory) {
+                if (message.sender === 'system') continue;
+                if (message.sender === candidate.name) {
+                    if (characters.some(c => c.name !== candidate.name && mentionsCharacter(message.text, c.name))) {
+                        score += 0.25;
+                    }
+                } else if (mentionsCharacter(message.text, candidate.name)) {
+                    score += scrutiny.has(message.sender) ? 1.5 : 1;
+                }
+            }
+            score += incidents.filter(i => i.effect === 'frame' && i.target === candidate.name).length * 1.5;
+            score += (roleState?.doubts ?? []).filter(d => d.target === candidate.name).length * 1.5;
+        }
+        if (playerVotedFor === candidate.name) score += 2;
+        score += scrutiny.get(candidate.name) ?? 0;
+        if (isVillainSide(candidate)) score += exposure;
+        // A tiny per-pair offset keeps ties from always resolving the same way across observers.
+        score += (hashString(`${observer.name}>${candidate.name}`) % 100) / 1000;
+        scores.set(candidate.name, score);
+    }
+    return scores;
+};
+
+const mostSuspected = (scores: Map<string, number>, exclude: (name: string) => boolean = () => false): string | null => {
+    let best: string | null = null;
+    let bestScore = -Infinity;
+    scores.forEach((score, name) => {
+        if (!exclude(name) && score > bestScore) {
+            best = name;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+/**
+ * Who `character` turns on: the villain's side protects its own, and an investigator goes after
+ * anyone they exposed and leaves colleagues they cleared alone.
+ */
+const pickTarget = (
+    character: Character,
+    characters: Character[],
+    scores: Map<string, number>,
+    roleState: RoleState | undefined
+): string | null => {
+    if (isVillainSide(character)) {
+        return mostSuspected(scores, name => characters.some(c => c.name === name && isVillainSide(c)));
+    }
+    const findings = roleState?.investigations.filter(i => i.investigator === character.name) ?? [];
+    const exposed = findings.find(i => i.isVillainSide && scores.has(i.target));
+    if (exposed) return exposed.target;
+    const cleared = findings.filter(i => !i.isVillainSide).map(i => i.target);
+    return mostSuspected(scores, name => cleared.includes(name)) ?? mostSuspected(scores);
+};
+
+/** The strongest of the signals `scoreSuspicion` weighed, put the way the voter would say it. */
+const explainVote = (
+    voter: Character,
+    votedFor: string | null,
+    playerVote: Vote,
+    roleState: RoleState | undefined,
+    incidents: NightIncident[]
+): string => {
+    if (!votedFor) return '누구라고 딱 잘라 말하기가 어렵네요.';
+    if (roleState?.investigations.some(i => i.investigator === voter.name && i.target === votedFor && i.isVillainSide)) {
+        return `제가 직접 확인한 게 있어요. ${votedFor}님은 믿을 수 없습니다.`;
+    }
+    if (incidents.some(i => i.effect === 'frame' && i.target === votedFor)) {
+        return `어젯밤 일로 ${votedFor}님 쪽에 의심 가는 흔적이 남았잖아요.`;
+    }
+    if (roleState?.doubts.some(d => d.target === votedFor)) {
+        return `익명 제보에 ${votedFor}님 이름이 나왔던 게 계속 마음에 걸려요.`;
+    }
+    if (playerVote.votedFor === votedFor) {
+        return `${playerVote.voter}님 말씀이 맞는 것 같아요. 저도 ${votedFor}님이 수상해요.`;
+    }
+    return `오늘 이야기 중에 ${votedFor}님 이름이 제일 많이 나왔어요.`;
+};
+
+/**
+ * A rule-based provider that never touches the network. Characters speak from the scenario's
+ * authored line banks and vote from local suspicion heuristics, which also makes it a baseline
+ * to compare the LLM providers against.
+ */
+export const createOfflineProvider = (): DialogueProvider => ({
+    id: 'offline',
+
+    async getCharacterResponse(request) {
+        const { character, characters, chatHistory, userInput, addressees, script, evidence, revealedEvidence, roleState, difficulty } = request;
+        // A witness who is about to reveal a clue (by the same rules as the case notes) says what they saw.
+        const revealing = discoverEvidence(evidence, userInput, [character], characters, revealedEvidence ?? [], getDifficulty(difficulty).clueReveals).map(d => d.id);
+        const clue = evidence?.clues.find(c => revealing.includes(c.id));
+        if (clue) {
+            return `${clue.time ? `${clue.time}쯤이었어요. ` : ''}제가 본 건 이거예요. ${clue.text}`;
+        }
+
+        const lines = script?.lines[character.name] ?? fallbackLines[isVillainSide(character) ? 'villain' : 'innocent'];
+        const spokenBefore = chatHistory.filter(m => m.sender === character.name).length;
+        const isAddressed = addressees?.includes(character.name) || mentionsCharacter(userInput, character.name);
+
+        // The gossip can't resist passing the rumour on the first time they speak.
+        if (character.role === 'gossip' && roleState?.rumor && spokenBefore === 0) {
+            return `탕비실에서 들었는데요, ${roleState.rumor.join(' 아니면 ')}래요. 저한테 들었다고 하시면 안 돼요!`;
+        }
+
+        let bank: string[];
+        let target: string | null = null;
+        if (isAddressed) {
+            // Innocents answer questions with their alibi first; the villain's side alternates
+            // between a weak alibi and changing the subject.
+            const timesAddressed = chatHistory.filter(m => m.sender !== 'system' && m.sender !== character.name
+                && (m.addressees?.includes(character.name) || mentionsCharacter(m.text, character.name))).length;
+            bank = isVillainSide(character)
+                ? (timesAddressed % 2 === 0 ? lines.deflection : lines.alibi)
+                : (timesAddressed <= 1 ? lines.alibi : lines.deflection);
+        } else {
+            const scores = scoreSuspicion(character, request);
+            target = pickTarget(character, characters, scores, roleState);
+            bank = target && spokenBefore % 2 === 0 ? lines.accusation : lines.alibi;
+        }
+
+        const line = bank[spokenBefore % bank.length];
+        return target ? line.split('{target}').join(target) : line;
+    },
+
+    async getCharacterVote(request) {
+        const { voter, characters, playerVote, roleState, incidents = [], candidates } = request;
+        const scores = scoreSuspicion(voter, request, playerVote.votedFor ?? undefined);
+        // In a runoff only the finalists are on the ballot.
+        if (candidates) [...scores.keys()].filter(name => !candidates.includes(name)).forEach(name => scores.delete(name));
+        const votedFor = pickTarget(voter, characters, scores, roleState) ?? playerVote.votedFor;
+        return { votedFor, reason: explainVote(voter, votedFor, playerVote, roleState, incidents) };
+    },
+
+    async getConfession({ script }) {
+        return script?.confession ?? `네, 제가 그랬습니다. 도저히 참을 수가 없었어요. 죄송합니다...`;
+    },
+
+    async editImageToRemoveCharacter() {
+        return null;
+    },
+});
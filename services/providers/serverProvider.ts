@@ -0,0 +1,71 @@
+import { httpError } from '../aiRequests';
+import type { DialogueProvider, CharacterVote } from './types';
+
+/**
+ * Asks the room server (`npm run server`) to voice the colleagues. The server holds the API key
+ * and its own provider, so a build using this one ships without the key.
+ */
+export const createServerProvider = (baseUrl: string): DialogueProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/dialogue`;
+
+    const call = async <T>(method: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+        const response = await fetch(`${endpoint}/${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw httpError(`Room server request failed with status ${response.status}.`, response);
+        }
+        return response.json();
+    };
+
+    /** A method the server answers in plain text, written out piece by piece as it is generated. */
+    async function* callStream(method: string, body: unknown, signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await fetch(`${endpoint}/${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            throw httpError(`Room server request failed with status ${response.status}.`, response);
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            const text = decoder.decode(value, { stream: true });
+            if (text) yield text;
+        }
+    }
+
+    return {
+        id: 'server',
+
+        async getCharacterResponse(request, signal) {
+            const { response } = await call<{ response: string }>('character-response', request, signal);
+            return response;
+        },
+
+        streamCharacterResponse(request, signal) {
+            return callStream('character-response-stream', request, signal);
+        },
+
+        async getCharacterVote(request, signal) {
+            return call<CharacterVote>('character-vote', request, signal);
+        },
+
+        async getConfession(request, signal) {
+            const { confession } = await call<{ confession: string }>('confession', request, signal);
+            return confession;
+        },
+
+        async editImageToRemoveCharacter(imageDataUrl, characterDescription, signal) {
+            const { imageDataUrl: edited } = await call<{ imageDataUrl: string | null }>('edit-image', { imageDataUrl, characterDescription }, signal);
+            return edited;
+        },
+    };
+};
@@ -0,0 +1,87 @@
+import type { Character, Message, Vote } from '../../types';
+import type { ScenarioScript, Evidence } from '../../pregeneratedContent';
+import type { MemoryBank } from '../../game/memory';
+import type { RoleState } from '../../game/roles';
+import type { NightIncident } from '../../game/night';
+import type { Difficulty } from '../../game/difficulty';
+
+export type DialogueProviderId = 'gemini' | 'local' | 'mock' | 'offline' | 'server';
+
+/**
+ * Scenario extras beyond the sabotage text, plus what has happened so far. All optional, since
+ * imported scenarios and older saves may lack them.
+ */
+export interface CaseDetails {
+    script?: ScenarioScript;
+    evidence?: Evidence;
+    /** Ids of the evidence the player has uncovered so far. */
+    revealedEvidence?: string[];
+    /** Each colleague's running memory of the discussion and earlier rounds. */
+    memories?: MemoryBank;
+    /** Private results of special-role abilities (investigations, the gossip's rumour). */
+    roleState?: RoleState;
+    /** The villain's follow-up sabotages between rounds. */
+    incidents?: NightIncident[];
+    /** How subtle the villain is and how sharp the other colleagues are; normal when absent. */
+    difficulty?: Difficulty;
+}
+
+export interface CharacterResponseRequest extends CaseDetails {
+    character: Character;
+    characters: Character[];
+    sabotage: string;
+    chatHistory: Message[];
+    playerCharacterName: string;
+    userInput: string;
+    /** Who the player directed the message at; empty or absent when it was for everyone. */
+    addressees?: string[];
+}
+
+/** Asks one AI colleague for their vote, from what they alone know. */
+export interface CharacterVoteRequest extends CaseDetails {
+    voter: Character;
+    characters: Character[];
+    sabotage: string;
+    chatHistory: Message[];
+    /** The first seat's vote, cast before the colleagues vote. */
+    playerVote: Vote;
+    /** Set for a runoff: the finalists, the only colleagues who can be voted for. */
+    candidates?: string[];
+}
+
+export interface CharacterVote {
+    votedFor: string | null;
+    /** One line, in character, said as the vote is cast. */
+    reason: string;
+}
+
+export interface ConfessionRequest extends CaseDetails {
+    villain: Character;
+    sabotage: string;
+    chatHistory: Message[];
+}
+
+export interface VoteAndConfession {
+    votes: Vote[];
+    confession: string;
+}
+
+/**
+ * A backend capable of voicing the AI colleagues.
+ * Implementations may throw; the service layer retries what is worth retrying and turns the
+ * rest into in-game fallbacks. Every call takes an optional `signal` and should stop once it
+ * aborts; errors from HTTP responses carry their `status` (see `httpError`).
+ */
+export interface DialogueProvider {
+    readonly id: DialogueProviderId;
+    getCharacterResponse(request: CharacterResponseRequest, signal?: AbortSignal): Promise<string>;
+    /**
+     * Yields the reply in pieces as it is generated. Optional: without it the service waits for
+     * `getCharacterResponse`. Stops (by throwing or returning early) once `signal` aborts.
+     */
+    streamCharacterResponse?(request: CharacterResponseRequest, signal?: AbortSignal): AsyncIterable<string>;
+    getCharacterVote(request: CharacterVoteRequest, signal?: AbortSignal): Promise<CharacterVote>;
+    getConfession(request: ConfessionRequest, signal?: AbortSignal): Promise<string>;
+    /** Resolves to `null` when the provider cannot edit images. */
+    editImageToRemoveCharacter(imageDataUrl: string, characterDescription: string, signal?: AbortSignal): Promise<string | null>;
+}
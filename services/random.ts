@@ -0,0 +1,32 @@
+/** Stable string hash so the same input always yields the same choice. */
+export const hashString = (value: string): number => {
+    let h = 0;
+    for (let i = 0; i < value.length; i++) {
+        h = (h * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(h);
+};
+
+/**
+ * A small seeded generator (mulberry32). The same seed always yields the same sequence, so a
+ * game dealt from a seed can be dealt again exactly.
+ */
+export const createRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/** A fresh 32-bit seed for a game nobody asked to reproduce. */
+export const newSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+/**
+ * A seed for one part of a game, such as a given night, so that part draws the same whatever
+ * was drawn before it.
+ */
+export const deriveSeed = (seed: number, label: string): number => hashString(`${seed}:${label}`);
@@ -0,0 +1,73 @@
+import type { ClientMessage, RoomView, ServerMessage } from './roomProtocol';
+import { DEFAULT_ROOM_SERVER_URL } from './providers';
+
+export interface RoomConnection {
+    send(message: ClientMessage): void;
+    close(): void;
+}
+
+export interface RoomHandlers {
+    onMessage: (message: ServerMessage) => void;
+    /** The connection dropped or could not be made. */
+    onClose: () => void;
+}
+
+const REJOIN_TOKEN_KEY = 'office-villain:rejoin';
+
+const rejoinKey = (code: string, name: string) => `${REJOIN_TOKEN_KEY}:${code.trim().toUpperCase()}:${name.trim()}`;
+
+/** Keeps this tab's rejoin token for the room, so a dropped connection can take the seat back. */
+export const rememberRejoinToken = (room: RoomView): void => {
+    try {
+        sessionStorage.setItem(rejoinKey(room.code, room.you), room.rejoinToken);
+    } catch (error) {
+        console.warn("Could not keep the room's rejoin token.", error);
+    }
+};
+
+export const getRejoinToken = (code: string, name: string): string | undefined => {
+    try {
+        return sessionStorage.getItem(rejoinKey(code, name)) ?? undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/** The room server's WebSocket address, from `ROOM_SERVER_URL` (http or ws) or the default. */
+export const getRoomServerUrl = (): string =>
+    (process.env.ROOM_SERVER_URL || DEFAULT_ROOM_SERVER_URL).replace(/^http/, 'ws').replace(/\/+$/, '');
+
+/**
+ * Opens a connection to the room server. Messages sent before the socket is open are queued,
+ * so the first `create_room` or `join_room` can be sent straight away.
+ */
+export const connectToRoomServer = ({ onMessage, onClose }: RoomHandlers): RoomConnection => {
+    const socket = new WebSocket(getRoomServerUrl());
+    const queue: ClientMessage[] = [];
+
+    socket.addEventListener('open', () => {
+        queue.splice(0).forEach(message => socket.send(JSON.stringify(message)));
+    });
+    socket.addEventListener('message', event => {
+        try {
+            onMessage(JSON.parse(event.data));
+        } catch (error) {
+            console.warn('Ignoring a malformed room server message.', error);
+        }
+    });
+    socket.addEventListener('close', onClose);
+
+    return {
+        send(message) {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify(message));
+            } else if (socket.readyState === WebSocket.CONNECTING) {
+                queue.push(message);
+            }
+        },
+        close() {
+            socket.removeEventListener('close', onClose);
+            socket.close();
+        },
+    };
+};
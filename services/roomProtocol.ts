@@ -0,0 +1,106 @@
+import type { Character, GameState, Message } from '../types';
+import type { Evidence } from '../pregeneratedContent';
+import type { CastOptions } from '../game/cast';
+import type { RoleOptions } from '../game/roles';
+import type { VoteRules } from '../game/voteRules';
+import type { PlayerResult } from '../game/hotSeat';
+import type { SuspicionReading } from '../game/suspicion';
+import type { Difficulty } from '../game/difficulty';
+import type { DiscussionLimits } from '../game/discussion';
+
+/**
+ * What browsers and the room server say to each other over the WebSocket, one JSON object per
+ * frame. The server owns the game; a browser only sends what its person did and renders the
+ * room view it gets back.
+ */
+
+/** The options the host picks on the welcome screen; the seed and the seats are the server's. */
+export interface RoomGameOptions {
+    cast: CastOptions;
+    roles: RoleOptions;
+    rules: VoteRules;
+    difficulty: Difficulty;
+    limits: DiscussionLimits;
+}
+
+export type ClientMessage =
+    | { type: 'create_room'; name: string }
+    /** `token` is the `rejoinToken` this browser was given, if it has been in the room before. */
+    | { type: 'join_room'; code: string; name: string; token?: string }
+    | { type: 'leave_room' }
+    | { type: 'start_game'; options: RoomGameOptions }
+    | { type: 'begin_discussion' }
+    | { type: 'say'; text: string; addressees: string[] }
+    | { type: 'open_voting' }
+    | { type: 'vote'; votedFor: string | null }
+    | { type: 'defend'; text: string }
+    | { type: 'use_ability'; target: string }
+    | { type: 'retry' };
+
+export interface RoomPlayer {
+    name: string;
+    /** The colleague they play, once a game has been dealt. */
+    seat: string | null;
+    isHost: boolean;
+    connected: boolean;
+}
+
+/**
+ * One person's view of the game. Other people's roles are masked as `employee` until they are
+ * fired or the game ends, and private messages and personal clues reach only their owner.
+ */
+export interface SeatView {
+    phase: GameState;
+    round: number;
+    characters: Character[];
+    /** The role label this person may see for each colleague, if any. */
+    roleLabels: { [name: string]: string | null };
+    /** The colleague this person plays. */
+    seat: string;
+    messages: Message[];
+    /** The case notes, with everything not yet uncovered blanked out. */
+    evidence: Evidence | null;
+    revealedEvidence: string[];
+    /** Clues that can still be drawn out by questioning under the difficulty; `null` for no limit. */
+    cluesLeft: number | null;
+    /** When this round's discussion runs out of time (server clock, ms since the epoch); `null` without a timer. */
+    discussionEndsAt: number | null;
+    /** Questions left this round; `null` without a budget. */
+    questionsLeft: number | null;
+    /** Colleagues sitting out this round's discussion after the night before. */
+    silenced: string[];
+    /** How the AI colleagues are leaning on each colleague, built only from what happened in the open. */
+    suspicion: { [name: string]: SuspicionReading };
+    runoff: string[] | null;
+    allowAbstain: boolean;
+    hasVoted: boolean;
+    /** People whose secret vote is still missing. */
+    waitingFor: string[];
+    /** Whether this person is a runoff finalist who may still say a word in their defense. */
+    canDefend: boolean;
+    /** The role ability this person can use right now. */
+    ability: { kind: 'investigate' | 'plant_doubt'; label: string; targets: string[] } | null;
+    /** Set while a ballot is being counted. The colleagues' answers don't block the room: asking again or voting cuts them off. */
+    busy: boolean;
+    /** The colleague whose reply is coming in, with what has arrived so far. */
+    typing: { name: string; text: string } | null;
+    /** What the AI couldn't answer even after retrying, which anyone may run again with `retry`. */
+    retry: { kind: 'replies'; names: string[] } | { kind: 'ballot' } | null;
+    caseCode: string | null;
+    results: PlayerResult[] | null;
+}
+
+export interface RoomView {
+    code: string;
+    players: RoomPlayer[];
+    /** The name this browser joined with. */
+    you: string;
+    /** Proves it is this person coming back after a dropped connection; sent only to them. */
+    rejoinToken: string;
+    game: SeatView | null;
+}
+
+export type ServerMessage =
+    | { type: 'room'; room: RoomView }
+    | { type: 'left' }
+    | { type: 'error'; message: string };
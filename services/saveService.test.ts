@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loadGame, listSaves, SAVE_VERSION } from './saveService';
+import { CLASSIC_VOTE_RULES } from '../game/voteRules';
+import { DEFAULT_DISCUSSION_LIMITS } from '../game/discussion';
+import { DEFAULT_DIFFICULTY } from '../game/difficulty';
+import { initialRoleState } from '../game/roles';
+
+const SLOT_KEY = 'office-villain:save:0';
+
+/** Saved characters as v1 and v2 wrote them, with the villain flag instead of a role. */
+const flaggedCast = () => [
+    { name: '김민준 대리', position: '마케팅팀', personality: '진지함의 대명사', isVillain: true, status: 'active', imageUrl: 'a.png', isPlayer: false, votes: 0, visualDescription: 'a man with glasses' },
+    { name: '이서연 사원', position: '디자인팀', personality: '폰트에 민감한', isVillain: false, status: 'active', imageUrl: 'b.png', isPlayer: true, votes: 0, visualDescription: 'a woman with a bob' },
+    { name: '박현우 과장', position: '영업팀', personality: '호탕하고 유쾌한', isVillain: false, status: 'voted_out', imageUrl: 'c.png', isPlayer: false, votes: 2, visualDescription: 'a laughing man' },
+];
+
+const script = { confession: '제가 그랬습니다.', lines: {} };
+
+/** v1 kept the offline script beside the game instead of the dealt scenario. */
+const v1Save = () => ({
+    savedAt: 1_000,
+    engine: { phase: 'discussion', characters: flaggedCast(), round: 2, votes: [], result: null },
+    messages: [{ sender: 'system', text: '사건이 발생했습니다!' }],
+    sabotage: '누군가 프린터 폰트를 바꿔놓았습니다.',
+    sceneImageUrl: 'scene.png',
+    script,
+    revealedEvidence: ['printer-back'],
+});
+
+const v2Save = () => ({
+    version: 2,
+    savedAt: 2_000,
+    engine: { phase: 'voting', characters: flaggedCast(), round: 1, votes: [], result: null },
+    messages: [],
+    sabotage: '누군가 프린터 폰트를 바꿔놓았습니다.',
+    sceneImageUrl: 'scene.png',
+    gameSet: { sabotage: '누군가 프린터 폰트를 바꿔놓았습니다.', sceneImageUrl: 'scene.png', characters: [], script },
+    revealedEvidence: [],
+    memories: {},
+});
+
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const write = (save: unknown) => store.set(SLOT_KEY, typeof save === 'string' ? save : JSON.stringify(save));
+
+describe('loadGame', () => {
+    it('rebuilds the scenario of a v1 save from what was saved beside it', () => {
+        write(v1Save());
+        const save = loadGame(0);
+        expect(save.gameSet).toEqual({
+            sabotage: '누군가 프린터 폰트를 바꿔놓았습니다.',
+            sceneImageUrl: 'scene.png',
+            characters: flaggedCast().map(({ name, position, personality, isVillain, visualDescription, imageUrl }) =>
+                ({ name, position, personality, isVillain, visualDescription, imageUrl })),
+            script,
+        });
+        expect(save.engine.round).toBe(2);
+        expect(save.messages).toEqual([{ sender: 'system', text: '사건이 발생했습니다!' }]);
+        expect(save.revealedEvidence).toEqual(['printer-back']);
+    });
+
+    it.each([['v1', v1Save], ['v2', v2Save]])('turns the villain flag of a %s save into roles', (_, fixture) => {
+        write(fixture());
+        const { engine } = loadGame(0);
+        expect(engine.characters.map(c => c.role)).toEqual(['villain', 'employee', 'employee']);
+        expect(engine.characters.some(c => 'isVillain' in c)).toBe(false);
+        expect(engine.characters.map(c => c.status)).toEqual(['active', 'active', 'voted_out']);
+        expect(engine.characters[1].isPlayer).toBe(true);
+    });
+
+    it.each([['v1', v1Save], ['v2', v2Save]])('fills in what a %s save predates', (_, fixture) => {
+        write(fixture());
+        const save = loadGame(0);
+        // Those games were played before the rules were configurable.
+        expect(save.engine.rules).toEqual(CLASSIC_VOTE_RULES);
+        expect(save.engine.limits).toEqual(DEFAULT_DISCUSSION_LIMITS);
+        expect(save.engine).toMatchObject({ incidents: [], ballots: [], questionsAsked: 0, runoff: null });
+        expect(save.roleState).toEqual(initialRoleState);
+        expect(save.difficulty).toBe(DEFAULT_DIFFICULTY);
+        expect(save).toMatchObject({ caseCode: null, dailyKey: null });
+        expect(typeof save.seed).toBe('number');
+    });
+
+    it('keeps the scenario a v2 save already had', () => {
+        write(v2Save());
+        expect(loadGame(0).gameSet).toEqual(v2Save().gameSet);
+    });
+
+    it('lists migrated saves like current ones', () => {
+        write(v1Save());
+        expect(listSaves()).toEqual([{ slot: 0, savedAt: 1_000, sabotage: '누군가 프린터 폰트를 바꿔놓았습니다.', round: 2, phase: 'discussion', playerName: '이서연 사원' }]);
+    });
+
+    it('refuses a save written by a newer version of the game', () => {
+        write({ ...v2Save(), version: SAVE_VERSION + 1 });
+        expect(loadGame(0)).toBeNull();
+        expect(listSaves()).toEqual([]);
+    });
+
+    it('skips a slot that is not valid JSON', () => {
+        write('{"version": 3, "engine": {');
+        expect(loadGame(0)).toBeNull();
+        expect(listSaves()).toEqual([]);
+    });
+
+    it('replaces fields of the wrong type with their defaults', () => {
+        write({
+            ...v2Save(),
+            version: SAVE_VERSION,
+            engine: { phase: 'lunch', characters: flaggedCast(), round: 'two', votes: 'none', ballots: {}, rules: 'strict', questionsAsked: '3', runoff: 'yes' },
+            revealedEvidence: ['printer-back', 7],
+            memories: [],
+            difficulty: 'nightmare',
+            seed: 'abc',
+            caseCode: 42,
+        });
+        const save = loadGame(0);
+        expect(save.engine).toMatchObject({ phase: 'discussion', round: 1, votes: [], ballots: [], rules: CLASSIC_VOTE_RULES, questionsAsked: 0, runoff: null });
+        expect(save.revealedEvidence).toEqual(['printer-back']);
+        expect(save.memories).toEqual({});
+        expect(save.difficulty).toBe(DEFAULT_DIFFICULTY);
+        expect(typeof save.seed).toBe('number');
+        expect(save.caseCode).toBeNull();
+    });
+});
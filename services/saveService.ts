@@ -0,0 +1,261 @@
+import type { Character, GameState, Message, Role } from '../types';
+import type { GameSet } from '../pregeneratedContent';
+import type { EngineState } from '../game/engine';
+import type { MemoryBank } from '../game/memory';
+import { ROLES, initialRoleState, RoleState } from '../game/roles';
+import { CLASSIC_VOTE_RULES } from '../game/voteRules';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, Difficulty } from '../game/difficulty';
+import { DEFAULT_DISCUSSION_LIMITS } from '../game/discussion';
+import { newSeed } from './random';
+
+/**
+ * Bump this whenever the saved shape changes and register a migration from the previous version.
+ */
+export const SAVE_VERSION = 3;
+export const SAVE_SLOT_COUNT = 3;
+
+const SAVE_KEY_PREFIX = 'office-villain:save:';
+
+export interface SaveData {
+    engine: EngineState;
+    messages: Message[];
+    sabotage: string;
+    sceneImageUrl: string | null;
+    /** The scenario as dealt, kept so it can be exported or replayed. */
+    gameSet: GameSet | null;
+    /** Ids of the evidence entries in the player's case notes. */
+    revealedEvidence: string[];
+    memories: MemoryBank;
+    roleState: RoleState;
+    /** Seeds everything drawn locally, including the nights still to come. */
+    seed: number;
+    /** The code that deals this game again, when it can be shared. */
+    caseCode: string | null;
+    /** Set when this is the daily case, so its result is recorded for that day. */
+    dailyKey: string | null;
+    difficulty: Difficulty;
+}
+
+interface SaveFile extends SaveData {
+    version: number;
+    savedAt: number;
+}
+
+/** A save as it comes out of storage: any version, nothing checked yet. */
+type RawSave = { [field: string]: unknown };
+
+export interface SaveSlotSummary {
+    slot: number;
+    savedAt: number;
+    sabotage: string;
+    round: number;
+    phase: GameState;
+    playerName: string;
+}
+
+/**
+ * Upgrades a raw save from version N to N + 1. Each step only needs to know about its
+ * neighbouring versions; `normalizeSave` then fills in anything still missing.
+ */
+const migrations: { [fromVersion: number]: (save: RawSave) => RawSave } = {
+    // v1 only kept the offline script; rebuild the scenario from what was saved alongside it.
+    // The scene image may already have fired colleagues edited out.
+    1: save => ({
+        ...save,
+        version: 2,
+        gameSet: {
+            sabotage: save.sabotage ?? '',
+            sceneImageUrl: save.sceneImageUrl ?? '',
+            characters: listOf(fieldsOf(save.engine).characters).map(fieldsOf).map(c => ({
+                name: c.name,
+                position: c.position,
+                personality: c.personality,
+                isVillain: c.isVillain,
+                visualDescription: c.visualDescription,
+                imageUrl: c.imageUrl,
+            })),
+            script: save.script,
+        },
+    }),
+    // v3 replaced the villain flag on characters with a role.
+    2: save => ({
+        ...save,
+        version: 3,
+        engine: save.engine && {
+            ...fieldsOf(save.engine),
+            characters: listOf(fieldsOf(save.engine).characters).map(fieldsOf).map(({ isVillain, ...c }) => ({
+                ...c,
+                role: isVillain ? 'villain' : 'employee',
+            })),
+        },
+    }),
+};
+
+const slotKey = (slot: number) => `${SAVE_KEY_PREFIX}${slot}`;
+
+const fieldsOf = (value: unknown): RawSave => (typeof value === 'object' && value !== null ? value as RawSave : {});
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const textOr = <T>(value: unknown, fallback: T): string | T => (typeof value === 'string' ? value : fallback);
+
+const numberOr = (value: unknown, fallback: number): number => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+const textList = (value: unknown): string[] => listOf(value).filter((item): item is string => typeof item === 'string');
+
+/** Nested state the game wrote itself; only its shape is checked, not every field inside. */
+const objectOr = <T>(value: unknown, fallback: T): T =>
+    (typeof value === 'object' && value !== null && !Array.isArray(value) ? value as T : fallback);
+
+const PHASES: GameState[] = ['welcome', 'setting_up', 'briefing', 'discussion', 'voting', 'reveal', 'night', 'game_over_win', 'game_over_loss'];
+
+const normalizeCharacter = (raw: unknown): Character => {
+    const fields = fieldsOf(raw);
+    return {
+        ...fields,
+        name: String(fields.name),
+        position: textOr(fields.position, ''),
+        personality: textOr(fields.personality, ''),
+        role: typeof fields.role === 'string' && fields.role in ROLES ? fields.role as Role : 'employee',
+        status: fields.status === 'voted_out' ? 'voted_out' : 'active',
+        imageUrl: textOr(fields.imageUrl, null),
+        isPlayer: !!fields.isPlayer,
+        votes: typeof fields.votes === 'number' ? fields.votes : 0,
+        visualDescription: textOr(fields.visualDescription, ''),
+    };
+};
+
+const normalizeMessage = (raw: unknown): Message => {
+    const fields = fieldsOf(raw);
+    return {
+        ...fields,
+        sender: String(fields.sender),
+        text: String(fields.text ?? ''),
+    };
+};
+
+/**
+ * Fills defaults for fields added after a save was written, or of the wrong type, so older or
+ * damaged saves keep loading.
+ */
+const normalizeSave = (raw: RawSave): SaveFile => {
+    const engine = fieldsOf(raw.engine);
+    return {
+        version: SAVE_VERSION,
+        savedAt: numberOr(raw.savedAt, 0),
+        engine: {
+            // Every version saved the phase; a save without one is picked up at the discussion.
+            phase: PHASES.includes(engine.phase as GameState) ? engine.phase as GameState : 'discussion',
+            characters: listOf(engine.characters).map(normalizeCharacter),
+            round: Number.isInteger(engine.round) && (engine.round as number) >= 1 ? engine.round as number : 1,
+            votes: listOf(engine.votes) as EngineState['votes'],
+            result: objectOr<EngineState['result']>(engine.result, null),
+            incidents: listOf(engine.incidents) as EngineState['incidents'],
+            ballots: listOf(engine.ballots) as EngineState['ballots'],
+            // Games saved before the rules were configurable keep the rules they were played under.
+            rules: { ...CLASSIC_VOTE_RULES, ...objectOr(engine.rules, {}) },
+            limits: { ...DEFAULT_DISCUSSION_LIMITS, ...objectOr(engine.limits, {}) },
+            questionsAsked: numberOr(engine.questionsAsked, 0),
+            runoff: Array.isArray(engine.runoff) ? textList(engine.runoff) : null,
+        },
+        messages: listOf(raw.messages).map(normalizeMessage),
+        sabotage: textOr(raw.sabotage, ''),
+        sceneImageUrl: textOr(raw.sceneImageUrl, null),
+        gameSet: objectOr<GameSet | null>(raw.gameSet, null),
+        revealedEvidence: textList(raw.revealedEvidence),
+        memories: objectOr<MemoryBank>(raw.memories, {}),
+        roleState: { ...initialRoleState, ...objectOr(raw.roleState, {}) },
+        seed: numberOr(raw.seed, newSeed()),
+        caseCode: textOr(raw.caseCode, null),
+        dailyKey: textOr(raw.dailyKey, null),
+        difficulty: typeof raw.difficulty === 'string' && raw.difficulty in DIFFICULTIES ? raw.difficulty as Difficulty : DEFAULT_DIFFICULTY,
+    };
+};
+
+const migrateSave = (raw: unknown): SaveFile | null => {
+    let save = fieldsOf(raw);
+    let version = typeof save.version === 'number' ? save.version : 1;
+    if (version > SAVE_VERSION) {
+        console.warn(`Save was written by a newer version (${version}) of the game and cannot be loaded.`);
+        return null;
+    }
+    while (version < SAVE_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            console.warn(`No migration from save version ${version}.`);
+            return null;
+        }
+        save = migrate(save);
+        version++;
+    }
+    return normalizeSave(save);
+};
+
+const readSlot = (slot: number): SaveFile | null => {
+    try {
+        const json = localStorage.getItem(slotKey(slot));
+        if (!json) return null;
+        const save = migrateSave(JSON.parse(json));
+        if (!save?.engine.characters.length) return null;
+        return save;
+    } catch (error) {
+        console.warn(`Could not read save slot ${slot}.`, error);
+        return null;
+    }
+};
+
+export const saveGame = (slot: number, data: SaveData): void => {
+    const save: SaveFile = { ...data, version: SAVE_VERSION, savedAt: Date.now() };
+    try {
+        localStorage.setItem(slotKey(slot), JSON.stringify(save));
+    } catch (error) {
+        // Usually a full quota; losing an auto-save should never interrupt the game.
+        console.warn(`Could not write save slot ${slot}.`, error);
+    }
+};
+
+export const loadGame = (slot: number): SaveData | null => {
+    const save = readSlot(slot);
+    if (!save) return null;
+    const { version, savedAt, ...data } = save;
+    return data;
+};
+
+export const deleteSave = (slot: number): void => {
+    try {
+        localStorage.removeItem(slotKey(slot));
+    } catch (error) {
+        console.warn(`Could not delete save slot ${slot}.`, error);
+    }
+};
+
+/**
+ * Lists occupied slots, most recently saved first.
+ */
+export const listSaves = (): SaveSlotSummary[] => {
+    const summaries: SaveSlotSummary[] = [];
+    for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+        const save = readSlot(slot);
+        if (!save) continue;
+        summaries.push({
+            slot,
+            savedAt: save.savedAt,
+            sabotage: save.sabotage,
+            round: save.engine.round,
+            phase: save.engine.phase,
+            playerName: save.engine.characters.find(c => c.isPlayer)?.name ?? '',
+        });
+    }
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * A new game takes the first free slot, or overwrites the oldest save when all are taken.
+ */
+export const pickSlotForNewGame = (): number => {
+    const saves = listSaves();
+    for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+        if (!saves.some(s => s.slot === slot)) return slot;
+    }
+    return saves[saves.length - 1].slot;
+};
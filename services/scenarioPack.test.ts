@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { pregeneratedGameSets, GameSet } from '../pregeneratedContent';
+import {
+    createScenarioPack,
+    formatPackErrors,
+    parseScenarioPack,
+    validateGameSet,
+    validateScenarioPack,
+    SCENARIO_PACK_FORMAT,
+    SCENARIO_PACK_VERSION,
+} from './scenarioPack';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const character = (name: string, isVillain = false) => ({
+    name,
+    position: '사원',
+    personality: '평범한',
+    isVillain,
+    visualDescription: 'an office worker',
+    imageUrl: IMAGE,
+});
+
+/** A small but complete scenario, with a script and evidence. */
+const scenario = (): GameSet => ({
+    sabotage: '누군가 탕비실 커피를 전부 디카페인으로 바꿔놓았습니다.',
+    sceneImageUrl: IMAGE,
+    characters: [character('가', true), character('나'), character('다')],
+    script: {
+        confession: '제가 그랬어요.',
+        lines: { 가: { alibi: ['회의 중이었어요.'], deflection: ['저는 아니에요.'], accusation: ['{target}, 수상해요.'] } },
+    },
+    evidence: {
+        alibis: { 가: '회의실에 있었다고 한다.' },
+        clues: [{ id: 'jar', kind: 'physical', text: '빈 커피 통이 발견됐다.', knownBy: ['나'], keywords: ['커피'], implicates: '가' }],
+    },
+});
+
+const pack = (scenarios: unknown[] = [scenario()]) => ({
+    format: SCENARIO_PACK_FORMAT,
+    version: SCENARIO_PACK_VERSION,
+    id: 'office-coffee',
+    title: '커피 사건',
+    scenarios,
+});
+
+const pathsOf = (errors: { path: string }[]) => errors.map(e => e.path);
+
+describe('validateScenarioPack', () => {
+    it('accepts a complete pack', () => {
+        const result = validateScenarioPack(pack());
+        expect(result.errors).toEqual([]);
+        expect(result.pack?.scenarios).toHaveLength(1);
+    });
+
+    it('accepts the built-in scenarios', () => {
+        expect(validateScenarioPack(pack(pregeneratedGameSets)).errors).toEqual([]);
+    });
+
+    it('checks the pack header', () => {
+        const result = validateScenarioPack({ format: 'zip', version: SCENARIO_PACK_VERSION + 1, id: '', title: 3, author: 7, scenarios: [] });
+        expect(result.pack).toBeNull();
+        expect(pathsOf(result.errors)).toEqual(['format', 'version', 'id', 'title', 'author', 'scenarios']);
+        expect(validateScenarioPack([]).errors).toEqual([{ path: '', message: 'pack must be a JSON object' }]);
+    });
+
+    it('collects every problem in a scenario in one pass', () => {
+        const broken = {
+            ...scenario(),
+            sceneImageUrl: 'https://example.com/scene.png',
+            characters: [character('가'), { ...character('나'), imageUrl: 'nope' }, character('나')],
+        };
+        expect(pathsOf(validateScenarioPack(pack([broken])).errors)).toEqual([
+            'scenarios[0].sceneImageUrl',
+            'scenarios[0].characters[1].imageUrl',
+            'scenarios[0].characters[2].name',
+            'scenarios[0].characters',
+        ]);
+    });
+
+    it('needs exactly one villain and a cast of a playable size', () => {
+        const twoVillains = { ...scenario(), characters: [character('가', true), character('나', true), character('다')] };
+        expect(validateGameSet(twoVillains)).toEqual([{ path: 'characters', message: 'exactly one villain is allowed (found 2)' }]);
+        const tooSmall = { ...scenario(), characters: [character('가', true), character('나')] };
+        expect(pathsOf(validateGameSet(tooSmall))).toContain('characters');
+    });
+
+    it('only lets the cast appear in scripts, evidence and the scene', () => {
+        const strangers = {
+            ...scenario(),
+            script: { confession: '제가 그랬어요.', lines: { 라: { alibi: ['-'], deflection: ['-'], accusation: ['-'] } } },
+            evidence: {
+                alibis: { 라: '없었다.' },
+                clues: [
+                    { id: 'jar', kind: 'smell', text: '-', knownBy: ['라'], keywords: ['커피'], implicates: '마' },
+                    { id: 'jar', kind: 'physical', text: '-', knownBy: ['나'], keywords: [] },
+                ],
+            },
+            sceneCast: ['가', '라'],
+        };
+        expect(pathsOf(validateGameSet(strangers))).toEqual([
+            'script.lines["라"]',
+            'evidence.alibis["라"]',
+            'evidence.clues[0].kind',
+            'evidence.clues[0].knownBy[0]',
+            'evidence.clues[0].implicates',
+            'evidence.clues[1].id',
+            'evidence.clues[1].keywords',
+            'sceneCast[1]',
+        ]);
+    });
+
+    it('accepts an optional scenario id but not an empty one', () => {
+        expect(validateGameSet({ ...scenario(), id: 'coffee' })).toEqual([]);
+        expect(pathsOf(validateGameSet({ ...scenario(), id: '' }))).toEqual(['id']);
+    });
+});
+
+describe('parseScenarioPack', () => {
+    it('reports JSON that does not parse', () => {
+        const { pack: parsed, errors } = parseScenarioPack('{"format":');
+        expect(parsed).toBeNull();
+        expect(formatPackErrors(errors)[0]).toMatch(/^not valid JSON: /);
+    });
+
+    it('reads back a pack it created', () => {
+        const created = createScenarioPack('Coffee Case', [{ ...scenario(), id: 'coffee' }], '홍길동');
+        expect(created.id).toMatch(/^coffee-case-/);
+        const { pack: parsed, errors } = parseScenarioPack(JSON.stringify(created));
+        expect(errors).toEqual([]);
+        expect(parsed).toEqual(created);
+        expect(parsed.scenarios[0].id).toBe('coffee');
+    });
+});
+
+describe('formatPackErrors', () => {
+    it('puts the path in front of each message', () => {
+        expect(formatPackErrors([{ path: 'title', message: 'must be a non-empty string' }, { path: '', message: 'pack must be a JSON object' }]))
+            .toEqual(['title: must be a non-empty string', 'pack must be a JSON object']);
+    });
+});
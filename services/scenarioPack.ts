@@ -0,0 +1,320 @@
+import type { GameSet, PregeneratedCharacter, ScriptedLines } from '../pregeneratedContent';
+
+export const SCENARIO_PACK_FORMAT = 'office-villain-scenario-pack';
+export const SCENARIO_PACK_VERSION = 1;
+
+export const MIN_CAST_SIZE = 3;
+export const MAX_CAST_SIZE = 8;
+
+/**
+ * A shareable collection of scenarios. See `docs/scenario-packs.md` for the documented format.
+ */
+export interface ScenarioPack {
+    format: typeof SCENARIO_PACK_FORMAT;
+    version: number;
+    id: string;
+    title: string;
+    author?: string;
+    scenarios: GameSet[];
+}
+
+export interface PackValidationError {
+    /** Where the problem is, e.g. `scenarios[0].characters[2].imageUrl`. */
+    path: string;
+    message: string;
+}
+
+export interface PackValidationResult {
+    /** The validated pack, or `null` when there are errors. */
+    pack: ScenarioPack | null;
+    errors: PackValidationError[];
+}
+
+const DATA_URL_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export const isImageDataUrl = (value: unknown): value is string =>
+    typeof value === 'string' && DATA_URL_PATTERN.test(value);
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+interface Validator {
+    errors: PackValidationError[];
+    fail(path: string, message: string): void;
+    requireString(value: unknown, path: string): void;
+    requireDataUrl(value: unknown, path: string): void;
+    requireStringList(value: unknown, path: string): void;
+}
+
+/**
+ * Collects every problem instead of stopping at the first, so pack authors can fix a file in one pass.
+ */
+const createValidator = (): Validator => {
+    const errors: PackValidationError[] = [];
+    const fail = (path: string, message: string) => { errors.push({ path, message }); };
+    const requireString = (value: unknown, path: string) => {
+        if (!isNonEmptyString(value)) fail(path, 'must be a non-empty string');
+    };
+
+    return {
+        errors,
+        fail,
+        requireString,
+        requireDataUrl(value, path) {
+            if (!isImageDataUrl(value)) fail(path, 'must be a base64 image data URL (data:image/png;base64,...)');
+        },
+        requireStringList(value, path) {
+            if (!Array.isArray(value) || value.length === 0) {
+                fail(path, 'must be a non-empty array of strings');
+                return;
+            }
+            value.forEach((item, i) => requireString(item, `${path}[${i}]`));
+        },
+    };
+};
+
+const validateCharacter = (v: Validator, raw: unknown, path: string): PregeneratedCharacter | null => {
+    if (!isObject(raw)) {
+        v.fail(path, 'must be an object');
+        return null;
+    }
+    v.requireString(raw.name, `${path}.name`);
+    v.requireString(raw.position, `${path}.position`);
+    v.requireString(raw.personality, `${path}.personality`);
+    v.requireString(raw.visualDescription, `${path}.visualDescription`);
+    v.requireDataUrl(raw.imageUrl, `${path}.imageUrl`);
+    if (typeof raw.isVillain !== 'boolean') {
+        v.fail(`${path}.isVillain`, 'must be true or false');
+    }
+    return raw as unknown as PregeneratedCharacter;
+};
+
+const validateScript = (v: Validator, raw: unknown, path: string, castNames: Set<string>): void => {
+    if (!isObject(raw)) {
+        v.fail(path, 'must be an object');
+        return;
+    }
+    v.requireString(raw.confession, `${path}.confession`);
+    if (raw.lines === undefined) return;
+    if (!isObject(raw.lines)) {
+        v.fail(`${path}.lines`, 'must be an object keyed by character name');
+        return;
+    }
+    Object.entries(raw.lines).forEach(([name, lines]) => {
+        const linesPath = `${path}.lines["${name}"]`;
+        if (!castNames.has(name)) {
+            v.fail(linesPath, `"${name}" is not in this scenario's cast`);
+        }
+        if (!isObject(lines)) {
+            v.fail(linesPath, 'must be an object with alibi, deflection and accusation lists');
+            return;
+        }
+        (['alibi', 'deflection', 'accusation'] as (keyof ScriptedLines)[]).forEach(key => {
+            v.requireStringList(lines[key], `${linesPath}.${key}`);
+        });
+    });
+};
+
+const CLUE_KINDS = ['timeline', 'physical'];
+
+const validateEvidence = (v: Validator, raw: unknown, path: string, castNames: Set<string>): void => {
+    if (!isObject(raw)) {
+        v.fail(path, 'must be an object');
+        return;
+    }
+    const requireCastName = (name: unknown, namePath: string) => {
+        if (typeof name === 'string' && !castNames.has(name)) {
+            v.fail(namePath, `"${name}" is not in this scenario's cast`);
+        }
+    };
+
+    if (!isObject(raw.alibis)) {
+        v.fail(`${path}.alibis`, 'must be an object keyed by character name');
+    } else {
+        Object.entries(raw.alibis).forEach(([name, alibi]) => {
+            requireCastName(name, `${path}.alibis["${name}"]`);
+            v.requireString(alibi, `${path}.alibis["${name}"]`);
+        });
+    }
+
+    if (!Array.isArray(raw.clues)) {
+        v.fail(`${path}.clues`, 'must be an array');
+        return;
+    }
+    const ids = new Set<string>();
+    raw.clues.forEach((clue, i) => {
+        const cluePath = `${path}.clues[${i}]`;
+        if (!isObject(clue)) {
+            v.fail(cluePath, 'must be an object');
+            return;
+        }
+        v.requireString(clue.id, `${cluePath}.id`);
+        if (typeof clue.id === 'string') {
+            if (ids.has(clue.id)) v.fail(`${cluePath}.id`, `duplicate clue id "${clue.id}"`);
+            ids.add(clue.id);
+        }
+        if (!CLUE_KINDS.includes(clue.kind as string)) {
+            v.fail(`${cluePath}.kind`, `must be one of ${CLUE_KINDS.join(', ')}`);
+        }
+        if (clue.time !== undefined) v.requireString(clue.time, `${cluePath}.time`);
+        v.requireString(clue.text, `${cluePath}.text`);
+        v.requireStringList(clue.knownBy, `${cluePath}.knownBy`);
+        if (Array.isArray(clue.knownBy)) {
+            clue.knownBy.forEach((name, j) => requireCastName(name, `${cluePath}.knownBy[${j}]`));
+        }
+        v.requireStringList(clue.keywords, `${cluePath}.keywords`);
+        if (clue.implicates !== undefined) {
+            v.requireString(clue.implicates, `${cluePath}.implicates`);
+            requireCastName(clue.implicates, `${cluePath}.implicates`);
+        }
+    });
+};
+
+const validateScenario = (v: Validator, raw: unknown, path: string): void => {
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    if (!isObject(raw)) {
+        v.fail(path, 'must be an object');
+        return;
+    }
+    if (raw.id !== undefined) v.requireString(raw.id, at('id'));
+    v.requireString(raw.sabotage, at('sabotage'));
+    v.requireDataUrl(raw.sceneImageUrl, at('sceneImageUrl'));
+
+    if (!Array.isArray(raw.characters)) {
+        v.fail(at('characters'), 'must be an array');
+        return;
+    }
+    if (raw.characters.length < MIN_CAST_SIZE || raw.characters.length > MAX_CAST_SIZE) {
+        v.fail(at('characters'), `must have between ${MIN_CAST_SIZE} and ${MAX_CAST_SIZE} characters (found ${raw.characters.length})`);
+    }
+
+    const characters = raw.characters.map((c, i) => validateCharacter(v, c, at(`characters[${i}]`)));
+    const castNames = new Set<string>();
+    characters.forEach((c, i) => {
+        if (!c || !isNonEmptyString(c.name)) return;
+        // Names double as React keys and vote targets, so they must be unique.
+        if (castNames.has(c.name)) {
+            v.fail(at(`characters[${i}].name`), `duplicate name "${c.name}"`);
+        }
+        castNames.add(c.name);
+    });
+
+    const villainCount = characters.filter(c => c?.isVillain === true).length;
+    if (villainCount === 0) {
+        v.fail(at('characters'), 'no character is marked as the villain (isVillain: true)');
+    } else if (villainCount > 1) {
+        v.fail(at('characters'), `exactly one villain is allowed (found ${villainCount})`);
+    }
+
+    if (raw.script !== undefined) {
+        validateScript(v, raw.script, at('script'), castNames);
+    }
+    if (raw.evidence !== undefined) {
+        validateEvidence(v, raw.evidence, at('evidence'), castNames);
+    }
+    if (raw.sceneCast !== undefined) {
+        v.requireStringList(raw.sceneCast, at('sceneCast'));
+        if (Array.isArray(raw.sceneCast)) {
+            raw.sceneCast.forEach((name, i) => {
+                if (typeof name === 'string' && !castNames.has(name)) v.fail(at(`sceneCast[${i}]`), `"${name}" is not in the cast`);
+            });
+        }
+    }
+};
+
+/**
+ * Checks a single scenario against the same rules used for packs.
+ */
+export const validateGameSet = (data: unknown): PackValidationError[] => {
+    const v = createValidator();
+    validateScenario(v, data, '');
+    return v.errors;
+};
+
+/**
+ * Checks untrusted JSON against the scenario pack format.
+ */
+export const validateScenarioPack = (data: unknown): PackValidationResult => {
+    const v = createValidator();
+
+    if (!isObject(data)) {
+        return { pack: null, errors: [{ path: '', message: 'pack must be a JSON object' }] };
+    }
+    if (data.format !== SCENARIO_PACK_FORMAT) {
+        v.fail('format', `must be "${SCENARIO_PACK_FORMAT}"`);
+    }
+    if (typeof data.version !== 'number' || data.version < 1) {
+        v.fail('version', 'must be a positive number');
+    } else if (data.version > SCENARIO_PACK_VERSION) {
+        v.fail('version', `pack version ${data.version} is newer than supported (${SCENARIO_PACK_VERSION})`);
+    }
+    v.requireString(data.id, 'id');
+    v.requireString(data.title, 'title');
+    if (data.author !== undefined && typeof data.author !== 'string') {
+        v.fail('author', 'must be a string');
+    }
+    if (!Array.isArray(data.scenarios) || data.scenarios.length === 0) {
+        v.fail('scenarios', 'must be a non-empty array');
+    } else {
+        data.scenarios.forEach((scenario, i) => validateScenario(v, scenario, `scenarios[${i}]`));
+    }
+
+    if (v.errors.length > 0) {
+        return { pack: null, errors: v.errors };
+    }
+    return { pack: data as unknown as ScenarioPack, errors: [] };
+};
+
+/**
+ * Parses and validates the text of a pack file.
+ */
+export const parseScenarioPack = (json: string): PackValidationResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { pack: null, errors: [{ path: '', message: `not valid JSON: ${reason}` }] };
+    }
+    return validateScenarioPack(data);
+};
+
+export const formatPackErrors = (errors: PackValidationError[]): string[] =>
+    errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message));
+
+/**
+ * Wraps scenarios in a pack, copying only the documented fields.
+ */
+export const createScenarioPack = (title: string, scenarios: GameSet[], author?: string): ScenarioPack => ({
+    format: SCENARIO_PACK_FORMAT,
+    version: SCENARIO_PACK_VERSION,
+    id: `${title.trim().toLowerCase().replace(/[^a-z0-9가-힣]+/g, '-')}-${Date.now().toString(36)}`,
+    title,
+    ...(author ? { author } : {}),
+    scenarios: scenarios.map(({ id, sabotage, sceneImageUrl, characters, sceneCast, script, evidence }) => ({
+        ...(id ? { id } : {}),
+        sabotage,
+        sceneImageUrl,
+        characters: characters.map(({ name, position, personality, isVillain, visualDescription, imageUrl }) =>
+            ({ name, position, personality, isVillain, visualDescription, imageUrl })),
+        ...(sceneCast ? { sceneCast } : {}),
+        ...(script ? { script } : {}),
+        ...(evidence ? { evidence } : {}),
+    })),
+});
+
+/**
+ * Offers the pack to the user as a `.json` download.
+ */
+export const downloadScenarioPack = (pack: ScenarioPack): void => {
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${pack.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -1,10 +1,17 @@
+/**
+ * Secret roles. The villain and accomplice play for the villain's side; everyone else is an innocent
+ * colleague, some with a special ability.
+ */
+export type Role = 'villain' | 'accomplice' | 'investigator' | 'gossip' | 'employee';
+
 export interface Character {
   name: string;
   position: string;
   personality: string;
-  isVillain: boolean;
+  role: Role;
   status: 'active' | 'voted_out';
   imageUrl: string | null;
+  /** Played by a person rather than the AI. A hot-seat game seats several. */
   isPlayer?: boolean;
   votes?: number;
   visualDescription: string;
@@ -16,6 +23,18 @@ export interface Message {
   isSpecial?: boolean;
   isPrivate?: boolean;
   imageUrl?: string | null;
+  /** Colleagues a player message was directed at; absent when it was for everyone. */
+  addressees?: string[];
+  /** In a hot-seat game, the one person who may read this private message; kept off the shared screen. */
+  privateTo?: string;
 }
 
-export type GameState = 'welcome' | 'setting_up' | 'briefing' | 'discussion' | 'voting' | 'reveal' | 'game_over_win' | 'game_over_loss';
\ No newline at end of file
+export type GameState = 'welcome' | 'setting_up' | 'briefing' | 'discussion' | 'voting' | 'reveal' | 'night' | 'game_over_win' | 'game_over_loss';
+
+export interface Vote {
+  voter: string;
+  /** `null` for an abstention. */
+  votedFor: string | null;
+  /** An AI colleague's one-line justification, shown as their vote is revealed. */
+  reason?: string;
+}
@@ -1,12 +1,25 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const provider = env.AI_PROVIDER?.trim().toLowerCase() ?? '';
+    // Only the browser's own Gemini provider needs the key; every other provider leaves it out.
+    const apiKey = provider === '' || provider === 'gemini' ? env.GEMINI_API_KEY ?? '' : '';
+    if (command === 'build' && apiKey) {
+        // A built bundle gets served to other people, and anyone can read the key out of it.
+        throw new Error('Refusing to build with GEMINI_API_KEY inlined into the bundle. Set AI_PROVIDER=server and let the room server hold the key.');
+    }
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+        'process.env.LOCAL_LLM_URL': JSON.stringify(env.LOCAL_LLM_URL ?? ''),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL ?? ''),
+        'process.env.ROOM_SERVER_URL': JSON.stringify(env.ROOM_SERVER_URL ?? ''),
+        'process.env.AI_TIMEOUT_MS': JSON.stringify(env.AI_TIMEOUT_MS ?? ''),
+        'process.env.AI_CONCURRENCY': JSON.stringify(env.AI_CONCURRENCY ?? '')
       },
       resolve: {
         alias: {